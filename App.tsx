@@ -1,47 +1,197 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ViewState, Message, Sender, ImageConfigOption } from './types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ViewState, Message, Sender, ImageConfigOption, Conversation, UploadedPage, PresentationData, PresentationSlide, PresentationFormat, JobStatus, PracticeDifficulty, GuidedSolution, SolverProblem } from './types';
 import Navigation from './components/Navigation';
 import ChatBubble from './components/ChatBubble';
+import ImagePreprocessor from './components/ImagePreprocessor';
+import ExportMenu from './components/ExportMenu';
+import PresentationEditor from './components/PresentationEditor';
+import ThemePicker from './components/ThemePicker';
+import ModelSettings from './components/ModelSettings';
+import ProviderSettings from './components/ProviderSettings';
+import ApiKeySettings from './components/ApiKeySettings';
+import VoiceInput from './components/VoiceInput';
+import MathComposer from './components/MathComposer';
+import { DIFFICULTY_LABELS } from './components/PracticeQuiz';
 import { 
-  generateDeepTutorResponse, 
+  streamDeepTutorResponse, 
   generateMathVisual, 
+  generateGeometryConstruction,
   solveMathProblem, 
-  quickExplain, 
+  solveMathProblemGuided,
+  detectProblems,
+  streamQuickExplain, 
   generatePresentationContent,
+  regenerateSlide,
   generateSlideImage,
-  fileToBase64 
+  generatePracticeProblems
 } from './services/geminiService';
-import { Send, Upload, Sparkles, ImagePlus, Zap, Search, Loader2, Menu } from 'lucide-react';
-// Import PptxGenJS from ESM source defined in importmap
-import PptxGenJS from 'pptxgenjs';
+import {
+  listConversations,
+  saveConversation,
+  deleteConversation,
+  getActiveConversationId,
+  setActiveConversationId
+} from './services/storageService';
+import { verifySolution, extractFinalAnswer } from './services/verificationService';
+import { filesToPages, isSupportedUpload } from './services/uploadService';
+import { dataUrlToPage } from './services/imageProcessing';
+import { detectPlot } from './services/plotService';
+import { buildPresentation } from './services/presentationService';
+import { runJobs, DEFAULT_SCHEDULER } from './services/jobScheduler';
+import { ModelOverrides, getModelOverrides, setModelOverrides } from './services/modelRegistry';
+import { classifyError, ModelError } from './services/modelRouter';
+import { ApiKeyStatus, getApiKeyStatus } from './services/apiKeyStore';
+import { ProviderSettings as ProviderSettingsData, PROVIDERS, getProviderSettings, setProviderSettings } from './services/aiProvider';
+import { exportSlideshow, printHandout, exportOdp } from './services/slideExportService';
+import { playMessage } from './services/readAloud';
+import { getThread, getPath, getSiblings, getParentId } from './services/messageTree';
+import { DEFAULT_THEME_ID, getTheme, chooseLayout } from './services/presentationThemes';
+import { Send, Upload, Sparkles, ImagePlus, Zap, Search, Loader2, Menu, Square, Shapes, Footprints, Image as ImageIcon } from 'lucide-react';
+
+const WELCOME_TEXT: Record<ViewState, string> = {
+  [ViewState.TUTOR]: "مرحباً! أنا معلم الرياضيات المتقدم. يمكنني مساعدتك في البراهين المعقدة، التفاضل والتكامل، والاستدلال العميق. على ماذا سنعمل اليوم؟",
+  [ViewState.VISUALIZER]: "صِف شكلاً هندسياً أو مفهوماً رياضياً، وسأقوم بإنشاء تصور عالي الجودة لك.",
+  [ViewState.SOLVER]: "ارفع صوراً أو ملف PDF لمسائل رياضية (أو اسحبها وأفلتها هنا)، وسأقوم بشرح حل كل مسألة خطوة بخطوة.",
+  [ViewState.EXPLORER]: "اسألني أي شيء. يمكنني البحث في الويب عن بيانات في الوقت الفعلي أو إعطائك تعريفات سريعة.",
+  [ViewState.PRESENTATION]: "مرحباً بك في منشئ العروض التقديمية. اختر سمة العرض من الأعلى، ثم أدخل **موضوع** العرض التقديمي.",
+  [ViewState.PRACTICE]: "اختر مستوى الصعوبة وعدد المسائل من الأعلى، ثم اكتب **موضوع** التمارين (مثال: المعادلات التربيعية) لأعدّ لك اختباراً قصيراً يُصحَّح تلقائياً.",
+};
+
+const PRACTICE_COUNTS = [3, 5, 10];
+
+const DEFAULT_CONVERSATION_TITLE = 'محادثة جديدة';
+const STOPPED_TEXT = 'تم إيقاف التوليد.';
+
+const mapViews = <T,>(fn: (view: ViewState) => T): Record<ViewState, T> => {
+  return Object.values(ViewState).reduce((acc, v) => {
+    acc[v] = fn(v);
+    return acc;
+  }, {} as Record<ViewState, T>);
+};
+
+// Messages are linked by id (parentId), so two added in the same tick must not share one
+let messageCounter = 0;
+const newMessageId = () => `${Date.now()}-${++messageCounter}`;
+
+const createWelcomeMessage = (viewId: ViewState): Message => ({
+  id: '1',
+  sender: Sender.AI,
+  text: WELCOME_TEXT[viewId],
+  timestamp: Date.now()
+});
+
+const createConversation = (viewId: ViewState): Conversation => ({
+  id: `${viewId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  view: viewId,
+  title: DEFAULT_CONVERSATION_TITLE,
+  messages: [createWelcomeMessage(viewId)],
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+// Name untitled conversations after the first thing the user asked
+const deriveTitle = (conversation: Conversation, msgs: Message[]) => {
+  if (conversation.title !== DEFAULT_CONVERSATION_TITLE) return conversation.title;
+  const firstUserMsg = msgs.find(m => m.sender === Sender.USER && m.text.trim());
+  if (!firstUserMsg) return conversation.title;
+  const text = firstUserMsg.text.trim().replace(/\s+/g, ' ');
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+// Live text for the slide image batch, e.g. "صورة 4/12..."
+const imageProgressText = (statuses: JobStatus[]) => {
+  const finished = statuses.filter(s => s === 'done' || s === 'failed').length;
+  const retrying = statuses.filter(s => s === 'retrying').length;
+  return `توليد الرسوم التوضيحية: صورة ${finished}/${statuses.length}...`
+    + (retrying > 0 ? `\n\nتم تجاوز حد الطلبات، إعادة المحاولة لـ ${retrying} صور بعد قليل.` : '');
+};
+
+const imageSummaryText = (statuses: JobStatus[]) => {
+  const count = (status: JobStatus) => statuses.filter(s => s === status).length;
+  const lines = [`تم توليد ${count('done')} من ${statuses.length} صور.`];
+  if (count('failed') > 0) lines.push(`تعذر توليد ${count('failed')} صور.`);
+  if (count('cancelled') > 0) lines.push(`تم إلغاء ${count('cancelled')} صور.`);
+  if (count('done') < statuses.length) lines.push('يمكنك إعادة توليد الصور الناقصة من المراجعة أدناه.');
+  return lines.join(' ');
+};
+
+// A guided solution starts with no step attempted
+const guidedReply = (id: string, solution: Pick<GuidedSolution, 'problem' | 'steps'>, heading = ''): Message => ({
+  id,
+  sender: Sender.AI,
+  text: `${heading}حل موجّه في ${solution.steps.length} خطوات. اكتب كل خطوة بنفسك وتحقق منها قبل أن تظهر الخطوة الرسمية، واطلب تلميحاً عند الحاجة.`,
+  guided: { ...solution, progress: solution.steps.map(() => ({})) },
+  timestamp: Date.now()
+});
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>(ViewState.TUTOR);
   
   // Presentation Flow State
-  const [presentationStep, setPresentationStep] = useState<'TOPIC' | 'COUNT' | 'GENERATING'>('TOPIC');
+  const [presentationStep, setPresentationStep] = useState<'TOPIC' | 'COUNT' | 'GENERATING' | 'REVIEW'>('TOPIC');
   const [presentationTopic, setPresentationTopic] = useState('');
+  // Outline under review, before the PPTX is built
+  const [presentationDraft, setPresentationDraft] = useState<PresentationData | null>(null);
+  const [presentationThemeId, setPresentationThemeId] = useState(DEFAULT_THEME_ID);
+
+  // Per-feature model choices from the header settings
+  const [modelOverrides, setModelOverridesState] = useState<ModelOverrides>(getModelOverrides);
+
+  // Backend behind every AI call, chosen in the sidebar
+  const [providerSettings, setProviderSettingsState] = useState<ProviderSettingsData>(getProviderSettings);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const provider = PROVIDERS[providerSettings.provider];
+
+  // A student's own Gemini key, used instead of the hosted proxy
+  const [apiKeyStatus, setApiKeyStatus] = useState<ApiKeyStatus>(getApiKeyStatus);
+  const [showApiKeySettings, setShowApiKeySettings] = useState(false);
   
-  // Chat States for different views
-  const [messages, setMessages] = useState<Record<ViewState, Message[]>>({
-    [ViewState.TUTOR]: [{ id: '1', sender: Sender.AI, text: "مرحباً! أنا معلم الرياضيات المتقدم. يمكنني مساعدتك في البراهين المعقدة، التفاضل والتكامل، والاستدلال العميق. على ماذا سنعمل اليوم؟", timestamp: Date.now() }],
-    [ViewState.VISUALIZER]: [{ id: '1', sender: Sender.AI, text: "صِف شكلاً هندسياً أو مفهوماً رياضياً، وسأقوم بإنشاء تصور عالي الجودة لك.", timestamp: Date.now() }],
-    [ViewState.SOLVER]: [{ id: '1', sender: Sender.AI, text: "ارفع صورة لمسألة رياضية، وسأقوم بشرح الحل خطوة بخطوة.", timestamp: Date.now() }],
-    [ViewState.EXPLORER]: [{ id: '1', sender: Sender.AI, text: "اسألني أي شيء. يمكنني البحث في الويب عن بيانات في الوقت الفعلي أو إعطائك تعريفات سريعة.", timestamp: Date.now() }],
-    [ViewState.PRESENTATION]: [{ id: '1', sender: Sender.AI, text: "مرحباً بك في منشئ العروض التقديمية. الرجاء إدخال **موضوع** العرض التقديمي.", timestamp: Date.now() }],
-  });
+  // Saved conversations per view
+  const [conversations, setConversations] = useState<Record<ViewState, Conversation[]>>(() =>
+    mapViews(v => [createConversation(v)])
+  );
+  const [activeConversationIds, setActiveConversationIds] = useState<Record<ViewState, string>>(() =>
+    mapViews(v => conversations[v][0].id)
+  );
+
+  // Chat States for different views (messages of the active conversation)
+  const [messages, setMessages] = useState<Record<ViewState, Message[]>>(() =>
+    mapViews(v => conversations[v][0].messages)
+  );
+  const [isHydrated, setIsHydrated] = useState(false);
 
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showMobileNav, setShowMobileNav] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  // Uploaded pages waiting in the preprocessing dialog
+  const [pendingPages, setPendingPages] = useState<UploadedPage[] | null>(null);
   
   // Specific Controls
   const [visualSize, setVisualSize] = useState<"1K" | "2K" | "4K">("1K");
   const [explorerMode, setExplorerMode] = useState<'search' | 'fast'>('search');
+  const [visualMode, setVisualMode] = useState<'image' | 'geometry'>('image');
+  const [practiceDifficulty, setPracticeDifficulty] = useState<PracticeDifficulty>('medium');
+  const [practiceCount, setPracticeCount] = useState(5);
+  // Tutor and solver answers come as steps the student works through, instead of the whole solution
+  const [guidedMode, setGuidedMode] = useState(false);
+  // Voice conversation: spoken questions are sent as soon as they are transcribed
+  // and text replies are read aloud
+  const [handsFree, setHandsFree] = useState(false);
   
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Last messages written to storage, so only views that changed are saved again
+  const persistedMessagesRef = useRef<Record<ViewState, Message[]> | null>(null);
+
+  const isStreaming = messages[view].some(m => m.isStreaming);
+  // The branch of the conversation on screen (see messageTree)
+  const thread = useMemo(() => getThread(messages[view]), [messages, view]);
+  const threadMessages = useMemo(() => thread.map(entry => entry.message), [thread]);
+  const activeConversation = conversations[view].find(c => c.id === activeConversationIds[view]);
+  const isReviewing = view === ViewState.PRESENTATION && presentationStep === 'REVIEW';
 
   // Scroll to bottom
   const scrollToBottom = () => {
@@ -51,6 +201,108 @@ const App: React.FC = () => {
     scrollToBottom();
   }, [messages, view]);
 
+  // Restore saved conversations on first load
+  useEffect(() => {
+    const loadConversations = async () => {
+      try {
+        const loaded = await Promise.all(Object.values(ViewState).map(async v => {
+          const list = await listConversations(v);
+          if (list.length === 0) return { view: v, list: [conversations[v][0]], activeId: conversations[v][0].id };
+          const storedId = await getActiveConversationId(v);
+          const active = list.find(c => c.id === storedId) || list[0];
+          return { view: v, list, activeId: active.id };
+        }));
+
+        const byView = mapViews(v => loaded.find(l => l.view === v)!);
+        setConversations(mapViews(v => byView[v].list));
+        setActiveConversationIds(mapViews(v => byView[v].activeId));
+        const restored = mapViews(v => byView[v].list.find(c => c.id === byView[v].activeId)!.messages);
+        persistedMessagesRef.current = restored;
+        setMessages(restored);
+      } catch (error) {
+        console.error("Failed to restore conversations", error);
+      } finally {
+        setIsHydrated(true);
+      }
+    };
+    loadConversations();
+  }, []);
+
+  // Persist every view whose messages changed since the last save
+  useEffect(() => {
+    if (!isHydrated) return;
+    const previous = persistedMessagesRef.current;
+    persistedMessagesRef.current = messages;
+
+    Object.values(ViewState).forEach(v => {
+      if (previous && previous[v] === messages[v]) return;
+      // Skip the per-chunk updates of a streaming reply; the final update is saved
+      if (messages[v].some(m => m.isStreaming)) return;
+      const current = conversations[v].find(c => c.id === activeConversationIds[v]);
+      if (!current) return;
+
+      const updated: Conversation = {
+        ...current,
+        title: deriveTitle(current, messages[v]),
+        messages: messages[v],
+        updatedAt: Date.now()
+      };
+      setConversations(prev => ({
+        ...prev,
+        [v]: prev[v].map(c => c.id === updated.id ? updated : c)
+      }));
+      saveConversation(updated).catch(error => console.error("Failed to save conversation", error));
+    });
+  }, [messages, isHydrated]);
+
+  // --- Conversation Management ---
+
+  const activateConversation = (viewId: ViewState, conversation: Conversation) => {
+    persistedMessagesRef.current = { ...(persistedMessagesRef.current || messages), [viewId]: conversation.messages };
+    setActiveConversationIds(prev => ({ ...prev, [viewId]: conversation.id }));
+    setMessages(prev => ({ ...prev, [viewId]: conversation.messages }));
+    if (viewId === ViewState.PRESENTATION) {
+      setPresentationStep('TOPIC');
+      setPresentationTopic('');
+      setPresentationDraft(null);
+    }
+    setActiveConversationId(viewId, conversation.id).catch(error => console.error("Failed to store active conversation", error));
+  };
+
+  const handleNewConversation = () => {
+    const conversation = createConversation(view);
+    setConversations(prev => ({ ...prev, [view]: [conversation, ...prev[view]] }));
+    activateConversation(view, conversation);
+    saveConversation(conversation).catch(error => console.error("Failed to save conversation", error));
+  };
+
+  const handleSelectConversation = (id: string) => {
+    const conversation = conversations[view].find(c => c.id === id);
+    if (!conversation || id === activeConversationIds[view]) return;
+    activateConversation(view, conversation);
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    const conversation = conversations[view].find(c => c.id === id);
+    if (!conversation || !title.trim()) return;
+    const updated = { ...conversation, title: title.trim(), updatedAt: Date.now() };
+    setConversations(prev => ({ ...prev, [view]: prev[view].map(c => c.id === id ? updated : c) }));
+    saveConversation(updated).catch(error => console.error("Failed to save conversation", error));
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    const remaining = conversations[view].filter(c => c.id !== id);
+    const next = remaining.length > 0 ? remaining : [createConversation(view)];
+    setConversations(prev => ({ ...prev, [view]: next }));
+    if (id === activeConversationIds[view]) {
+      activateConversation(view, next[0]);
+    }
+    if (remaining.length === 0) {
+      saveConversation(next[0]).catch(error => console.error("Failed to save conversation", error));
+    }
+    deleteConversation(id).catch(error => console.error("Failed to delete conversation", error));
+  };
+
   // Reset presentation flow if view changes
   useEffect(() => {
     if (view === ViewState.PRESENTATION && messages[ViewState.PRESENTATION].length <= 1) {
@@ -58,41 +310,62 @@ const App: React.FC = () => {
     }
   }, [view]);
 
+  // Without a parentId the message continues the thread on screen. Its parent
+  // then shows the newest version, so a new branch is switched to straight away.
   const addMessage = (viewId: ViewState, msg: Message) => {
+    setMessages(prev => {
+      const parentId = msg.parentId ?? getThread(prev[viewId]).pop()?.message.id;
+      return {
+        ...prev,
+        [viewId]: [
+          ...prev[viewId].map(m => m.id === parentId && m.activeChildId ? { ...m, activeChildId: undefined } : m),
+          { ...msg, parentId }
+        ]
+      };
+    });
+  };
+
+  const updateMessage = (viewId: ViewState, id: string, patch: Partial<Message>) => {
     setMessages(prev => ({
       ...prev,
-      [viewId]: [...prev[viewId], msg]
+      [viewId]: prev[viewId].map(m => m.id === id ? { ...m, ...patch } : m)
     }));
   };
 
-  const handleSendMessage = async () => {
-    if (!inputText.trim()) return;
+  // `spoken` is a hands-free transcript, sent without touching the textarea.
+  // One reply at a time: a second flow would take over the Stop button's controller.
+  const handleSendMessage = async (spoken?: string) => {
+    const text = spoken ?? inputText;
+    if (!text.trim() || isReviewing || isLoading) return;
     
     const userMsg: Message = {
-      id: Date.now().toString(),
+      id: newMessageId(),
       sender: Sender.USER,
-      text: inputText,
+      text,
+      parentId: threadMessages[threadMessages.length - 1]?.id,
       timestamp: Date.now()
     };
     
     addMessage(view, userMsg);
-    setInputText('');
+    if (spoken === undefined) setInputText('');
     
     if (view === ViewState.PRESENTATION) {
-      await handlePresentationFlow(userMsg.text);
+      await handlePresentationFlow(userMsg);
     } else {
       await handleStandardFlow(userMsg);
     }
   };
 
-  const handlePresentationFlow = async (input: string) => {
+  // Retry passes the step the failed message was answering
+  const handlePresentationFlow = async (userMsg: Message, step = presentationStep) => {
+    const input = userMsg.text;
     setIsLoading(true);
     try {
-      if (presentationStep === 'TOPIC') {
+      if (step === 'TOPIC') {
         setPresentationTopic(input);
         setPresentationStep('COUNT');
         addMessage(ViewState.PRESENTATION, {
-          id: Date.now().toString(),
+          id: newMessageId(),
           sender: Sender.AI,
           text: `موضوع رائع: "${input}".\n\nكم عدد الشرائح التي تود إنشاؤها؟ (مثال: 5, 8, 10)`,
           timestamp: Date.now()
@@ -101,11 +374,11 @@ const App: React.FC = () => {
         return;
       }
 
-      if (presentationStep === 'COUNT') {
+      if (step === 'COUNT') {
         const count = parseInt(input);
         if (isNaN(count) || count < 1 || count > 20) {
            addMessage(ViewState.PRESENTATION, {
-            id: Date.now().toString(),
+            id: newMessageId(),
             sender: Sender.AI,
             text: "الرجاء إدخال رقم صحيح للشرائح (بين 1 و 20).",
             timestamp: Date.now()
@@ -116,7 +389,7 @@ const App: React.FC = () => {
 
         setPresentationStep('GENERATING');
         addMessage(ViewState.PRESENTATION, {
-          id: Date.now().toString(),
+          id: newMessageId(),
           sender: Sender.AI,
           text: `بدء البحث عن "${presentationTopic}" لإنشاء ${count} شرائح...\n\n1. البحث عن بيانات دقيقة...\n2. هيكلة المحتوى...\n3. توليد رسوم توضيحية بالذكاء الاصطناعي لكل شريحة...\n\nقد يستغرق هذا دقيقة.`,
           timestamp: Date.now()
@@ -125,274 +398,545 @@ const App: React.FC = () => {
         // 1. Generate Text Content
         const data = await generatePresentationContent(presentationTopic, count);
 
-        // 2. Generate Images for each slide (Parallel-ish but limited to avoid rate limits if strict)
-        const slidesWithImages = [];
-        for (const slide of data.slides) {
-           let imageBase64 = null;
-           if (slide.imageDescription) {
-             imageBase64 = await generateSlideImage(slide.imageDescription);
-           }
-           slidesWithImages.push({ ...slide, imageBase64 });
-        }
+        // 2. Generate slide images a few at a time; the stop button cancels the rest
+        const imageJobs = data.slides.flatMap((slide, index) => slide.imageDescription ? [index] : []);
+        const images: Record<number, string | null> = {};
+        if (imageJobs.length > 0) {
+          const controller = new AbortController();
+          abortControllerRef.current = controller;
+          const progressId = newMessageId();
+          addMessage(ViewState.PRESENTATION, {
+            id: progressId,
+            sender: Sender.AI,
+            text: imageProgressText(imageJobs.map(() => 'pending')),
+            progress: imageJobs.map(() => 'pending'),
+            isStreaming: true,
+            timestamp: Date.now()
+          });
 
-        // 3. Build PPTX
-        const pres = new PptxGenJS();
-        pres.rtlMode = true; // Enable RTL mode for the presentation
-        pres.layout = 'LAYOUT_16x9'; // 10 x 5.625 inches
-        
-        // Define Layout Constants
-        const SLIDE_WIDTH = 10;
-        const SLIDE_HEIGHT = 5.625;
-        const MARGIN = 0.5;
-        
-        // Title Slide
-        let titleSlide = pres.addSlide();
-        titleSlide.background = { color: 'F1F5F9' }; // Slate-100
-        titleSlide.addText(data.title, { x: 0.5, y: 2.0, w: '90%', fontSize: 36, align: 'center', color: '0F172A', bold: true, rtl: true });
-        titleSlide.addText(`تم الإنشاء بواسطة MathMind AI`, { x: 0.5, y: 3.5, w: '90%', fontSize: 18, align: 'center', color: '475569', rtl: true });
-
-        // Content Slides
-        slidesWithImages.forEach(s => {
-          let slide = pres.addSlide();
-          slide.background = { color: 'FFFFFF' };
-          
-          // --- 1. Title Area (Top) ---
-          slide.addText(s.title, { 
-            x: MARGIN, y: 0.3, w: SLIDE_WIDTH - (MARGIN * 2), h: 0.7,
-            fontSize: 24, bold: true, color: '4F46E5', valign: 'middle', rtl: true, align: 'right'
+          const results = await runJobs(
+            imageJobs,
+            // No image (safety block, empty reply, no permission) counts as failed, not done
+            async (slideIndex, _, signal) => {
+              const image = await generateSlideImage(data.slides[slideIndex].imageDescription, signal);
+              if (!image) throw new Error(`No image for slide ${slideIndex + 1}`);
+              return image;
+            },
+            {
+              // callModel already retries each model and falls back along the chain
+              ...DEFAULT_SCHEDULER,
+              maxRetries: 0,
+              signal: controller.signal,
+              onProgress: (statuses) => updateMessage(ViewState.PRESENTATION, progressId, { text: imageProgressText(statuses), progress: statuses })
+            }
+          );
+          abortControllerRef.current = null;
+
+          results.forEach((result, j) => {
+            images[imageJobs[j]] = result.status === 'done' ? result.value : null;
           });
-          
-          // Define Content Area Grid
-          const contentY = 1.1;
-          const contentHeight = 2.8;
-          const imageWidth = 3.2;
-          const textWidth = SLIDE_WIDTH - (MARGIN * 2) - imageWidth - 0.2; // 0.2 gap
-
-          // --- 2. Image (Left Side in RTL logic, but visually depends on placement) ---
-          // In RTL design, usually image is on Left, Text on Right.
-          // Let's put Text on Right (x=High) and Image on Left (x=Low)
-          
-          // Right Side (Text)
-          const textX = SLIDE_WIDTH - MARGIN - textWidth;
-          
-          // Left Side (Image)
-          const imageX = MARGIN;
-
-          if (s.imageBase64) {
-             slide.addImage({ 
-               data: s.imageBase64, 
-               x: imageX, 
-               y: contentY, 
-               w: imageWidth, 
-               h: contentHeight,
-               sizing: { type: 'contain', w: imageWidth, h: contentHeight }
-             });
-          } else {
-             // Fallback box if image failed
-             slide.addShape(pres.ShapeType.rect, { 
-               x: imageX, y: contentY, w: imageWidth, h: contentHeight, 
-               fill: { color: 'F1F5F9' } 
-             });
-             slide.addText("لا توجد صورة", { 
-               x: imageX, y: contentY, w: imageWidth, h: contentHeight, 
-               fontSize: 10, align: 'center', color: '94A3B8' 
-             });
-          }
-
-          // --- 3. Bullet Points (Right Side) ---
-          // Prevent overlap with shrinkText: true
-          const bullets = s.bullets.map(b => ({ 
-            text: b, 
-            options: { fontSize: 16, color: '334155', breakLine: true, bullet: true, inset: 5, rtl: true, align: 'right' } 
-          }));
-          
-          slide.addText(bullets, { 
-            x: textX, 
-            y: contentY, 
-            w: textWidth, 
-            h: contentHeight, 
-            lineSpacing: 24,
-            valign: 'top',
-            shrinkText: true,
-            rtl: true,
-            align: 'right'
+          updateMessage(ViewState.PRESENTATION, progressId, {
+            text: imageSummaryText(results.map(r => r.status)),
+            progress: results.map(r => r.status),
+            isStreaming: false
           });
-          
-          // --- 4. Examples (Bottom Area) ---
-          const examplesY = contentY + contentHeight + 0.1; // ~4.0
-          const examplesHeight = SLIDE_HEIGHT - examplesY - MARGIN; // Remaining space ~1.1
-
-          if (s.examples && s.examples.length > 0) {
-             // Label
-             slide.addText("أمثلة:", { 
-               x: MARGIN, y: examplesY, w: textWidth, h: 0.3, 
-               fontSize: 14, bold: true, color: '0F172A', rtl: true, align: 'right'
-             });
-             
-             // Content
-             const examples = s.examples.map(e => ({ 
-               text: e, 
-               options: { fontSize: 14, color: '475569', bullet: { type: 'number' }, rtl: true, align: 'right' } 
-             }));
-             
-             slide.addText(examples, { 
-               x: MARGIN, 
-               y: examplesY + 0.3, 
-               w: SLIDE_WIDTH - (MARGIN * 2), 
-               h: examplesHeight - 0.3, 
-               valign: 'top',
-               shrinkText: true,
-               rtl: true,
-               align: 'right'
-             });
-          }
-
-          // Notes
-          if (s.speakerNotes) {
-            slide.addNotes(s.speakerNotes);
-          }
+        }
+        const slides: PresentationSlide[] = data.slides.map((slide, index) => {
+          const imageBase64 = images[index] ?? null;
+          return { ...slide, imageBase64, layout: chooseLayout({ ...slide, imageBase64 }) };
         });
 
-        const fileName = `${data.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pptx`;
-        await pres.writeFile({ fileName });
-
+        // 3. Hand over to the outline review before building the PPTX
+        setPresentationDraft({ ...data, slides });
+        setPresentationStep('REVIEW');
         addMessage(ViewState.PRESENTATION, {
-          id: Date.now().toString(),
+          id: newMessageId(),
           sender: Sender.AI,
-          text: `نجاح! تم إنشاء "${data.title}" مع ${slidesWithImages.length} شرائح.\n\nتضمن البحث، الأمثلة، ورسوم توضيحية خاصة. يجب أن يتم التحميل تلقائياً.`,
+          text: `تم تجهيز مخطط "${data.title}" (${slides.length} شرائح).\n\nراجع الشرائح أدناه: عدّل النقاط والأمثلة والملاحظات، أعد ترتيب الشرائح أو احذفها، ثم اضغط **بناء العرض**.`,
           timestamp: Date.now()
         });
-        
-        // Reset for next
-        setPresentationStep('TOPIC');
-        setPresentationTopic('');
       }
 
+    } catch (error) {
+      console.error(error);
+      addMessage(ViewState.PRESENTATION, errorReply(error, step === 'COUNT' ? userMsg.id : undefined));
+      setPresentationStep('TOPIC');
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  // --- Presentation Review ---
+
+  const handleRegenerateSlide = async (index: number) => {
+    if (!presentationDraft) return;
+    const slide = await regenerateSlide(presentationDraft, index);
+    const imageBase64 = slide.imageDescription ? await generateSlideImage(slide.imageDescription) : null;
+    setPresentationDraft(prev => prev && {
+      ...prev,
+      slides: prev.slides.map((s, i) => i === index ? { ...slide, imageBase64, layout: chooseLayout({ ...slide, imageBase64 }) } : s)
+    });
+  };
+
+  const handleRegenerateSlideImage = async (index: number) => {
+    const description = presentationDraft?.slides[index]?.imageDescription;
+    if (!description) return;
+    const imageBase64 = await generateSlideImage(description);
+    // No image counts as a failure, as in the first batch: the editor shows it and the old image stays
+    if (!imageBase64) throw new ModelError('empty-image');
+    setPresentationDraft(prev => prev && {
+      ...prev,
+      slides: prev.slides.map((s, i) => i === index ? { ...s, imageBase64 } : s)
+    });
+  };
+
+  const handleCancelPresentation = () => {
+    setPresentationDraft(null);
+    setPresentationStep('TOPIC');
+    setPresentationTopic('');
+  };
+
+  // The draft stays open after an export so the same deck can be saved in other formats
+  const handleBuildPresentation = async (format: PresentationFormat, slidesPerPage = 3) => {
+    if (!presentationDraft) return;
+    // Blank lines left over from editing are dropped
+    const data: PresentationData = {
+      ...presentationDraft,
+      slides: presentationDraft.slides.map(s => ({
+        ...s,
+        bullets: s.bullets.map(b => b.trim()).filter(Boolean),
+        examples: s.examples.map(e => e.trim()).filter(Boolean),
+      }))
+    };
+    const theme = getTheme(presentationThemeId);
+
+    setIsLoading(true);
+    try {
+      let text: string;
+      switch (format) {
+        case 'html':
+          await exportSlideshow(data, theme);
+          text = `تم تصدير "${data.title}" كعرض HTML يعمل دون اتصال.\n\nافتح الملف في المتصفح وتنقل بالأسهم، واضغط N لإظهار ملاحظات المتحدث و F لملء الشاشة.`;
+          break;
+        case 'handout':
+          await printHandout(data, theme, slidesPerPage);
+          text = `تم تجهيز نشرة "${data.title}" للطباعة (${slidesPerPage} شرائح في الصفحة). اختر "حفظ كـ PDF" من نافذة الطباعة.`;
+          break;
+        case 'odp':
+          await exportOdp(data, theme);
+          text = `تم تصدير "${data.title}" بصيغة ODP لبرامج LibreOffice Impress و Keynote.`;
+          break;
+        default:
+          await buildPresentation(data, theme);
+          text = `نجاح! تم إنشاء "${data.title}" مع ${data.slides.length} شرائح.\n\nتضمن البحث، الأمثلة، ورسوم توضيحية خاصة. يجب أن يتم التحميل تلقائياً.`;
+      }
+      addMessage(ViewState.PRESENTATION, {
+        id: newMessageId(),
+        sender: Sender.AI,
+        text,
+        timestamp: Date.now()
+      });
     } catch (error) {
       console.error(error);
       addMessage(ViewState.PRESENTATION, {
-        id: Date.now().toString(),
+        id: newMessageId(),
         sender: Sender.AI,
-        text: "واجهت خطأ أثناء إنشاء العرض التقديمي. يرجى المحاولة مرة أخرى.",
+        text: "تعذر بناء ملف العرض التقديمي. يمكنك المحاولة مرة أخرى.",
         timestamp: Date.now()
       });
-      setPresentationStep('TOPIC');
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleStandardFlow = async (userMsg: Message) => {
+    const viewId = view;
+    const controller = new AbortController();
+    // Only the streamed views can be stopped mid-reply
+    if (viewId === ViewState.TUTOR || viewId === ViewState.EXPLORER) {
+      abortControllerRef.current = controller;
+    }
     setIsLoading(true);
+
+    // Streamed replies are added on the first chunk and updated in place
+    const aiMsgId = newMessageId();
+    let streamStarted = false;
+    let streamedText = '';
+    const onStreamUpdate = ({ text, thoughts }: { text: string; thoughts?: string }) => {
+      streamedText = text;
+      const patch = { text, thoughts: thoughts || undefined, isThinking: !text };
+      if (!streamStarted) {
+        streamStarted = true;
+        addMessage(viewId, { id: aiMsgId, parentId: userMsg.id, sender: Sender.AI, isStreaming: true, timestamp: Date.now(), ...patch });
+      } else {
+        updateMessage(viewId, aiMsgId, patch);
+      }
+    };
+
     try {
       let aiText = '';
+      let thoughts: string | undefined;
       let sources: { uri: string; title: string }[] | undefined;
       
-      if (view === ViewState.TUTOR) {
+      if (guidedMode && (viewId === ViewState.TUTOR || viewId === ViewState.SOLVER)) {
+        const solution = await solveMathProblemGuided('', userMsg.text, undefined, controller.signal);
+        addMessage(viewId, { ...guidedReply(aiMsgId, solution), parentId: userMsg.id });
+        return;
+
+      } else if (viewId === ViewState.TUTOR) {
         // Deep Thinking Tutor
-        const history = messages[ViewState.TUTOR].map(m => ({
+        // Only the branch the question was asked on counts, without its error bubbles
+        const history = getPath(messages[ViewState.TUTOR], userMsg.parentId).filter(m => !m.error).map(m => ({
           role: m.sender === Sender.USER ? 'user' : 'model',
           parts: [{ text: m.text }]
         }));
         history.push({ role: 'user', parts: [{ text: userMsg.text }]});
         
-        aiText = await generateDeepTutorResponse(userMsg.text, history);
+        const result = await streamDeepTutorResponse(userMsg.text, history, onStreamUpdate, controller.signal);
+        aiText = result.text;
+        thoughts = result.thoughts || undefined;
       
-      } else if (view === ViewState.VISUALIZER) {
-        // Image Gen
-        const imageUrl = await generateMathVisual(userMsg.text, visualSize);
-        if (imageUrl) {
-          addMessage(view, {
-            id: (Date.now() + 1).toString(),
+      } else if (viewId === ViewState.VISUALIZER && visualMode === 'geometry') {
+        // Structured construction rendered on the dynamic geometry canvas
+        const geometry = await generateGeometryConstruction(userMsg.text);
+        addMessage(viewId, {
+          id: aiMsgId,
+          parentId: userMsg.id,
+          sender: Sender.AI,
+          text: `إنشاء هندسي: **${geometry.title}**`,
+          geometry: geometry,
+          timestamp: Date.now()
+        });
+        return;
+
+      } else if (viewId === ViewState.VISUALIZER) {
+        // Function plots are drawn natively; the image model is for conceptual illustrations
+        const plot = detectPlot(userMsg.text);
+        if (plot) {
+          addMessage(viewId, {
+            id: aiMsgId,
+            parentId: userMsg.id,
             sender: Sender.AI,
-            text: `إليك تصور بدقة ${visualSize} لـ: "${userMsg.text}"`,
-            image: imageUrl,
+            text: `رسم بياني تفاعلي لـ: "${userMsg.text}"\n\nاسحب للتحريك واستخدم عجلة الفأرة للتكبير.`,
+            plot: plot,
             timestamp: Date.now()
           });
-          setIsLoading(false);
           return;
-        } else {
-          aiText = "لم أتمكن من إنشاء الصورة. يرجى تجربة وصف مختلف.";
         }
 
-      } else if (view === ViewState.EXPLORER) {
+        // Image Gen
+        const imageUrl = await generateMathVisual(userMsg.text, visualSize);
+        addMessage(viewId, {
+          id: aiMsgId,
+          parentId: userMsg.id,
+          sender: Sender.AI,
+          text: `إليك تصور بدقة ${visualSize} لـ: "${userMsg.text}"`,
+          image: imageUrl,
+          timestamp: Date.now()
+        });
+        return;
+
+      } else if (viewId === ViewState.PRACTICE) {
+        // A quiz on the topic; answers are checked in the bubble as the student goes
+        const problems = await generatePracticeProblems(userMsg.text, practiceDifficulty, practiceCount);
+        addMessage(viewId, {
+          id: aiMsgId,
+          parentId: userMsg.id,
+          sender: Sender.AI,
+          text: `اختبار في **${userMsg.text}**: ${problems.length} مسائل بمستوى ${DIFFICULTY_LABELS[practiceDifficulty]}. أجب عن كل مسألة ثم اضغط **تحقق**، ويمكنك طلب تلميح عند الحاجة.`,
+          practice: {
+            topic: userMsg.text,
+            difficulty: practiceDifficulty,
+            problems,
+            attempts: problems.map(() => ({ response: '', hintsShown: 0 }))
+          },
+          timestamp: Date.now()
+        });
+        return;
+
+      } else if (viewId === ViewState.EXPLORER) {
         // Search or Fast
-        const result = await quickExplain(userMsg.text, explorerMode === 'search');
+        const result = await streamQuickExplain(userMsg.text, explorerMode === 'search', text => onStreamUpdate({ text }), controller.signal);
         aiText = result.text || "لم يتم توليد أي استجابة.";
         sources = result.sources;
       
-      } else if (view === ViewState.SOLVER) {
+      } else if (viewId === ViewState.SOLVER) {
         // Text-only input to solver
         aiText = await solveMathProblem('', userMsg.text);
       }
 
-      addMessage(view, {
-        id: (Date.now() + 1).toString(),
-        sender: Sender.AI,
-        text: aiText,
-        sources: sources,
-        timestamp: Date.now()
-      });
+      // Re-check the final answer of worked solutions locally
+      const verification = (viewId === ViewState.TUTOR || viewId === ViewState.SOLVER) && aiText
+        ? verifySolution(aiText, userMsg.text) || undefined
+        : undefined;
+
+      if (streamStarted) {
+        updateMessage(viewId, aiMsgId, { text: aiText || STOPPED_TEXT, thoughts, sources, verification, isStreaming: false, isThinking: false });
+      } else {
+        addMessage(viewId, {
+          id: aiMsgId,
+          parentId: userMsg.id,
+          sender: Sender.AI,
+          text: aiText || STOPPED_TEXT,
+          thoughts: thoughts,
+          sources: sources,
+          verification: verification,
+          timestamp: Date.now()
+        });
+      }
+      if (handsFree && aiText) playMessage(aiMsgId, aiText);
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever was streamed before the user pressed stop
+        if (streamStarted) {
+          updateMessage(viewId, aiMsgId, { text: streamedText || STOPPED_TEXT, isStreaming: false, isThinking: false });
+        } else {
+          addMessage(viewId, { id: aiMsgId, parentId: userMsg.id, sender: Sender.AI, text: STOPPED_TEXT, timestamp: Date.now() });
+        }
+        return;
+      }
       console.error(error);
-      addMessage(view, {
-        id: (Date.now() + 1).toString(),
-        sender: Sender.AI,
-        text: "حدث خطأ ما.",
-        timestamp: Date.now()
-      });
+      if (streamStarted) updateMessage(viewId, aiMsgId, { isStreaming: false, isThinking: false });
+      // Under the question, or after the part of the reply that did arrive
+      addMessage(viewId, { ...errorReply(error, userMsg.id), parentId: streamStarted ? aiMsgId : userMsg.id });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleModelOverridesChange = (next: ModelOverrides) => {
+    setModelOverrides(next);
+    setModelOverridesState(next);
+  };
+
+  // Error bubble explaining what failed; Retry sends retryOf again. A missing or
+  // locked key or model is something the student can fix right away, so its settings open too.
+  const errorReply = (error: unknown, retryOf?: string): Message => {
+    const modelError = classifyError(error);
+    if (modelError.kind === 'missing-key' || modelError.kind === 'key-locked') setShowApiKeySettings(true);
+    if (modelError.kind === 'missing-model') setShowProviderSettings(true);
+    return {
+      id: newMessageId(),
+      sender: Sender.AI,
+      text: modelError.message,
+      error: { kind: modelError.kind, retryOf },
+      timestamp: Date.now()
+    };
+  };
+
+  const handleProviderSettingsSave = (next: ProviderSettingsData) => {
+    setProviderSettings(next);
+    setProviderSettingsState(next);
+    setShowProviderSettings(false);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Converts uploads to pages and opens the preprocessing step before solving
+  const handleFiles = async (files: File[]) => {
+    if (isLoading || pendingPages || !files.some(isSupportedUpload)) return;
 
     setIsLoading(true);
     try {
-      const base64 = await fileToBase64(file);
-      
-      // Add User Image Message
-      addMessage(view, {
-        id: Date.now().toString(),
-        sender: Sender.USER,
-        text: "قم بتحليل هذه الصورة:",
-        image: `data:${file.type};base64,${base64}`,
-        timestamp: Date.now()
-      });
+      const pages = await filesToPages(files);
+      if (pages.length > 0) setPendingPages(pages);
+    } catch (error) {
+      console.error(error);
+      addMessage(ViewState.SOLVER, { ...errorReply(error), text: "فشل في قراءة الملف. تأكد من أنه صورة أو ملف PDF سليم." });
+    } finally {
+      setIsLoading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
 
-      // Call API
-      const result = await solveMathProblem(base64, "قم بحل المسألة الظاهرة في الصورة خطوة بخطوة باللغة العربية.");
-      
-      addMessage(view, {
-        id: (Date.now() + 1).toString(),
+  const handlePreprocessConfirm = (pages: UploadedPage[]) => {
+    setPendingPages(null);
+    solvePages(pages);
+  };
+
+  // Solves one problem as its own reply. A failure gets its own error bubble,
+  // whose Retry solves just this problem again.
+  const solveProblem = async (pages: UploadedPage[], problem: SolverProblem, userMsgId: string): Promise<{ solved: boolean; answer: string | null }> => {
+    const viewId = ViewState.SOLVER;
+    const page = pages[problem.page];
+    const heading = problem.number ? `### المسألة ${problem.number}\n\n` : '';
+    try {
+      if (guidedMode) {
+        const solution = await solveMathProblemGuided(page.data, problem.statement, page.mimeType);
+        addMessage(viewId, guidedReply(newMessageId(), solution, heading));
+        return { solved: true, answer: null };
+      }
+      const prompt = problem.statement
+        ? `قم بحل هذه المسألة فقط من الصورة خطوة بخطوة باللغة العربية، وضع الإجابة النهائية داخل \\boxed{}:\n${problem.statement}`
+        : "قم بحل المسألة الظاهرة في الصورة خطوة بخطوة باللغة العربية، وضع الإجابة النهائية داخل \\boxed{}.";
+      const result = await solveMathProblem(page.data, prompt, page.mimeType) || '';
+
+      addMessage(viewId, {
+        id: newMessageId(),
         sender: Sender.AI,
-        text: result,
+        text: `${heading}${result}`,
+        verification: result ? verifySolution(result, problem.statement) || undefined : undefined,
         timestamp: Date.now()
       });
+      return { solved: true, answer: extractFinalAnswer(result) };
+    } catch (error) {
+      console.error(error);
+      const reply = errorReply(error, userMsgId);
+      addMessage(viewId, { ...reply, text: `${heading}${reply.text}`, error: { ...reply.error!, problem } });
+      return { solved: false, answer: null };
+    }
+  };
+
+  // Solves every problem found in the (preprocessed) pages as its own reply.
+  // Retry passes the id of the user message that already shows the pages.
+  const solvePages = async (pages: UploadedPage[], retryOf?: string) => {
+    const viewId = ViewState.SOLVER;
+    const userMsgId = retryOf || newMessageId();
+    setIsLoading(true);
+    try {
+      // Add User Image Message
+      if (!retryOf) {
+        addMessage(viewId, {
+          id: userMsgId,
+          sender: Sender.USER,
+          text: pages.length === 1 ? "قم بتحليل هذه الصورة:" : `قم بتحليل هذه الصفحات (${pages.length}):`,
+          images: pages.map(p => `data:${p.mimeType};base64,${p.data}`),
+          timestamp: Date.now()
+        });
+      }
+
+      // Find the separate problems; fall back to one problem per page
+      let problems: SolverProblem[] = await detectProblems(pages).catch(error => {
+        console.error("Problem detection failed", error);
+        return [];
+      });
+      if (problems.length === 0) {
+        problems = pages.map((_, page) => ({ page, statement: '' }));
+      }
+      if (problems.length > 1) problems = problems.map((problem, index) => ({ ...problem, number: index + 1 }));
+
+      const answers: { statement: string; solved: boolean; answer: string | null }[] = [];
+      for (const problem of problems) {
+        const { solved, answer } = await solveProblem(pages, problem, userMsgId);
+        answers.push({ statement: problem.statement || pages[problem.page].label, solved, answer });
+      }
+
+      // No summary table in guided mode, which would give the answers away
+      if (answers.length > 1 && !guidedMode) {
+        const rows = answers.map((a, i) =>
+          `| ${i + 1} | ${a.statement.replace(/\n/g, ' ').replace(/\|/g, '\\|')} | ${a.answer ? `$${a.answer}$` : a.solved ? 'انظر الحل' : 'تعذر الحل'} |`
+        );
+        addMessage(viewId, {
+          id: newMessageId(),
+          sender: Sender.AI,
+          text: `**ملخص الإجابات**\n\n| # | المسألة | الإجابة |\n|---|---|---|\n${rows.join('\n')}`,
+          timestamp: Date.now()
+        });
+      }
 
     } catch (error) {
        console.error(error);
-       addMessage(view, {
-        id: (Date.now() + 1).toString(),
-        sender: Sender.AI,
-        text: "فشل في معالجة الصورة.",
-        timestamp: Date.now()
-      });
+       addMessage(viewId, errorReply(error, userMsgId));
     } finally {
       setIsLoading(false);
-      if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
-  // Helper for 'Enter' key
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
+  const retryProblem = async (pages: UploadedPage[], problem: SolverProblem, userMsgId: string) => {
+    setIsLoading(true);
+    try {
+      await solveProblem(pages, problem, userMsgId);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Drops the error bubble and sends the user message it answered again
+  const handleRetry = (errorMsg: Message) => {
+    const viewId = view;
+    const userMsg = messages[viewId].find(m => m.id === errorMsg.error?.retryOf);
+    if (!userMsg || isLoading) return;
+    setMessages(prev => ({ ...prev, [viewId]: prev[viewId].filter(m => m.id !== errorMsg.id) }));
+    if (viewId === ViewState.PRESENTATION) {
+      handlePresentationFlow(userMsg, 'COUNT');
+    } else if (userMsg.images) {
+      const pages = userMsg.images.map((url, i) => dataUrlToPage(url, `صفحة ${i + 1}`));
+      if (errorMsg.error?.problem) retryProblem(pages, errorMsg.error.problem, userMsg.id);
+      else solvePages(pages, userMsg.id);
+    } else {
+      handleStandardFlow(userMsg);
+    }
+  };
+
+  // --- Branching (TUTOR) ---
+
+  // The edited question becomes a new version next to the original, answered from the same point
+  const handleEditMessage = (original: Message, text: string) => {
+    if (!text.trim() || isLoading) return;
+    const userMsg: Message = {
+      id: newMessageId(),
+      sender: Sender.USER,
+      text,
+      parentId: getParentId(messages[view], original.id),
+      timestamp: Date.now()
+    };
+    addMessage(view, userMsg);
+    handleStandardFlow(userMsg);
+  };
+
+  // A new answer to the same question, kept as another version of the reply
+  const handleRegenerate = (aiMsg: Message) => {
+    const parentId = getParentId(messages[view], aiMsg.id);
+    const userMsg = messages[view].find(m => m.id === parentId);
+    if (!userMsg || userMsg.sender !== Sender.USER || isLoading) return;
+    handleStandardFlow(userMsg);
+  };
+
+  const handleSelectVersion = (msg: Message, offset: number) => {
+    const siblings = getSiblings(messages[view], msg.id);
+    const next = siblings[siblings.findIndex(m => m.id === msg.id) + offset];
+    const parentId = getParentId(messages[view], msg.id);
+    if (next && parentId) updateMessage(view, parentId, { activeChildId: next.id });
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files || []));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (view !== ViewState.SOLVER) return;
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (view !== ViewState.SOLVER) return;
+    e.preventDefault();
+    if (!isDragging) setIsDragging(true);
+  };
+
+  // Pasted screenshots go straight to the solver; pasted text is left alone
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (view !== ViewState.SOLVER) return;
+    const files = Array.from(e.clipboardData.files).filter(isSupportedUpload);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleFiles(files);
+  };
+
+  // Transcripts go into the textarea for review, unless the student is talking hands-free
+  // and no reply is still coming
+  const handleTranscript = (text: string) => {
+    if (handsFree && !isLoading) {
+      handleSendMessage(text);
+      return;
     }
+    setInputText(prev => prev.trim() ? `${prev.trim()} ${text}` : text);
   };
 
   return (
@@ -400,13 +944,42 @@ const App: React.FC = () => {
       
       {/* Desktop Sidebar */}
       <div className="hidden md:block h-full">
-        <Navigation currentView={view} setView={setView} />
+        <Navigation 
+          currentView={view} 
+          setView={setView}
+          conversations={conversations[view]}
+          activeConversationId={activeConversationIds[view]}
+          onNewConversation={handleNewConversation}
+          onSelectConversation={handleSelectConversation}
+          onRenameConversation={handleRenameConversation}
+          onDeleteConversation={handleDeleteConversation}
+          providerLabel={provider.label}
+          onOpenProviderSettings={() => setShowProviderSettings(true)}
+          apiKeyStatus={apiKeyStatus}
+          onOpenApiKeySettings={() => setShowApiKeySettings(true)}
+          disabled={isLoading}
+        />
       </div>
 
       {/* Mobile Navigation Overlay */}
       {showMobileNav && (
         <div className="absolute inset-0 z-50 bg-slate-950 md:hidden">
-          <Navigation currentView={view} setView={setView} onClose={() => setShowMobileNav(false)} />
+          <Navigation 
+            currentView={view} 
+            setView={setView}
+            conversations={conversations[view]}
+            activeConversationId={activeConversationIds[view]}
+            onNewConversation={handleNewConversation}
+            onSelectConversation={handleSelectConversation}
+            onRenameConversation={handleRenameConversation}
+            onDeleteConversation={handleDeleteConversation}
+            providerLabel={provider.label}
+            onOpenProviderSettings={() => setShowProviderSettings(true)}
+            apiKeyStatus={apiKeyStatus}
+            onOpenApiKeySettings={() => setShowApiKeySettings(true)}
+            disabled={isLoading}
+            onClose={() => setShowMobileNav(false)} 
+          />
         </div>
       )}
 
@@ -436,17 +1009,45 @@ const App: React.FC = () => {
               {view === ViewState.SOLVER && "حل المسائل"}
               {view === ViewState.EXPLORER && "مستكشف المفاهيم"}
               {view === ViewState.PRESENTATION && "صانع العروض"}
+              {view === ViewState.PRACTICE && "التمارين والاختبارات"}
             </h2>
-            {view === ViewState.TUTOR && (
-              <span className="hidden sm:inline-block bg-indigo-500/20 text-indigo-300 text-[10px] px-2 py-0.5 rounded border border-indigo-500/30">
-                gemini-3-pro
-              </span>
-            )}
+            <ModelSettings
+              view={view}
+              overrides={modelOverrides}
+              provider={provider}
+              onChange={handleModelOverridesChange}
+              disabled={isLoading}
+            />
           </div>
 
           {/* View Specific Controls */}
           <div className="flex items-center gap-3">
             {view === ViewState.VISUALIZER && (
+              <div className="flex items-center gap-2 bg-slate-800 p-1 rounded-lg border border-slate-700">
+                <button
+                  onClick={() => setVisualMode('image')}
+                  className={`flex items-center gap-1 text-xs px-3 py-1 rounded-md transition-all ${
+                    visualMode === 'image' 
+                    ? 'bg-indigo-600 text-white shadow-sm' 
+                    : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  <ImageIcon size={12} /> <span className="hidden sm:inline">صورة / رسم بياني</span>
+                </button>
+                <button
+                  onClick={() => setVisualMode('geometry')}
+                  className={`flex items-center gap-1 text-xs px-3 py-1 rounded-md transition-all ${
+                    visualMode === 'geometry' 
+                    ? 'bg-indigo-600 text-white shadow-sm' 
+                    : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  <Shapes size={12} /> <span className="hidden sm:inline">هندسة تفاعلية</span>
+                </button>
+              </div>
+            )}
+
+            {view === ViewState.VISUALIZER && visualMode === 'image' && (
               <div className="flex items-center gap-2 bg-slate-800 p-1 rounded-lg border border-slate-700">
                 {(["1K", "2K", "4K"] as const).map((size) => (
                   <button
@@ -488,20 +1089,115 @@ const App: React.FC = () => {
                 </button>
               </div>
             )}
+
+            {(view === ViewState.TUTOR || view === ViewState.SOLVER) && (
+              <button
+                onClick={() => setGuidedMode(prev => !prev)}
+                className={`flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border transition-all ${
+                  guidedMode
+                  ? 'bg-indigo-600 border-indigo-500 text-white shadow-sm'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+                title={guidedMode ? 'الحل الموجّه مفعّل: تكتب كل خطوة بنفسك قبل أن تظهر' : 'حل المسائل خطوة بخطوة بنفسك'}
+              >
+                <Footprints size={12} /> <span className="hidden sm:inline">حل موجّه</span>
+              </button>
+            )}
+
+            {view === ViewState.PRACTICE && (
+              <>
+                <div className="flex items-center gap-2 bg-slate-800 p-1 rounded-lg border border-slate-700">
+                  {(Object.keys(DIFFICULTY_LABELS) as PracticeDifficulty[]).map((difficulty) => (
+                    <button
+                      key={difficulty}
+                      onClick={() => setPracticeDifficulty(difficulty)}
+                      className={`text-xs px-3 py-1 rounded-md transition-all ${
+                        practiceDifficulty === difficulty
+                        ? 'bg-indigo-600 text-white shadow-sm'
+                        : 'text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      {DIFFICULTY_LABELS[difficulty]}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2 bg-slate-800 p-1 rounded-lg border border-slate-700" title="عدد المسائل">
+                  {PRACTICE_COUNTS.map((count) => (
+                    <button
+                      key={count}
+                      onClick={() => setPracticeCount(count)}
+                      className={`text-xs px-3 py-1 rounded-md transition-all ${
+                        practiceCount === count
+                        ? 'bg-indigo-600 text-white shadow-sm'
+                        : 'text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {view === ViewState.PRESENTATION && (
+              <ThemePicker themeId={presentationThemeId} onChange={setPresentationThemeId} disabled={isLoading} />
+            )}
+
+            <ExportMenu
+              title={activeConversation?.title || DEFAULT_CONVERSATION_TITLE}
+              messages={threadMessages}
+              disabled={isStreaming}
+            />
           </div>
         </div>
 
         {/* Chat Area */}
-        <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-6">
-          {messages[view].map((msg) => (
-            <ChatBubble key={msg.id} message={msg} />
-          ))}
-          {isLoading && (
+        <div 
+          className={`flex-1 overflow-y-auto p-4 md:p-8 space-y-6 ${isDragging ? 'ring-2 ring-inset ring-indigo-500 bg-indigo-500/5' : ''}`}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
+          {thread.map(({ message: msg, version, versions }, index) => {
+            // Questions can be edited and answers regenerated in the tutor, which branches the conversation
+            const canBranch = view === ViewState.TUTOR && !isLoading && !msg.error && !msg.isStreaming;
+            return (
+              <ChatBubble
+                key={msg.id}
+                message={msg}
+                onUpdate={(patch) => updateMessage(view, msg.id, patch)}
+                onCancel={msg.progress ? handleStop : undefined}
+                onRetry={msg.error?.retryOf && !isLoading ? () => handleRetry(msg) : undefined}
+                onEdit={canBranch && msg.sender === Sender.USER ? (text) => handleEditMessage(msg, text) : undefined}
+                onRegenerate={canBranch && msg.sender === Sender.AI && thread[index - 1]?.message.sender === Sender.USER
+                  ? () => handleRegenerate(msg) : undefined}
+                versions={versions > 1 ? {
+                  current: version,
+                  total: versions,
+                  onSelect: isLoading ? undefined : (offset) => handleSelectVersion(msg, offset)
+                } : undefined}
+              />
+            );
+          })}
+          {isReviewing && presentationDraft && (
+            <PresentationEditor
+              data={presentationDraft}
+              onChange={setPresentationDraft}
+              onRegenerateSlide={handleRegenerateSlide}
+              onRegenerateImage={handleRegenerateSlideImage}
+              onBuild={handleBuildPresentation}
+              onCancel={handleCancelPresentation}
+              isBuilding={isLoading}
+            />
+          )}
+          {isLoading && !isStreaming && (
             <div className="flex justify-start w-full animate-pulse">
                <div className="bg-slate-800 px-4 py-3 rounded-2xl rounded-tr-none flex items-center gap-2 text-slate-400 text-sm">
                  <Sparkles size={16} className="animate-spin text-indigo-400" />
-                 {view === ViewState.TUTOR ? 'جاري التفكير بعمق...' : 
-                  view === ViewState.PRESENTATION ? 'جاري تصميم الشرائح والصور...' : 'جاري التوليد...'}
+                 {guidedMode && (view === ViewState.TUTOR || view === ViewState.SOLVER) ? 'جاري تقسيم الحل إلى خطوات...' :
+                  view === ViewState.TUTOR ? 'جاري التفكير بعمق...' : 
+                  view === ViewState.PRESENTATION ? 'جاري تصميم الشرائح والصور...' :
+                  view === ViewState.PRACTICE ? 'جاري إعداد المسائل...' : 'جاري التوليد...'}
                </div>
             </div>
           )}
@@ -518,13 +1214,14 @@ const App: React.FC = () => {
                   type="file" 
                   ref={fileInputRef}
                   className="hidden" 
-                  accept="image/*" 
+                  accept="image/*,application/pdf" 
+                  multiple
                   onChange={handleFileUpload}
                 />
                 <button 
                   onClick={() => fileInputRef.current?.click()}
                   className="p-3 rounded-xl bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-indigo-400 transition-all border border-slate-700 flex items-center gap-2"
-                  title="رفع صورة"
+                  title="رفع صور أو ملف PDF (يمكنك أيضاً السحب والإفلات أو اللصق)"
                 >
                   <ImagePlus size={20} />
                   <span className="hidden sm:inline text-xs font-medium">رفع</span>
@@ -532,36 +1229,56 @@ const App: React.FC = () => {
               </>
             )}
 
-            <div className="flex-1 bg-slate-800 rounded-xl border border-slate-700 focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500 transition-all flex items-center">
-              <textarea
-                value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder={
-                  view === ViewState.TUTOR ? "اطلب حلاً أو شرحاً..." :
-                  view === ViewState.VISUALIZER ? "صف الشكل الهندسي..." :
-                  view === ViewState.SOLVER ? "سياق إضافي (اختياري)..." :
-                  view === ViewState.PRESENTATION ? (presentationStep === 'TOPIC' ? "أدخل موضوع العرض التقديمي..." : "أدخل عدد الشرائح...") :
-                  "ابحث..."
-                }
-                className="w-full bg-transparent border-none text-slate-200 placeholder-slate-500 px-4 py-3 focus:ring-0 resize-none max-h-32 min-h-[48px]"
-                rows={1}
-                dir="rtl"
-              />
-            </div>
+            <VoiceInput
+              onTranscript={handleTranscript}
+              handsFree={handsFree}
+              onHandsFreeChange={setHandsFree}
+              disabled={isLoading || isReviewing}
+            />
+
+            <MathComposer
+              value={inputText}
+              onChange={setInputText}
+              onSubmit={() => handleSendMessage()}
+              onPaste={handlePaste}
+              placeholder={
+                view === ViewState.TUTOR ? (guidedMode ? "اكتب المسألة لتحلها خطوة بخطوة..." : "اطلب حلاً أو شرحاً...") :
+                view === ViewState.VISUALIZER ? "صف الشكل الهندسي..." :
+                view === ViewState.SOLVER ? "سياق إضافي (اختياري)..." :
+                view === ViewState.PRACTICE ? "موضوع التمارين..." :
+                view === ViewState.PRESENTATION ? (
+                  presentationStep === 'TOPIC' ? "أدخل موضوع العرض التقديمي..." :
+                  presentationStep === 'REVIEW' ? "راجع الشرائح أعلاه ثم اضغط بناء العرض..." :
+                  "أدخل عدد الشرائح..."
+                ) :
+                "ابحث..."
+              }
+              disabled={isReviewing}
+            />
 
-            <button
-              onClick={handleSendMessage}
-              disabled={isLoading || (!inputText.trim() && view !== ViewState.SOLVER)}
-              className={`p-3 rounded-xl flex items-center gap-2 justify-center transition-all ${
-                isLoading || (!inputText.trim() && view !== ViewState.SOLVER)
-                  ? 'bg-slate-800 text-slate-500' // Better contrast for disabled state
-                  : 'bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-500/20'
-              }`}
-            >
-              {isLoading ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} className="rotate-180" />} 
-              <span className="hidden sm:inline font-medium">إرسال</span>
-            </button>
+            {isLoading && abortControllerRef.current ? (
+              <button
+                onClick={handleStop}
+                className="p-3 rounded-xl flex items-center gap-2 justify-center transition-all bg-red-600/90 text-white hover:bg-red-500 shadow-lg shadow-red-500/20"
+                title="إيقاف التوليد"
+              >
+                <Square size={20} fill="currentColor" />
+                <span className="hidden sm:inline font-medium">إيقاف</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => handleSendMessage()}
+                disabled={isLoading || (!inputText.trim() && view !== ViewState.SOLVER)}
+                className={`p-3 rounded-xl flex items-center gap-2 justify-center transition-all ${
+                  isLoading || (!inputText.trim() && view !== ViewState.SOLVER)
+                    ? 'bg-slate-800 text-slate-500' // Better contrast for disabled state
+                    : 'bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-500/20'
+                }`}
+              >
+                {isLoading ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} className="rotate-180" />} 
+                <span className="hidden sm:inline font-medium">إرسال</span>
+              </button>
+            )}
           </div>
           <div className="max-w-4xl mx-auto text-center mt-2">
              <p className="text-[10px] text-slate-600">
@@ -570,6 +1287,29 @@ const App: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {pendingPages && (
+        <ImagePreprocessor
+          pages={pendingPages}
+          onConfirm={handlePreprocessConfirm}
+          onCancel={() => setPendingPages(null)}
+        />
+      )}
+
+      {showApiKeySettings && (
+        <ApiKeySettings
+          onChange={setApiKeyStatus}
+          onClose={() => setShowApiKeySettings(false)}
+        />
+      )}
+
+      {showProviderSettings && (
+        <ProviderSettings
+          settings={providerSettings}
+          onSave={handleProviderSettingsSave}
+          onCancel={() => setShowProviderSettings(false)}
+        />
+      )}
     </div>
   );
 };
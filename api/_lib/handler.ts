@@ -0,0 +1,172 @@
+import { GoogleGenAI } from "@google/genai";
+import {
+  ProxyCall,
+  ProxyEndpoint,
+  ProxyError,
+  ProxyLine,
+  ProxyOperation,
+  ENDPOINT_FEATURES,
+  RATE_LIMITS,
+  PROXY_LIMITS
+} from "../../services/apiProxy";
+import { FEATURE_MODELS, ModelKind, getModelInfo } from "../../services/modelRegistry";
+import { geminiText, geminiStream, geminiJson, geminiImage, geminiSpeech } from "../../services/geminiApi";
+
+// --- Proxy Endpoint ---
+// Shared by every function under /api: checks the caller's rate and request
+// size, validates the call against the endpoint, then runs it with the
+// server's key. Replies are newline-delimited JSON (see apiProxy).
+
+const OPERATION_KINDS: Record<ProxyOperation, ModelKind> = {
+  text: 'text',
+  stream: 'text',
+  json: 'text',
+  image: 'image',
+  speech: 'speech',
+};
+
+const errorResponse = (status: number, message: string, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ error: { message, status } }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const toProxyError = (error: any): ProxyError => ({
+  message: `${error?.message || error}`,
+  status: Number(error?.status) || undefined,
+});
+
+// --- Rate Limiting ---
+// Sliding window per client IP and endpoint, kept in the instance's memory.
+// Instances don't share it, so it caps bursts rather than enforcing an exact quota.
+
+const WINDOW_MS = 60000;
+const MAX_TRACKED_CLIENTS = 5000;
+
+const hits = new Map<string, number[]>();
+
+const clientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || 'unknown';
+
+// Seconds until the client may call again, or 0 when this call is allowed
+const takeRateLimit = (key: string, limit: number): number => {
+  const now = Date.now();
+  const recent = (hits.get(key) || []).filter(t => now - t < WINDOW_MS);
+  if (recent.length >= limit) {
+    hits.set(key, recent);
+    return Math.ceil((recent[0] + WINDOW_MS - now) / 1000);
+  }
+  recent.push(now);
+  hits.set(key, recent);
+  if (hits.size > MAX_TRACKED_CLIENTS) {
+    for (const [k, times] of hits) {
+      if (now - times[times.length - 1] >= WINDOW_MS) hits.delete(k);
+    }
+  }
+  return 0;
+};
+
+// --- Request Checks ---
+
+// Stops reading as soon as the body passes the limit, whatever content-length claims
+const readBody = async (req: Request): Promise<string | null> => {
+  if (Number(req.headers.get('content-length')) > PROXY_LIMITS.maxBodyBytes) return null;
+  if (!req.body) return '';
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > PROXY_LIMITS.maxBodyBytes) {
+      reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+// Returns why the call is not allowed on this endpoint, or null
+const validateCall = (endpoint: ProxyEndpoint, call: ProxyCall): string | null => {
+  const request = call?.request as Partial<ProxyCall['request']> | undefined;
+  if (!request || !(call.operation in OPERATION_KINDS)) return 'Unknown operation';
+  if (!request.feature || !ENDPOINT_FEATURES[endpoint].includes(request.feature)) {
+    return `Feature "${request.feature}" is not served by /api/${endpoint}`;
+  }
+  const kind = OPERATION_KINDS[call.operation];
+  if (FEATURE_MODELS[request.feature].kind !== kind) return `"${request.feature}" does not support ${call.operation}`;
+  // Any catalog model of the right kind, so the user's model settings keep working
+  if (getModelInfo(request.model || '')?.kind !== kind) return `Model "${request.model}" is not allowed`;
+  if (call.operation === 'text' || call.operation === 'stream' || call.operation === 'json') {
+    const { parts, history, thinkingBudget } = call.request;
+    if (!Array.isArray(parts) || parts.length === 0) return 'Missing prompt';
+    if (history && (!Array.isArray(history) || history.length > PROXY_LIMITS.maxHistoryTurns)) return 'History is too long';
+    if (thinkingBudget && thinkingBudget > PROXY_LIMITS.maxThinkingBudget) return 'Thinking budget is too large';
+  }
+  return null;
+};
+
+// --- Running Calls ---
+
+const runCall = async (client: GoogleGenAI, call: ProxyCall, signal: AbortSignal, send: (line: ProxyLine) => void) => {
+  switch (call.operation) {
+    case 'text':
+      return send({ result: await geminiText(client, { ...call.request, signal }) });
+    case 'stream':
+      return geminiStream(client, { ...call.request, signal }, delta => send({ delta }));
+    case 'json':
+      return send({ result: await geminiJson(client, { ...call.request, signal }) });
+    case 'image':
+      return send({ result: await geminiImage(client, { ...call.request, signal }) });
+    case 'speech':
+      return send({ result: await geminiSpeech(client, { ...call.request, signal }) });
+  }
+};
+
+export const createEndpoint = (endpoint: ProxyEndpoint) => async (req: Request): Promise<Response> => {
+  if (req.method !== 'POST') return errorResponse(405, 'Method not allowed', { Allow: 'POST' });
+
+  const retryAfter = takeRateLimit(`${endpoint}:${clientIp(req)}`, RATE_LIMITS[endpoint]);
+  if (retryAfter) return errorResponse(429, 'Too many requests', { 'Retry-After': `${retryAfter}` });
+
+  const body = await readBody(req);
+  if (body === null) return errorResponse(413, `Request body is larger than ${PROXY_LIMITS.maxBodyBytes} bytes`);
+
+  let call: ProxyCall;
+  try {
+    call = JSON.parse(body);
+  } catch {
+    return errorResponse(400, 'Request body is not valid JSON');
+  }
+  const invalid = validateCall(endpoint, call);
+  if (invalid) return errorResponse(400, invalid);
+
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) return errorResponse(500, 'API Key is missing on the server. Set GEMINI_API_KEY in the deployment environment.');
+  const client = new GoogleGenAI({ apiKey });
+
+  // Headers go out straight away; the result or error follows as the last line
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (line: ProxyLine) => controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+      try {
+        await runCall(client, call, req.signal, send);
+      } catch (error) {
+        if (!req.signal.aborted) send({ error: toProxyError(error) });
+      }
+      if (!req.signal.aborted) controller.close();
+    },
+  });
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' },
+  });
+};
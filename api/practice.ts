@@ -0,0 +1,5 @@
+import { createEndpoint } from "./_lib/handler";
+
+export const config = { runtime: 'edge' };
+
+export default createEndpoint('practice');
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import {
+  ApiKeyStatus,
+  getApiKey,
+  getApiKeyStatus,
+  isApiKeyEncrypted,
+  maskApiKey,
+  saveApiKey,
+  unlockApiKey,
+  clearApiKey,
+  validateApiKey
+} from '../services/apiKeyStore';
+import { ModelError } from '../services/modelRouter';
+import { X, KeyRound, Lock, Unlock, Loader2, Trash2, Check, ExternalLink } from 'lucide-react';
+
+interface ApiKeySettingsProps {
+  onChange: (status: ApiKeyStatus) => void;
+  onClose: () => void;
+}
+
+const KEY_PAGE_URL = 'https://aistudio.google.com/apikey';
+const MIN_PASSPHRASE_LENGTH = 6;
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500";
+
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({ onChange, onClose }) => {
+  const [status, setStatus] = useState<ApiKeyStatus>(getApiKeyStatus);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [key, setKey] = useState('');
+  const [useEncryption, setUseEncryption] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: ApiKeyStatus) => {
+    setStatus(next);
+    onChange(next);
+  };
+
+  const passphraseError =
+    !useEncryption ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH ? `عبارة المرور ${MIN_PASSPHRASE_LENGTH} أحرف على الأقل`
+    : passphrase !== confirmation ? 'عبارتا المرور غير متطابقتين'
+    : null;
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await validateApiKey(key.trim());
+      await saveApiKey(key.trim(), useEncryption ? passphrase : undefined);
+      setKey('');
+      setPassphrase('');
+      setConfirmation('');
+      setIsReplacing(false);
+      update('ready');
+    } catch (e) {
+      setError(e instanceof ModelError ? e.message : 'تعذر التحقق من المفتاح.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsBusy(true);
+    setError(null);
+    if (await unlockApiKey(passphrase)) {
+      setPassphrase('');
+      update('ready');
+    } else {
+      setError('عبارة المرور غير صحيحة.');
+    }
+    setIsBusy(false);
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm('حذف المفتاح المحفوظ من هذا المتصفح؟')) return;
+    clearApiKey();
+    setPassphrase('');
+    setError(null);
+    update('none');
+  };
+
+  const storedKey = getApiKey();
+  const showForm = status === 'none' || isReplacing;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" dir="rtl">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md max-h-full overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="font-medium text-slate-200 flex items-center gap-2">
+            <KeyRound size={18} className="text-indigo-400" />
+            مفتاح Gemini الخاص بك
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm text-slate-300">
+          <p className="text-xs text-slate-400 leading-relaxed">
+            يُحفظ المفتاح في هذا المتصفح فقط ويُرسَل مباشرة إلى Google. بدونه تمر الطلبات عبر خادم الموقع.
+          </p>
+
+          {/* Locked: ask for the passphrase */}
+          {status === 'locked' && !isReplacing && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-amber-300 text-xs">
+                <Lock size={14} /> المفتاح مشفّر. أدخل عبارة المرور لاستخدامه في هذه الجلسة.
+              </div>
+              <input
+                type="password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && passphrase) handleUnlock(); }}
+                placeholder="عبارة المرور"
+                className={inputClass}
+              />
+              <button
+                onClick={handleUnlock}
+                disabled={!passphrase || isBusy}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-xl text-sm bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+              >
+                {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Unlock size={16} />}
+                فتح المفتاح
+              </button>
+            </div>
+          )}
+
+          {/* Ready: show which key is saved */}
+          {status === 'ready' && !isReplacing && storedKey && (
+            <div className="flex items-center justify-between gap-2 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2">
+              <span className="font-mono text-xs" dir="ltr">{maskApiKey(storedKey)}</span>
+              <span className="flex items-center gap-1 text-[10px] text-slate-400">
+                {isApiKeyEncrypted() ? <><Lock size={10} /> مشفّر</> : 'غير مشفّر'}
+              </span>
+            </div>
+          )}
+
+          {/* New or replacement key */}
+          {showForm && (
+            <div className="space-y-3">
+              <input
+                type="password"
+                autoFocus
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                placeholder="AIza..."
+                className={`${inputClass} font-mono`}
+                dir="ltr"
+              />
+              <a href={KEY_PAGE_URL} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300">
+                <ExternalLink size={12} /> احصل على مفتاح من Google AI Studio
+              </a>
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input type="checkbox" checked={useEncryption} onChange={(e) => setUseEncryption(e.target.checked)} className="accent-indigo-500" />
+                تشفير المفتاح بعبارة مرور
+              </label>
+              {useEncryption && (
+                <div className="space-y-2">
+                  <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="عبارة المرور" className={inputClass} />
+                  <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="تأكيد عبارة المرور" className={inputClass} />
+                  <p className="text-[10px] text-slate-500">لا يمكن استعادة المفتاح إذا نسيت عبارة المرور؛ ستحتاج إلى إدخاله من جديد.</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {(error || (showForm && passphrase && passphraseError)) && (
+            <p className="text-xs text-red-400">{error || passphraseError}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-2 p-4 border-t border-slate-800">
+          {status !== 'none' ? (
+            <button onClick={handleRemove} className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-400">
+              <Trash2 size={14} /> حذف المفتاح
+            </button>
+          ) : <span />}
+          <div className="flex items-center gap-2">
+            {showForm ? (
+              <>
+                {isReplacing && (
+                  <button onClick={() => { setIsReplacing(false); setError(null); }} className="px-4 py-2 rounded-xl text-sm text-slate-300 hover:bg-slate-800 border border-slate-700">
+                    إلغاء
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!key.trim() || !!passphraseError || isBusy}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+                >
+                  {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+                  تحقق واحفظ
+                </button>
+              </>
+            ) : (
+              <button onClick={() => { setIsReplacing(true); setError(null); }} className="px-4 py-2 rounded-xl text-sm text-slate-300 hover:bg-slate-800 border border-slate-700">
+                استبدال المفتاح
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -1,46 +1,146 @@
-import React, { useState } from 'react';
-import { Message, Sender } from '../types';
-import { Bot, User, Volume2, Loader2, Link as LinkIcon } from 'lucide-react';
-import { generateSpeech } from '../services/geminiService';
+import React, { useEffect, useState } from 'react';
+import { Message, Sender, JobStatus } from '../types';
+import { Bot, User, Volume2, Loader2, Link as LinkIcon, Brain, ChevronDown, X, AlertTriangle, RotateCcw, Play, Pause, Square, Pencil, RefreshCw, ChevronRight, ChevronLeft } from 'lucide-react';
+import {
+  PlaybackStatus,
+  SPEECH_RATES,
+  SPEECH_VOICES,
+  getPlaybackStatus,
+  getSpeechSettings,
+  setSpeechSettings,
+  subscribePlayback,
+  playMessage,
+  pauseSpeech,
+  resumeSpeech,
+  stopSpeech
+} from '../services/readAloud';
+import FunctionPlot from './FunctionPlot';
+import GeometryCanvas from './GeometryCanvas';
+import PracticeQuiz from './PracticeQuiz';
+import GuidedSteps from './GuidedSteps';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 
+const VERIFICATION_LABELS: Record<NonNullable<Message['verification']>['kind'], string> = {
+  equation: 'تحقق من الجذور',
+  derivative: 'تحقق من المشتقة',
+  integral: 'تحقق من التكامل',
+  arithmetic: 'تحقق حسابي',
+};
+
+const JOB_STATUS_STYLES: Record<JobStatus, { className: string; label: string }> = {
+  pending: { className: 'bg-slate-700', label: 'في الانتظار' },
+  running: { className: 'bg-indigo-500 animate-pulse', label: 'جاري التوليد' },
+  retrying: { className: 'bg-amber-500 animate-pulse', label: 'إعادة المحاولة' },
+  done: { className: 'bg-emerald-500', label: 'تم' },
+  failed: { className: 'bg-red-500', label: 'فشل' },
+  cancelled: { className: 'bg-slate-600 opacity-50', label: 'ملغى' },
+};
+
 interface ChatBubbleProps {
   message: Message;
+  onUpdate?: (patch: Partial<Message>) => void;
+  onCancel?: () => void; // Stops the batch job behind a progress message
+  onRetry?: () => void; // Sends the failed request again (error bubbles)
+  onEdit?: (text: string) => void; // Sends an edited copy of the question as a new version
+  onRegenerate?: () => void; // Asks again for an answer to the question above
+  versions?: { current: number; total: number; onSelect?: (offset: number) => void }; // Sibling versions (see messageTree)
 }
 
-const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
+// While a reply is streaming, the text may end inside a $$ block, an inline $
+// or a code fence. Hide the unfinished math and close open fences so the
+// partial Markdown/KaTeX renders cleanly until the rest arrives.
+const closePartialMarkdown = (text: string) => {
+  let result = text;
+
+  const fenceCount = (result.match(/```/g) || []).length;
+  if (fenceCount % 2 === 1) {
+    return `${result}\n\`\`\``;
+  }
+
+  const displayCount = (result.match(/\$\$/g) || []).length;
+  if (displayCount % 2 === 1) {
+    result = result.slice(0, result.lastIndexOf('$$'));
+  }
+
+  // Inline math never spans lines, so only the last line can hold an open $
+  const lastLineStart = result.lastIndexOf('\n') + 1;
+  const lastLine = result.slice(lastLineStart);
+  let openInline = -1;
+  for (let i = 0; i < lastLine.length; i++) {
+    if (lastLine[i] === '\\') { i++; continue; }
+    if (lastLine[i] !== '$') continue;
+    if (lastLine[i + 1] === '$') { i++; continue; }
+    openInline = openInline === -1 ? i : -1;
+  }
+  if (openInline !== -1) {
+    result = result.slice(0, lastLineStart + openInline);
+  }
+
+  return result;
+};
+
+const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onUpdate, onCancel, onRetry, onEdit, onRegenerate, versions }) => {
   const isAi = message.sender === Sender.AI;
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [loadingAudio, setLoadingAudio] = useState(false);
-
-  const handleSpeak = async () => {
-    if (isPlaying) return; // Simple prevent overlap for now
-    try {
-      setLoadingAudio(true);
-      // Strip markdown symbols and LaTeX for TTS clarity
-      const cleanText = message.text
-        .replace(/\$\$/g, '')
-        .replace(/\$/g, '')
-        .replace(/[*#_`]/g, '');
-        
-      const audioBuffer = await generateSpeech(cleanText);
-      
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const decodedBuffer = await audioContext.decodeAudioData(audioBuffer);
-      const source = audioContext.createBufferSource();
-      source.buffer = decodedBuffer;
-      source.connect(audioContext.destination);
-      source.start(0);
-      
-      setIsPlaying(true);
-      source.onended = () => setIsPlaying(false);
-    } catch (e) {
-      console.error("TTS Error", e);
-    } finally {
-      setLoadingAudio(false);
-    }
+  const [showThoughts, setShowThoughts] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [playback, setPlayback] = useState<PlaybackStatus>(getPlaybackStatus);
+  const [speech, setSpeech] = useState(getSpeechSettings);
+
+  // Only the bubble being read (or just stopped) re-renders on playback changes
+  useEffect(() => {
+    const unsubscribe = subscribePlayback(next =>
+      setPlayback(prev => (next.messageId === message.id || prev.messageId === message.id ? next : prev))
+    );
+    return () => {
+      unsubscribe();
+      if (getPlaybackStatus().messageId === message.id) stopSpeech();
+    };
+  }, [message.id]);
+
+  const isReading = playback.messageId === message.id && playback.state !== 'idle';
+  const readError = playback.messageId === message.id ? playback.error : undefined;
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!onEdit || !draft.trim() || draft === message.text) return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
+  // "‹ 2 / 3 ›" between the versions an edit or regeneration created
+  const versionSwitcher = versions && (
+    <span className="flex items-center gap-0.5 text-slate-500" dir="rtl">
+      <button
+        onClick={() => versions.onSelect?.(-1)}
+        disabled={!versions.onSelect || versions.current === 0}
+        className="p-0.5 rounded hover:text-indigo-400 disabled:opacity-30 disabled:hover:text-slate-500"
+        title="النسخة السابقة"
+      >
+        <ChevronRight size={14} />
+      </button>
+      <span className="tabular-nums">{versions.current + 1} / {versions.total}</span>
+      <button
+        onClick={() => versions.onSelect?.(1)}
+        disabled={!versions.onSelect || versions.current === versions.total - 1}
+        className="p-0.5 rounded hover:text-indigo-400 disabled:opacity-30 disabled:hover:text-slate-500"
+        title="النسخة التالية"
+      >
+        <ChevronLeft size={14} />
+      </button>
+    </span>
+  );
+
+  // Continues from the current chunk in the new voice
+  const handleVoiceChange = (voice: string) => {
+    setSpeech(setSpeechSettings({ voice }));
+    if (isReading) playMessage(message.id, message.text, playback.chunk);
   };
 
   return (
@@ -48,29 +148,156 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
       <div className={`flex max-w-[95%] md:max-w-[85%] ${isAi ? 'flex-row' : 'flex-row-reverse'} gap-3`}>
         
         {/* Avatar */}
-        <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${isAi ? 'bg-indigo-600' : 'bg-slate-600'}`}>
-          {isAi ? <Bot size={18} className="text-white" /> : <User size={18} className="text-white" />}
+        <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${message.error ? 'bg-red-600' : isAi ? 'bg-indigo-600' : 'bg-slate-600'}`}>
+          {message.error ? <AlertTriangle size={16} className="text-white" /> : isAi ? <Bot size={18} className="text-white" /> : <User size={18} className="text-white" />}
         </div>
 
         {/* Content */}
         <div className={`flex flex-col ${isAi ? 'items-start' : 'items-end'} w-full min-w-0`}>
           <div className={`px-5 py-4 rounded-2xl w-full ${
-            isAi 
+            message.error
+              ? 'bg-red-500/10 text-slate-100 rounded-tr-none border border-red-500/30'
+              : isAi 
               ? 'bg-slate-800 text-slate-100 rounded-tr-none border border-slate-700' 
               : 'bg-indigo-600 text-white rounded-tl-none'
           }`}>
+            {message.error && (
+              <p className="mb-1 text-xs font-medium text-red-300">تعذر إكمال الطلب</p>
+            )}
+
+            {message.thoughts && (
+              <div className="mb-3 rounded-xl border border-slate-700 bg-slate-900/50">
+                <button
+                  onClick={() => setShowThoughts(prev => !prev)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-xs text-slate-400 hover:text-indigo-300 transition-colors"
+                >
+                  <span className="flex items-center gap-1.5 font-medium">
+                    <Brain size={14} className={message.isThinking ? 'animate-pulse text-indigo-400' : ''} />
+                    خطوات التفكير
+                  </span>
+                  <ChevronDown size={14} className={`transition-transform ${showThoughts || message.isThinking ? 'rotate-180' : ''}`} />
+                </button>
+                {(showThoughts || message.isThinking) && (
+                  <div className="px-3 pb-3 border-t border-slate-700/50 prose prose-sm prose-invert max-w-none text-slate-400">
+                    <ReactMarkdown
+                      remarkPlugins={[remarkMath]}
+                      rehypePlugins={[rehypeKatex]}
+                    >
+                      {message.isStreaming ? closePartialMarkdown(message.thoughts) : message.thoughts}
+                    </ReactMarkdown>
+                  </div>
+                )}
+              </div>
+            )}
+
             {message.image && (
               <img src={message.image} alt="User upload" className="max-w-full rounded-lg mb-3 border border-slate-500/50" />
             )}
+
+            {message.images && message.images.length > 0 && (
+              <div className={`grid gap-2 mb-3 ${message.images.length > 1 ? 'grid-cols-2 sm:grid-cols-3' : ''}`}>
+                {message.images.map((src, idx) => (
+                  <img key={idx} src={src} alt={`صفحة ${idx + 1}`} className="w-full rounded-lg border border-slate-500/50" />
+                ))}
+              </div>
+            )}
+
+            {message.plot && (
+              <div className="mb-3">
+                <FunctionPlot spec={message.plot} />
+              </div>
+            )}
+
+            {message.geometry && (
+              <div className="mb-3">
+                <GeometryCanvas
+                  construction={message.geometry}
+                  onSave={onUpdate ? (geometry) => onUpdate({ geometry }) : undefined}
+                />
+              </div>
+            )}
+
+            {message.practice && (
+              <div className="mb-3">
+                <PracticeQuiz
+                  quiz={message.practice}
+                  onSave={onUpdate ? (practice) => onUpdate({ practice }) : undefined}
+                />
+              </div>
+            )}
+
+            {message.guided && (
+              <div className="mb-3">
+                <GuidedSteps
+                  solution={message.guided}
+                  onSave={onUpdate ? (guided) => onUpdate({ guided }) : undefined}
+                />
+              </div>
+            )}
             
-            <div className={`prose prose-sm md:prose-base max-w-none ${isAi ? 'prose-invert' : 'text-white prose-headings:text-white prose-strong:text-white prose-p:text-white prose-li:text-white'}`}>
-               <ReactMarkdown
-                 remarkPlugins={[remarkMath]}
-                 rehypePlugins={[rehypeKatex]}
-               >
-                 {message.text}
-               </ReactMarkdown>
-            </div>
+            {isEditing ? (
+              <div className="space-y-2">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                    if (e.key === 'Escape') setIsEditing(false);
+                  }}
+                  autoFocus
+                  rows={3}
+                  className="w-full min-w-[16rem] bg-indigo-800/50 border border-indigo-400/40 rounded-lg px-3 py-2 text-sm text-white placeholder-indigo-200 focus:outline-none focus:border-white resize-y [unicode-bidi:plaintext]"
+                  dir="rtl"
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setIsEditing(false)} className="text-xs px-3 py-1 rounded-lg text-indigo-100 hover:bg-indigo-500/50">
+                    إلغاء
+                  </button>
+                  <button
+                    onClick={submitEdit}
+                    disabled={!draft.trim() || draft === message.text}
+                    className="text-xs px-3 py-1 rounded-lg bg-white text-indigo-700 font-medium hover:bg-indigo-50 disabled:opacity-50"
+                  >
+                    إرسال
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className={`prose prose-sm md:prose-base max-w-none ${isAi ? 'prose-invert' : 'text-white prose-headings:text-white prose-strong:text-white prose-p:text-white prose-li:text-white'}`}>
+                 <ReactMarkdown
+                   remarkPlugins={[remarkMath]}
+                   rehypePlugins={[rehypeKatex]}
+                 >
+                   {message.isStreaming ? closePartialMarkdown(message.text) : message.text}
+                 </ReactMarkdown>
+                 {message.isStreaming && !message.progress && (
+                   <span className="inline-block w-2 h-4 align-middle bg-indigo-400 animate-pulse rounded-sm" />
+                 )}
+              </div>
+            )}
+
+            {/* Per-item status of a batch job */}
+            {message.progress && (
+              <div className="mt-3 flex items-center gap-3" dir="rtl">
+                <div className="flex flex-wrap gap-1">
+                  {message.progress.map((status, idx) => (
+                    <span
+                      key={idx}
+                      className={`w-6 h-2 rounded-full ${JOB_STATUS_STYLES[status].className}`}
+                      title={`${idx + 1}: ${JOB_STATUS_STYLES[status].label}`}
+                    />
+                  ))}
+                </div>
+                {message.isStreaming && onCancel && (
+                  <button
+                    onClick={onCancel}
+                    className="shrink-0 flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-red-500/40 text-red-300 hover:bg-red-500/10"
+                  >
+                    <X size={12} /> إلغاء
+                  </button>
+                )}
+              </div>
+            )}
             
             {message.sources && message.sources.length > 0 && (
               <div className="mt-4 pt-3 border-t border-slate-700/50">
@@ -94,17 +321,102 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
             )}
           </div>
 
+          {/* Local verification badge */}
+          {message.verification && !message.isStreaming && (
+            <div className={`mt-2 w-full flex items-start gap-2 px-3 py-2 rounded-lg text-xs border ${
+              message.verification.status === 'passed'
+                ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300'
+                : 'bg-red-500/10 border-red-500/30 text-red-300'
+            }`}>
+              <span className="font-bold whitespace-nowrap">
+                {message.verification.status === 'passed' ? '✓' : '✗'} {VERIFICATION_LABELS[message.verification.kind]}
+              </span>
+              <div className="text-slate-300 [&_p]:m-0">
+                <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                  {message.verification.detail}
+                </ReactMarkdown>
+              </div>
+            </div>
+          )}
+
+          {/* Error bubbles offer Retry instead of the usual actions */}
+          {message.error && (onRetry || versionSwitcher) && (
+            <div className="mt-2 flex items-center gap-2 text-xs">
+              {versionSwitcher}
+              {onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-red-500/40 text-red-300 hover:bg-red-500/10 transition-colors"
+                >
+                  <RotateCcw size={12} /> إعادة المحاولة
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Questions: edit and resend */}
+          {!isAi && !isEditing && (onEdit || versionSwitcher) && (
+            <div className="mt-1 flex items-center gap-2 text-xs text-slate-400">
+              {versionSwitcher}
+              {onEdit && (
+                <button onClick={startEditing} className="flex items-center gap-1 hover:text-indigo-400 transition-colors p-1">
+                  <Pencil size={12} /> تعديل
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Actions (Only for AI) */}
-          {isAi && (
-            <div className="mt-1 flex gap-2">
-              <button 
-                onClick={handleSpeak}
-                disabled={loadingAudio || isPlaying}
-                className="flex items-center gap-1 text-xs text-slate-400 hover:text-indigo-400 transition-colors p-1"
-              >
-                {loadingAudio ? <Loader2 size={12} className="animate-spin" /> : <Volume2 size={12} />}
-                {isPlaying ? 'جار التشغيل...' : 'استمع'}
-              </button>
+          {isAi && !message.isStreaming && !message.error && (
+            <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+              {versionSwitcher}
+              {onRegenerate && !isReading && (
+                <button onClick={onRegenerate} className="flex items-center gap-1 hover:text-indigo-400 transition-colors p-1">
+                  <RefreshCw size={12} /> إعادة التوليد
+                </button>
+              )}
+              {isReading ? (
+                <>
+                  <button
+                    onClick={playback.state === 'paused' ? resumeSpeech : pauseSpeech}
+                    className="flex items-center gap-1 hover:text-indigo-400 transition-colors p-1"
+                  >
+                    {playback.state === 'loading' ? <Loader2 size={12} className="animate-spin" />
+                      : playback.state === 'paused' ? <Play size={12} /> : <Pause size={12} />}
+                    {playback.state === 'paused' ? 'استئناف' : 'إيقاف مؤقت'}
+                  </button>
+                  <button onClick={stopSpeech} className="flex items-center gap-1 hover:text-red-400 transition-colors p-1">
+                    <Square size={12} /> إيقاف
+                  </button>
+                  {playback.chunks > 1 && (
+                    <span className="text-slate-500">{playback.chunk + 1} / {playback.chunks}</span>
+                  )}
+                  <select
+                    value={speech.rate}
+                    onChange={(e) => setSpeech(setSpeechSettings({ rate: Number(e.target.value) }))}
+                    className="bg-slate-800 border border-slate-700 rounded-md px-1 py-0.5 text-slate-300 focus:outline-none"
+                    title="السرعة"
+                  >
+                    {SPEECH_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                  </select>
+                  <select
+                    value={speech.voice}
+                    onChange={(e) => handleVoiceChange(e.target.value)}
+                    className="bg-slate-800 border border-slate-700 rounded-md px-1 py-0.5 text-slate-300 focus:outline-none"
+                    title="الصوت"
+                  >
+                    {SPEECH_VOICES.map(voice => <option key={voice.id} value={voice.id}>{voice.label}</option>)}
+                  </select>
+                </>
+              ) : (
+                <button
+                  onClick={() => playMessage(message.id, message.text)}
+                  className="flex items-center gap-1 hover:text-indigo-400 transition-colors p-1"
+                >
+                  <Volume2 size={12} /> استمع
+                </button>
+              )}
+              {readError && !isReading && <span className="text-red-400">{readError}</span>}
             </div>
           )}
         </div>
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Message } from '../types';
+import { ExportFormat, exportConversation } from '../services/exportService';
+import { Download, FileText, FileCode, Printer } from 'lucide-react';
+
+interface ExportMenuProps {
+  title: string;
+  messages: Message[];
+  disabled?: boolean;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; icon: React.ElementType }[] = [
+  { format: 'pdf', label: 'PDF (طباعة)', icon: Printer },
+  { format: 'md', label: 'Markdown (.md)', icon: FileText },
+  { format: 'tex', label: 'LaTeX (.tex)', icon: FileCode },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ title, messages, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    exportConversation(format, title, messages).catch(error => console.error("Export failed", error));
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-white disabled:opacity-40 transition-colors"
+        title="تصدير المحادثة"
+      >
+        <Download size={12} /> <span className="hidden sm:inline">تصدير</span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 mt-1 w-44 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-20 py-1">
+          {OPTIONS.map(({ format, label, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white text-right"
+            >
+              <Icon size={14} /> {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
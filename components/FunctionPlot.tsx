@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PlotSpec } from '../types';
+import { compileCurve, analyzeCurves, suggestYRange } from '../services/plotService';
+import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+interface FunctionPlotProps {
+  spec: PlotSpec;
+}
+
+interface Viewport {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const CURVE_COLORS = ['#818cf8', '#f472b6', '#34d399', '#fbbf24', '#38bdf8'];
+
+// 1, 2 or 5 times a power of ten, giving roughly `target` grid lines
+const niceStep = (range: number, target = 8) => {
+  const raw = range / target;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  const factor = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  return factor * magnitude;
+};
+
+const formatTick = (value: number) => parseFloat(value.toPrecision(6)).toString();
+const formatPoint = (x: number, y: number) => `(${parseFloat(x.toFixed(3))}, ${parseFloat(y.toFixed(3))})`;
+
+const FunctionPlot: React.FC<FunctionPlotProps> = ({ spec }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ clientX: number; clientY: number; viewport: Viewport } | null>(null);
+
+  const fns = useMemo(
+    () => spec.functions.map(f => compileCurve(f.expression) || (() => NaN)),
+    [spec]
+  );
+
+  const initialViewport = useMemo<Viewport>(() => {
+    const [yMin, yMax] = suggestYRange(fns, -10, 10);
+    return { xMin: -10, xMax: 10, yMin, yMax };
+  }, [fns]);
+
+  const [viewport, setViewport] = useState<Viewport>(initialViewport);
+  const { xMin, xMax, yMin, yMax } = viewport;
+
+  const toScreenX = (x: number) => ((x - xMin) / (xMax - xMin)) * WIDTH;
+  const toScreenY = (y: number) => HEIGHT - ((y - yMin) / (yMax - yMin)) * HEIGHT;
+
+  const markers = useMemo(() => analyzeCurves(fns, xMin, xMax), [fns, xMin, xMax]);
+
+  const zoom = (factor: number, centerX = (xMin + xMax) / 2, centerY = (yMin + yMax) / 2) => {
+    setViewport(v => ({
+      xMin: centerX - (centerX - v.xMin) * factor,
+      xMax: centerX + (v.xMax - centerX) * factor,
+      yMin: centerY - (centerY - v.yMin) * factor,
+      yMax: centerY + (v.yMax - centerY) * factor,
+    }));
+  };
+
+  // React registers wheel listeners as passive, so zoom-on-scroll needs a native one
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      setViewport(v => {
+        const cx = v.xMin + ((e.clientX - rect.left) / rect.width) * (v.xMax - v.xMin);
+        const cy = v.yMax - ((e.clientY - rect.top) / rect.height) * (v.yMax - v.yMin);
+        const factor = e.deltaY > 0 ? 1.15 : 1 / 1.15;
+        return {
+          xMin: cx - (cx - v.xMin) * factor,
+          xMax: cx + (v.xMax - cx) * factor,
+          yMin: cy - (cy - v.yMin) * factor,
+          yMax: cy + (v.yMax - cy) * factor,
+        };
+      });
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { clientX: e.clientX, clientY: e.clientY, viewport };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const v = drag.viewport;
+    const dx = ((e.clientX - drag.clientX) / rect.width) * (v.xMax - v.xMin);
+    const dy = ((e.clientY - drag.clientY) / rect.height) * (v.yMax - v.yMin);
+    setViewport({ xMin: v.xMin - dx, xMax: v.xMax - dx, yMin: v.yMin + dy, yMax: v.yMax + dy });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // --- Grid ---
+  const xStep = niceStep(xMax - xMin);
+  const yStep = niceStep(yMax - yMin);
+  const xTicks: number[] = [];
+  for (let x = Math.ceil(xMin / xStep) * xStep; x <= xMax; x += xStep) xTicks.push(x);
+  const yTicks: number[] = [];
+  for (let y = Math.ceil(yMin / yStep) * yStep; y <= yMax; y += yStep) yTicks.push(y);
+
+  const axisX = Math.min(Math.max(toScreenX(0), 0), WIDTH);
+  const axisY = Math.min(Math.max(toScreenY(0), 0), HEIGHT);
+
+  // --- Curves: one sample per pixel, broken at gaps and asymptotes ---
+  const paths = fns.map(f => {
+    let d = '';
+    let prevY: number | null = null;
+    for (let px = 0; px <= WIDTH; px++) {
+      const y = f(xMin + (px / WIDTH) * (xMax - xMin));
+      if (!isFinite(y)) {
+        prevY = null;
+        continue;
+      }
+      const sy = Math.min(Math.max(toScreenY(y), -HEIGHT), 2 * HEIGHT);
+      const jump = prevY !== null && Math.abs(sy - prevY) > HEIGHT;
+      d += `${prevY === null || jump ? 'M' : 'L'}${px},${sy.toFixed(2)} `;
+      prevY = sy;
+    }
+    return d;
+  });
+
+  const inView = (x: number, y: number) => x >= xMin && x <= xMax && y >= yMin && y <= yMax;
+
+  return (
+    <div className="w-full mt-2" dir="ltr">
+      <div className="relative rounded-lg overflow-hidden border border-slate-600 bg-slate-950">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto touch-none cursor-grab active:cursor-grabbing select-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {/* Grid */}
+          {xTicks.map(x => (
+            <g key={`x${x}`}>
+              <line x1={toScreenX(x)} x2={toScreenX(x)} y1={0} y2={HEIGHT} stroke="#1e293b" strokeWidth={1} />
+              {Math.abs(x) > xStep / 2 && (
+                <text x={toScreenX(x)} y={Math.min(axisY + 14, HEIGHT - 4)} fill="#64748b" fontSize={10} textAnchor="middle">
+                  {formatTick(x)}
+                </text>
+              )}
+            </g>
+          ))}
+          {yTicks.map(y => (
+            <g key={`y${y}`}>
+              <line x1={0} x2={WIDTH} y1={toScreenY(y)} y2={toScreenY(y)} stroke="#1e293b" strokeWidth={1} />
+              {Math.abs(y) > yStep / 2 && (
+                <text x={Math.max(axisX - 4, 28)} y={toScreenY(y) + 3} fill="#64748b" fontSize={10} textAnchor="end">
+                  {formatTick(y)}
+                </text>
+              )}
+            </g>
+          ))}
+
+          {/* Axes */}
+          <line x1={0} x2={WIDTH} y1={axisY} y2={axisY} stroke="#94a3b8" strokeWidth={1.5} />
+          <line x1={axisX} x2={axisX} y1={0} y2={HEIGHT} stroke="#94a3b8" strokeWidth={1.5} />
+
+          {/* Curves */}
+          {paths.map((d, i) => (
+            <path key={i} d={d} fill="none" stroke={CURVE_COLORS[i % CURVE_COLORS.length]} strokeWidth={2.5} strokeLinejoin="round" />
+          ))}
+
+          {/* Markers */}
+          {markers.roots.filter(p => inView(p.x, p.y)).map((p, i) => (
+            <circle key={`r${i}`} cx={toScreenX(p.x)} cy={toScreenY(p.y)} r={5} fill="#0f172a" stroke={CURVE_COLORS[p.curve % CURVE_COLORS.length]} strokeWidth={2}>
+              <title>{`جذر ${formatPoint(p.x, p.y)}`}</title>
+            </circle>
+          ))}
+          {markers.extrema.filter(p => inView(p.x, p.y)).map((p, i) => {
+            const cx = toScreenX(p.x);
+            const cy = toScreenY(p.y);
+            const tip = p.kind === 'max' ? -7 : 7;
+            return (
+              <polygon key={`e${i}`} points={`${cx},${cy + tip} ${cx - 6},${cy - tip} ${cx + 6},${cy - tip}`} fill={CURVE_COLORS[p.curve % CURVE_COLORS.length]}>
+                <title>{`${p.kind === 'max' ? 'قيمة عظمى' : 'قيمة صغرى'} ${formatPoint(p.x, p.y)}`}</title>
+              </polygon>
+            );
+          })}
+          {markers.intersections.filter(p => inView(p.x, p.y)).map((p, i) => (
+            <rect key={`i${i}`} x={toScreenX(p.x) - 5} y={toScreenY(p.y) - 5} width={10} height={10} fill="#f8fafc" stroke="#0f172a" strokeWidth={1.5}>
+              <title>{`تقاطع ${formatPoint(p.x, p.y)}`}</title>
+            </rect>
+          ))}
+        </svg>
+
+        {/* Zoom Controls */}
+        <div className="absolute top-2 right-2 flex gap-1">
+          <button onClick={() => zoom(1 / 1.5)} className="p-1.5 rounded-md bg-slate-800/90 text-slate-300 hover:text-white border border-slate-700" title="تكبير">
+            <ZoomIn size={14} />
+          </button>
+          <button onClick={() => zoom(1.5)} className="p-1.5 rounded-md bg-slate-800/90 text-slate-300 hover:text-white border border-slate-700" title="تصغير">
+            <ZoomOut size={14} />
+          </button>
+          <button onClick={() => setViewport(initialViewport)} className="p-1.5 rounded-md bg-slate-800/90 text-slate-300 hover:text-white border border-slate-700" title="إعادة الضبط">
+            <RotateCcw size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-300">
+        {spec.functions.map((f, i) => (
+          <div key={i} className="flex items-center gap-1.5">
+            <span className="inline-block w-3 h-0.5 rounded" style={{ backgroundColor: CURVE_COLORS[i % CURVE_COLORS.length] }} />
+            <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+              {`$y = ${f.expression}$`}
+            </ReactMarkdown>
+          </div>
+        ))}
+        <span className="text-slate-500" dir="rtl">○ جذور · ▲▼ قيم قصوى · ■ تقاطعات</span>
+      </div>
+    </div>
+  );
+};
+
+export default FunctionPlot;
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeometryConstruction } from '../types';
+import { resolveConstruction, constructionBounds, moveFreePoint, Vec } from '../services/geometryService';
+import { downloadBlob } from '../services/exportService';
+import { Save, FileImage, FileCode, RotateCcw } from 'lucide-react';
+
+interface GeometryCanvasProps {
+  construction: GeometryConstruction;
+  onSave?: (construction: GeometryConstruction) => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 420;
+const PADDING = 48;
+const COLORS = {
+  background: '#0f172a',
+  stroke: '#a5b4fc',
+  polygon: 'rgba(99, 102, 241, 0.15)',
+  circle: '#f472b6',
+  point: '#f8fafc',
+  freePoint: '#fbbf24',
+  measure: '#34d399',
+  label: '#e2e8f0',
+};
+
+const GeometryCanvas: React.FC<GeometryCanvasProps> = ({ construction, onSave }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = useState<GeometryConstruction>(construction);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const isDirty = draft !== construction;
+
+  // A saved construction comes back as the new prop
+  useEffect(() => {
+    setDraft(construction);
+  }, [construction]);
+
+  const resolved = useMemo(() => resolveConstruction(draft), [draft]);
+
+  // Frame is fixed from the original construction so the view doesn't jump while dragging.
+  // A single scale keeps circles round and angles true.
+  const frame = useMemo(() => {
+    const b = constructionBounds(resolveConstruction(construction));
+    const spanX = Math.max(b.xMax - b.xMin, 1);
+    const spanY = Math.max(b.yMax - b.yMin, 1);
+    const unit = Math.min((WIDTH - 2 * PADDING) / spanX, (HEIGHT - 2 * PADDING) / spanY);
+    return { unit, cx: (b.xMin + b.xMax) / 2, cy: (b.yMin + b.yMax) / 2 };
+  }, [construction]);
+
+  const toScreen = (p: Vec) => ({
+    x: WIDTH / 2 + (p.x - frame.cx) * frame.unit,
+    y: HEIGHT / 2 - (p.y - frame.cy) * frame.unit,
+  });
+
+  const toWorld = (clientX: number, clientY: number): Vec | null => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const pt = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return {
+      x: frame.cx + (pt.x - WIDTH / 2) / frame.unit,
+      y: frame.cy - (pt.y - HEIGHT / 2) / frame.unit,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draggingId) return;
+    const world = toWorld(e.clientX, e.clientY);
+    if (world) setDraft(prev => moveFreePoint(prev, draggingId, world));
+  };
+
+  // --- Export ---
+
+  const serializeSvg = () => {
+    const svg = svgRef.current;
+    if (!svg) return null;
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(WIDTH));
+    clone.setAttribute('height', String(HEIGHT));
+    return new XMLSerializer().serializeToString(clone);
+  };
+
+  const fileBaseName = (draft.title || 'construction').replace(/[\\/:*?"<>|]/g, '_');
+
+  const exportSvg = () => {
+    const markup = serializeSvg();
+    if (markup) downloadBlob(new Blob([markup], { type: 'image/svg+xml' }), `${fileBaseName}.svg`);
+  };
+
+  const exportPng = () => {
+    const markup = serializeSvg();
+    if (!markup) return;
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = WIDTH * 2;
+      canvas.height = HEIGHT * 2;
+      const ctx = canvas.getContext('2d');
+      ctx?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob && downloadBlob(blob, `${fileBaseName}.png`), 'image/png');
+    };
+    img.src = url;
+  };
+
+  // --- Rendering helpers ---
+
+  const extendLine = (a: Vec, b: Vec, kind: 'segment' | 'line' | 'ray') => {
+    if (kind === 'segment') return [toScreen(a), toScreen(b)];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const reach = (WIDTH + HEIGHT) / frame.unit / length;
+    const far = { x: a.x + (b.x - a.x) * reach, y: a.y + (b.y - a.y) * reach };
+    const back = kind === 'line' ? { x: a.x - (b.x - a.x) * reach, y: a.y - (b.y - a.y) * reach } : a;
+    return [toScreen(back), toScreen(far)];
+  };
+
+  const angleArc = (a: Vec, vertex: Vec, c: Vec) => {
+    const v = toScreen(vertex);
+    const sa = toScreen(a);
+    const sc = toScreen(c);
+    const start = Math.atan2(sa.y - v.y, sa.x - v.x);
+    let delta = Math.atan2(sc.y - v.y, sc.x - v.x) - start;
+    if (delta > Math.PI) delta -= 2 * Math.PI;
+    if (delta < -Math.PI) delta += 2 * Math.PI;
+    const r = 22;
+    const end = start + delta;
+    const mid = start + delta / 2;
+    return {
+      path: `M ${v.x + r * Math.cos(start)} ${v.y + r * Math.sin(start)} A ${r} ${r} 0 0 ${delta > 0 ? 1 : 0} ${v.x + r * Math.cos(end)} ${v.y + r * Math.sin(end)}`,
+      labelX: v.x + (r + 16) * Math.cos(mid),
+      labelY: v.y + (r + 16) * Math.sin(mid),
+    };
+  };
+
+  const freePointIds = new Set(draft.elements.filter(el => el.type === 'point').map(el => el.id));
+  const labels = Object.fromEntries(draft.elements.map(el => [el.id, el.label ?? el.id]));
+
+  return (
+    <div className="w-full mt-2" dir="ltr">
+      <div className="rounded-lg overflow-hidden border border-slate-600">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto touch-none select-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDraggingId(null)}
+          onPointerCancel={() => setDraggingId(null)}
+        >
+          <rect x={0} y={0} width={WIDTH} height={HEIGHT} fill={COLORS.background} />
+
+          {Object.entries(resolved.polygons).map(([id, pts]) => (
+            <polygon key={id} points={pts.map(p => { const s = toScreen(p); return `${s.x},${s.y}`; }).join(' ')} fill={COLORS.polygon} stroke={COLORS.stroke} strokeWidth={2} />
+          ))}
+
+          {Object.entries(resolved.circles).map(([id, c]) => {
+            const s = toScreen(c.center);
+            return <circle key={id} cx={s.x} cy={s.y} r={c.radius * frame.unit} fill="none" stroke={COLORS.circle} strokeWidth={2} />;
+          })}
+
+          {Object.entries(resolved.lines).map(([id, l]) => {
+            const [p, q] = extendLine(l.a, l.b, l.kind);
+            return <line key={id} x1={p.x} y1={p.y} x2={q.x} y2={q.y} stroke={COLORS.stroke} strokeWidth={2} strokeDasharray={l.kind === 'segment' ? undefined : '6 4'} />;
+          })}
+
+          {Object.entries(resolved.angles).map(([id, angle]) => {
+            const arc = angleArc(angle.a, angle.vertex, angle.c);
+            return (
+              <g key={id}>
+                <path d={arc.path} fill="none" stroke={COLORS.measure} strokeWidth={1.5} />
+                <text x={arc.labelX} y={arc.labelY} fill={COLORS.measure} fontSize={12} textAnchor="middle" dominantBaseline="middle">
+                  {`${angle.degrees.toFixed(1)}°`}
+                </text>
+              </g>
+            );
+          })}
+
+          {Object.entries(resolved.lengths).map(([id, len]) => {
+            const a = toScreen(len.a);
+            const b = toScreen(len.b);
+            const norm = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+            return (
+              <text
+                key={id}
+                x={(a.x + b.x) / 2 - ((b.y - a.y) / norm) * 14}
+                y={(a.y + b.y) / 2 + ((b.x - a.x) / norm) * 14}
+                fill={COLORS.measure}
+                fontSize={12}
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                {len.value.toFixed(2)}
+              </text>
+            );
+          })}
+
+          {Object.entries(resolved.points).map(([id, p]) => {
+            const s = toScreen(p);
+            const isFree = freePointIds.has(id);
+            return (
+              <g key={id}>
+                <circle
+                  cx={s.x}
+                  cy={s.y}
+                  r={isFree ? 6 : 4}
+                  fill={isFree ? COLORS.freePoint : COLORS.point}
+                  stroke={COLORS.background}
+                  strokeWidth={1.5}
+                  className={isFree ? 'cursor-move' : undefined}
+                  onPointerDown={isFree ? (e) => {
+                    e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                    setDraggingId(id);
+                  } : undefined}
+                />
+                <text x={s.x + 9} y={s.y - 9} fill={COLORS.label} fontSize={13} fontWeight="bold">
+                  {labels[id]}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs" dir="rtl">
+        <span className="text-slate-400 ml-auto">{draft.title} · اسحب النقاط الصفراء</span>
+        {onSave && (
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!isDirty}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-indigo-600 disabled:opacity-40 disabled:hover:bg-slate-700 transition-colors"
+          >
+            <Save size={12} /> حفظ
+          </button>
+        )}
+        <button
+          onClick={() => setDraft(construction)}
+          disabled={!isDirty}
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40 transition-colors"
+        >
+          <RotateCcw size={12} /> استعادة
+        </button>
+        <button onClick={exportSvg} className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors">
+          <FileCode size={12} /> SVG
+        </button>
+        <button onClick={exportPng} className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors">
+          <FileImage size={12} /> PNG
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GeometryCanvas;
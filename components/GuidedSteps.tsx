@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { GuidedSolution, GuidedStepProgress } from '../types';
+import { compareAnswers } from '../services/practiceGrading';
+import { checkSolutionStep } from '../services/geminiService';
+import { classifyError } from '../services/modelRouter';
+import { Lightbulb, CheckCircle2, Eye, Loader2, Footprints, Trophy } from 'lucide-react';
+
+interface GuidedStepsProps {
+  solution: GuidedSolution;
+  onSave?: (solution: GuidedSolution) => void;
+}
+
+const MathText: React.FC<{ text: string }> = ({ text }) => (
+  <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+    {text}
+  </ReactMarkdown>
+);
+
+// A solution revealed one step at a time. The student writes each step first;
+// a match with the expected result at its own precision is accepted locally,
+// anything else (a coarser rounding included) is judged by the model, since a
+// different but valid step also counts.
+const GuidedSteps: React.FC<GuidedStepsProps> = ({ solution, onSave }) => {
+  const [draft, setDraft] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const current = solution.progress.findIndex(p => !p.revealed);
+  const isComplete = current === -1;
+  const step = isComplete ? null : solution.steps[current];
+  const progress = isComplete ? null : solution.progress[current];
+  const solvedAlone = solution.progress.filter(p => p.correct).length;
+  const readOnly = !onSave;
+
+  const updateProgress = (patch: Partial<GuidedStepProgress>) => {
+    onSave?.({ ...solution, progress: solution.progress.map((p, i) => i === current ? { ...p, ...patch } : p) });
+  };
+
+  // A correct step reveals the official one straight away
+  const accept = (response: string) => {
+    updateProgress({ response, correct: true, feedback: undefined, revealed: true });
+    setDraft('');
+  };
+
+  const handleCheck = async () => {
+    const response = draft.trim();
+    if (!step || !response || isChecking) return;
+    setError(null);
+
+    // Only a sure match skips the model; null and false both go to checkSolutionStep
+    if (compareAnswers(step.result, response) === true) {
+      accept(response);
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsChecking(true);
+    try {
+      const { correct, feedback } = await checkSolutionStep(solution, current, response, controller.signal);
+      if (correct) accept(response);
+      else updateProgress({ response, correct: false, feedback });
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Step check failed", e);
+      setError(classifyError(e).message);
+    } finally {
+      controllerRef.current = null;
+      setIsChecking(false);
+    }
+  };
+
+  const handleReveal = () => {
+    updateProgress({ revealed: true });
+    setDraft('');
+    setError(null);
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+        <span className="flex items-center gap-1">
+          <Footprints size={14} className="text-indigo-400" />
+          {isComplete ? 'اكتمل الحل' : `الخطوة ${current + 1} من ${solution.steps.length}`}
+        </span>
+        <div className="flex-1 max-w-[10rem] h-1.5 rounded-full bg-slate-700 overflow-hidden">
+          <div
+            className="h-full bg-indigo-500 transition-all"
+            style={{ width: `${((isComplete ? solution.steps.length : current) / solution.steps.length) * 100}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Steps done so far, with the official working */}
+      {solution.steps.map((s, i) => {
+        const p = solution.progress[i];
+        if (!p.revealed) return null;
+        return (
+          <div key={i} className="rounded-lg border border-slate-700 bg-slate-800/60 p-3 space-y-2 text-sm">
+            <div className="flex items-start gap-2">
+              <span className={`shrink-0 w-5 h-5 rounded-full text-[10px] flex items-center justify-center ${
+                p.correct ? 'bg-emerald-600 text-white' : 'bg-slate-600 text-slate-200'
+              }`}>
+                {i + 1}
+              </span>
+              <div className="prose prose-sm prose-invert max-w-none text-slate-300"><MathText text={s.statement} /></div>
+            </div>
+            {p.response && (
+              <p className={`text-xs ${p.correct ? 'text-emerald-300' : 'text-slate-400'}`}>
+                {p.correct ? '✓ ' : ''}خطوتك: <span className="[unicode-bidi:plaintext]">{p.response}</span>
+              </p>
+            )}
+            <div className="prose prose-sm prose-invert max-w-none text-slate-100">
+              <MathText text={s.explanation || `$$${s.result}$$`} />
+            </div>
+          </div>
+        );
+      })}
+
+      {step && progress ? (
+        <div className="space-y-2">
+          <div className="prose prose-sm md:prose-base prose-invert max-w-none text-slate-100">
+            <MathText text={`**الخطوة ${current + 1}:** ${step.statement}`} />
+          </div>
+
+          {progress.hintShown && (
+            <div className="flex gap-2 rounded-lg bg-amber-500/10 border border-amber-500/30 px-3 py-2 text-sm">
+              <Lightbulb size={14} className="shrink-0 mt-1 text-amber-300" />
+              <div className="prose prose-sm prose-invert max-w-none text-amber-100"><MathText text={step.hint} /></div>
+            </div>
+          )}
+
+          {progress.correct === false && (
+            <div className="rounded-lg bg-red-500/10 border border-red-500/30 px-3 py-2 text-sm text-red-300">
+              <p>لم تُقبل خطوتك: <span className="[unicode-bidi:plaintext]">{progress.response}</span></p>
+              {progress.feedback && <div className="prose prose-sm prose-invert max-w-none text-slate-300"><MathText text={progress.feedback} /></div>}
+            </div>
+          )}
+
+          {!readOnly && (
+            <>
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+                disabled={isChecking}
+                placeholder="اكتب خطوتك، مثل (x-2)(x-3)=0"
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 [unicode-bidi:plaintext]"
+                dir="rtl"
+              />
+              {error && <p className="text-xs text-red-300">{error}</p>}
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={handleCheck}
+                  disabled={!draft.trim() || isChecking}
+                  className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 transition-colors"
+                >
+                  {isChecking ? <Loader2 size={12} className="animate-spin" /> : <CheckCircle2 size={12} />}
+                  {isChecking ? 'جاري التحقق...' : 'تحقق من خطوتي'}
+                </button>
+                {!progress.hintShown && step.hint && (
+                  <button
+                    onClick={() => updateProgress({ hintShown: true })}
+                    disabled={isChecking}
+                    className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-amber-500/40 text-amber-300 hover:bg-amber-500/10 transition-colors"
+                  >
+                    <Lightbulb size={12} /> تلميح
+                  </button>
+                )}
+                <button
+                  onClick={handleReveal}
+                  disabled={isChecking}
+                  className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-800 transition-colors"
+                >
+                  <Eye size={12} /> أظهر الخطوة
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-start gap-3 rounded-lg bg-emerald-500/10 border border-emerald-500/30 p-3">
+          <Trophy size={20} className="shrink-0 text-amber-400" />
+          <div className="text-sm space-y-1">
+            <div className="prose prose-sm prose-invert max-w-none text-emerald-200">
+              <MathText text={`**الإجابة النهائية:** $${solution.steps[solution.steps.length - 1].result}$`} />
+            </div>
+            <p className="text-xs text-slate-400">
+              أنجزت {solvedAlone} من {solution.steps.length} خطوات بنفسك.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GuidedSteps;
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadedPage } from '../types';
+import {
+  ProcessingOptions,
+  ProcessedImage,
+  DEFAULT_PROCESSING,
+  loadImage,
+  pageToDataUrl,
+  processImage,
+  estimateSkew,
+  base64Bytes,
+  formatBytes
+} from '../services/imageProcessing';
+import { RotateCcw, RotateCw, Wand2, Crop, ChevronRight, ChevronLeft, Send, X, Loader2 } from 'lucide-react';
+
+interface ImagePreprocessorProps {
+  pages: UploadedPage[];
+  onConfirm: (pages: UploadedPage[]) => void;
+  onCancel: () => void;
+}
+
+const MAX_SIZES = [1024, 1600, 2048, 3072];
+
+const ImagePreprocessor: React.FC<ImagePreprocessorProps> = ({ pages, onConfirm, onCancel }) => {
+  const [images, setImages] = useState<HTMLImageElement[]>([]);
+  const [options, setOptions] = useState<ProcessingOptions[]>(() => pages.map(() => DEFAULT_PROCESSING));
+  const [index, setIndex] = useState(0);
+  const [preview, setPreview] = useState<ProcessedImage | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const cropStartRef = useRef<{ x: number; y: number } | null>(null);
+  const originalRef = useRef<HTMLDivElement>(null);
+
+  const current = options[index];
+  const image = images[index];
+
+  // Load every page once and straighten it automatically
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(pages.map(p => loadImage(pageToDataUrl(p)))).then(loaded => {
+      if (cancelled) return;
+      setImages(loaded);
+      setOptions(prev => prev.map((o, i) => {
+        const skew = estimateSkew(loaded[i]);
+        return Math.abs(skew) >= 0.5 ? { ...o, rotation: skew } : o;
+      }));
+    }).catch(error => console.error("Failed to load pages", error));
+    return () => { cancelled = true; };
+  }, [pages]);
+
+  // Re-render the "after" preview shortly after the settings settle
+  useEffect(() => {
+    if (!image) return;
+    const timer = setTimeout(() => setPreview(processImage(image, current)), 150);
+    return () => clearTimeout(timer);
+  }, [image, current]);
+
+  const update = (patch: Partial<ProcessingOptions>) => {
+    setOptions(prev => prev.map((o, i) => (i === index ? { ...o, ...patch } : o)));
+  };
+
+  const quarterTurn = Math.round(current.rotation / 90) * 90;
+  const fineAngle = current.rotation - quarterTurn;
+
+  // --- Crop by dragging on the original ---
+
+  const relativePoint = (e: React.PointerEvent) => {
+    const rect = originalRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handleCropStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    cropStartRef.current = relativePoint(e);
+  };
+
+  const handleCropMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = cropStartRef.current;
+    if (!start) return;
+    const p = relativePoint(e);
+    const width = Math.abs(p.x - start.x);
+    const height = Math.abs(p.y - start.y);
+    if (width < 0.02 || height < 0.02) return;
+    update({ crop: { x: Math.min(p.x, start.x), y: Math.min(p.y, start.y), width, height } });
+  };
+
+  const handleConfirm = () => {
+    if (images.length !== pages.length) return;
+    setIsApplying(true);
+    // Let the spinner paint before the synchronous canvas work
+    setTimeout(() => {
+      const processed = pages.map((page, i) => {
+        const result = processImage(images[i], options[i]);
+        return { ...page, data: result.base64, mimeType: result.dataUrl.slice(5, result.dataUrl.indexOf(';')) };
+      });
+      onConfirm(processed);
+    }, 0);
+  };
+
+  const { crop } = current;
+  const isCropped = crop.width < 1 || crop.height < 1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" dir="rtl">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-5xl max-h-full overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="font-medium text-slate-200">تجهيز الصور قبل الحل</h3>
+          <div className="flex items-center gap-2">
+            {pages.length > 1 && (
+              <div className="flex items-center gap-1 text-xs text-slate-400">
+                <button onClick={() => setIndex(i => Math.max(0, i - 1))} disabled={index === 0} className="p-1 rounded hover:bg-slate-800 disabled:opacity-30">
+                  <ChevronRight size={16} />
+                </button>
+                <span>{index + 1} / {pages.length}</span>
+                <button onClick={() => setIndex(i => Math.min(pages.length - 1, i + 1))} disabled={index === pages.length - 1} className="p-1 rounded hover:bg-slate-800 disabled:opacity-30">
+                  <ChevronLeft size={16} />
+                </button>
+              </div>
+            )}
+            <button onClick={onCancel} className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-800">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Before / After */}
+        <div className="grid md:grid-cols-2 gap-4 p-4">
+          <div>
+            <div className="flex justify-between text-xs text-slate-400 mb-2">
+              <span>قبل — اسحب لتحديد منطقة القص</span>
+              <span dir="ltr">
+                {image ? `${image.naturalWidth}×${image.naturalHeight} · ` : ''}{formatBytes(base64Bytes(pages[index].data))}
+              </span>
+            </div>
+            <div
+              ref={originalRef}
+              className="relative select-none touch-none cursor-crosshair bg-slate-950 rounded-lg overflow-hidden border border-slate-700"
+              onPointerDown={handleCropStart}
+              onPointerMove={handleCropMove}
+              onPointerUp={() => { cropStartRef.current = null; }}
+            >
+              <img src={pageToDataUrl(pages[index])} alt={pages[index].label} className="w-full block pointer-events-none" draggable={false} />
+              {isCropped && (
+                <div
+                  className="absolute border-2 border-indigo-400 shadow-[0_0_0_9999px_rgba(2,6,23,0.6)] pointer-events-none"
+                  style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-slate-400 mb-2">
+              <span>بعد</span>
+              <span dir="ltr">{preview ? `${preview.width}×${preview.height} · ${formatBytes(preview.bytes)}` : '...'}</span>
+            </div>
+            <div className="bg-slate-950 rounded-lg overflow-hidden border border-slate-700 min-h-[120px] flex items-center justify-center">
+              {preview ? <img src={preview.dataUrl} alt="معاينة" className="w-full block" /> : <Loader2 size={20} className="animate-spin text-slate-500" />}
+            </div>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="px-4 pb-4 grid sm:grid-cols-2 gap-4 text-xs text-slate-300">
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => update({ rotation: current.rotation - 90 })} className="flex items-center gap-1 px-2 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 border border-slate-700">
+                <RotateCcw size={14} /> 90°
+              </button>
+              <button onClick={() => update({ rotation: current.rotation + 90 })} className="flex items-center gap-1 px-2 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 border border-slate-700">
+                <RotateCw size={14} /> 90°
+              </button>
+              <button
+                onClick={() => image && update({ rotation: quarterTurn + estimateSkew(image, crop) })}
+                disabled={!image}
+                className="flex items-center gap-1 px-2 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 border border-slate-700 disabled:opacity-40"
+              >
+                <Wand2 size={14} /> تصحيح الميل تلقائياً
+              </button>
+              {isCropped && (
+                <button onClick={() => update({ crop: DEFAULT_PROCESSING.crop })} className="flex items-center gap-1 px-2 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 border border-slate-700">
+                  <Crop size={14} /> إلغاء القص
+                </button>
+              )}
+            </div>
+            <label className="flex items-center gap-3">
+              <span className="w-20 shrink-0">الميل</span>
+              <input type="range" min={-15} max={15} step={0.5} value={fineAngle} onChange={(e) => update({ rotation: quarterTurn + Number(e.target.value) })} className="flex-1 accent-indigo-500" />
+              <span className="w-12 text-left" dir="ltr">{fineAngle.toFixed(1)}°</span>
+            </label>
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center gap-3">
+              <span className="w-20 shrink-0">التباين</span>
+              <input type="range" min={0.5} max={3} step={0.1} value={current.contrast} disabled={current.threshold} onChange={(e) => update({ contrast: Number(e.target.value) })} className="flex-1 accent-indigo-500 disabled:opacity-40" />
+              <span className="w-12 text-left" dir="ltr">{current.contrast.toFixed(1)}×</span>
+            </label>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={current.threshold} onChange={(e) => update({ threshold: e.target.checked })} className="accent-indigo-500" />
+                أبيض وأسود (إزالة الظلال)
+              </label>
+              <label className="flex items-center gap-2">
+                الحجم الأقصى
+                <select value={current.maxSize} onChange={(e) => update({ maxSize: Number(e.target.value) })} className="bg-slate-800 border border-slate-700 rounded px-2 py-1" dir="ltr">
+                  {MAX_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+                </select>
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-slate-800">
+          <button onClick={() => onConfirm(pages)} className="px-4 py-2 rounded-xl text-sm text-slate-300 hover:bg-slate-800 border border-slate-700">
+            إرسال دون معالجة
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isApplying || images.length !== pages.length}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {isApplying ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} className="rotate-180" />}
+            تطبيق وإرسال
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImagePreprocessor;
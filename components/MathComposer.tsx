@@ -0,0 +1,185 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import katex from 'katex';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Sigma, Eye, EyeOff } from 'lucide-react';
+import {
+  MathSnippet,
+  SNIPPET_GROUPS,
+  SHORTCUT_SNIPPETS,
+  TextEdit,
+  snippetPreview,
+  shortcutLabel,
+  insertSnippet,
+  wrapInMath,
+  findSlot
+} from '../services/mathSnippets';
+import { containsMath } from '../services/mathParser';
+
+interface MathComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onPaste?: (e: React.ClipboardEvent) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const renderSnippet = (latex: string) =>
+  katex.renderToString(snippetPreview(latex), { throwOnError: false, strict: 'ignore' });
+
+// Message input with a LaTeX palette and a live preview. Arabic text and math are
+// kept as separate bidi runs ($..$ padded with spaces, each line taking the
+// direction of its first letter); the preview shows how the message will render.
+const MathComposer: React.FC<MathComposerProps> = ({ value, onChange, onSubmit, onPaste, placeholder, disabled }) => {
+  const [showPalette, setShowPalette] = useState(false);
+  const [groupId, setGroupId] = useState(SNIPPET_GROUPS[0].id);
+  const [showPreview, setShowPreview] = useState(true);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Caret to restore once an edit has been rendered
+  const pendingCaretRef = useRef<number | null>(null);
+
+  const group = SNIPPET_GROUPS.find(g => g.id === groupId) || SNIPPET_GROUPS[0];
+  const buttons = useMemo(
+    () => group.snippets.map(snippet => ({ snippet, html: renderSnippet(snippet.latex) })),
+    [group]
+  );
+  const hasMath = containsMath(value);
+
+  useLayoutEffect(() => {
+    const caret = pendingCaretRef.current;
+    const textarea = textareaRef.current;
+    if (caret === null || !textarea) return;
+    pendingCaretRef.current = null;
+    textarea.focus();
+    textarea.setSelectionRange(caret, caret);
+  }, [value]);
+
+  const applyEdit = (edit: (text: string, start: number, end: number) => TextEdit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const result = edit(value, textarea.selectionStart, textarea.selectionEnd);
+    pendingCaretRef.current = result.caret;
+    onChange(result.text);
+  };
+
+  const insert = (snippet: MathSnippet) =>
+    applyEdit((text, start, end) => insertSnippet(text, start, end, snippet.latex));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (!disabled) onSubmit();
+      return;
+    }
+
+    // Tab / Shift+Tab jump between empty slots; without one, Tab moves focus as usual
+    if (e.key === 'Tab') {
+      const target = findSlot(value, e.currentTarget.selectionStart, e.shiftKey);
+      if (target !== null) {
+        e.preventDefault();
+        e.currentTarget.setSelectionRange(target, target);
+      }
+      return;
+    }
+
+    // Ctrl+M wraps in inline math, Ctrl+Shift+M in a display block
+    if ((e.ctrlKey || e.metaKey) && e.code === 'KeyM') {
+      e.preventDefault();
+      applyEdit((text, start, end) => wrapInMath(text, start, end, e.shiftKey));
+      return;
+    }
+
+    // e.code, since Alt changes e.key on some layouts (and on macOS)
+    if (e.altKey && !e.ctrlKey && !e.metaKey) {
+      const snippet = SHORTCUT_SNIPPETS.find(s => s.shortcut === e.code);
+      if (snippet) {
+        e.preventDefault();
+        insert(snippet);
+      }
+    }
+  };
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-2">
+      {/* Live preview */}
+      {hasMath && showPreview && (
+        <div className="max-h-40 overflow-y-auto px-4 py-2 rounded-xl bg-slate-800/60 border border-slate-700 prose prose-sm prose-invert max-w-none text-slate-200">
+          <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+            {value}
+          </ReactMarkdown>
+        </div>
+      )}
+
+      {/* Symbol palette */}
+      {showPalette && (
+        <div className="rounded-xl bg-slate-800 border border-slate-700 p-2">
+          <div className="flex gap-1 overflow-x-auto pb-2 border-b border-slate-700/60">
+            {SNIPPET_GROUPS.map(g => (
+              <button
+                key={g.id}
+                onClick={() => setGroupId(g.id)}
+                className={`shrink-0 px-3 py-1 rounded-lg text-xs transition-colors ${
+                  g.id === group.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-slate-200'
+                }`}
+              >
+                {g.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1 pt-2 max-h-36 overflow-y-auto" dir="ltr">
+            {buttons.map(({ snippet, html }) => (
+              <button
+                key={snippet.latex}
+                // Keep the textarea's selection, which the snippet is inserted into
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insert(snippet)}
+                disabled={disabled}
+                title={snippet.shortcut ? `${snippet.title} (${shortcutLabel(snippet.shortcut)})` : snippet.title}
+                className="min-w-[2.5rem] h-10 px-2 rounded-lg bg-slate-900/60 border border-slate-700 text-slate-200 hover:border-indigo-500 hover:bg-slate-900 disabled:opacity-50 flex items-center justify-center [&_.katex]:text-sm"
+                dangerouslySetInnerHTML={{ __html: html }}
+              />
+            ))}
+          </div>
+          <p className="pt-2 text-[10px] text-slate-500">
+            Tab للانتقال إلى الخانة التالية · Ctrl+M معادلة في السطر · Ctrl+Shift+M معادلة منفصلة · {SHORTCUT_SNIPPETS.map(s => `${shortcutLabel(s.shortcut!)} ${s.title}`).join(' · ')}
+          </p>
+        </div>
+      )}
+
+      <div className="bg-slate-800 rounded-xl border border-slate-700 focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500 transition-all flex items-center">
+        <button
+          onClick={() => setShowPalette(prev => !prev)}
+          className={`shrink-0 mr-2 p-1.5 rounded-lg transition-colors ${showPalette ? 'text-indigo-300 bg-indigo-600/20' : 'text-slate-500 hover:text-indigo-300'}`}
+          title="لوحة الرموز الرياضية"
+        >
+          <Sigma size={18} />
+        </button>
+        {hasMath && (
+          <button
+            onClick={() => setShowPreview(prev => !prev)}
+            className="shrink-0 p-1.5 rounded-lg text-slate-500 hover:text-indigo-300 transition-colors"
+            title={showPreview ? 'إخفاء المعاينة' : 'إظهار المعاينة'}
+          >
+            {showPreview ? <EyeOff size={16} /> : <Eye size={16} />}
+          </button>
+        )}
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={onPaste}
+          placeholder={placeholder}
+          className="w-full bg-transparent border-none text-slate-200 placeholder-slate-500 px-4 py-3 focus:ring-0 resize-none max-h-32 min-h-[48px] [unicode-bidi:plaintext]"
+          rows={1}
+          disabled={disabled}
+          dir="rtl"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MathComposer;
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ViewState } from '../types';
+import {
+  ModelOverrides,
+  FEATURE_MODELS,
+  MODEL_CATALOG,
+  VIEW_FEATURES,
+  getModelLabel
+} from '../services/modelRegistry';
+import { AiProvider } from '../services/aiProvider';
+import { Cpu, RotateCcw } from 'lucide-react';
+
+interface ModelSettingsProps {
+  view: ViewState;
+  overrides: ModelOverrides;
+  provider: AiProvider;
+  onChange: (overrides: ModelOverrides) => void;
+  disabled?: boolean;
+}
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ view, overrides, provider, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const features = VIEW_FEATURES[view];
+  const mainFeature = features[0];
+  const hasOverrides = features.some(f => overrides[f]);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const setFeatureModel = (feature: keyof ModelOverrides, modelId: string) => {
+    const { [feature]: _, ...rest } = overrides;
+    onChange(modelId ? { ...rest, [feature]: modelId } : rest);
+  };
+
+  const resetView = () => {
+    const next = { ...overrides };
+    features.forEach(f => delete next[f]);
+    onChange(next);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className={`flex items-center gap-1 text-[10px] px-2 py-0.5 rounded border transition-colors disabled:opacity-40 ${
+          hasOverrides
+            ? 'bg-amber-500/15 text-amber-300 border-amber-500/30 hover:bg-amber-500/25'
+            : 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30 hover:bg-indigo-500/30'
+        }`}
+        title="إعدادات النماذج"
+      >
+        <Cpu size={10} />
+        {provider.usesModelRegistry ? getModelLabel(overrides[mainFeature] || FEATURE_MODELS[mainFeature].models[0]) : provider.label}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-20 p-3 space-y-3">
+          {/* Other providers pick their own models; only the primary choice is passed on */}
+          {!provider.usesModelRegistry && (
+            <p className="text-[10px] text-amber-300 bg-amber-500/10 border border-amber-500/20 rounded px-2 py-1">
+              المزوّد الحالي ({provider.label}) يستخدم نماذجه الخاصة، ولا تُطبَّق النماذج الاحتياطية.
+            </p>
+          )}
+          {features.map(feature => {
+            const config = FEATURE_MODELS[feature];
+            const [primary, ...fallbacks] = config.models;
+            return (
+              <div key={feature}>
+                <label className="block text-xs text-slate-400 mb-1">{config.label}</label>
+                <select
+                  value={overrides[feature] || ''}
+                  onChange={(e) => setFeatureModel(feature, e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+                  dir="ltr"
+                >
+                  <option value="">تلقائي ({getModelLabel(primary)})</option>
+                  {MODEL_CATALOG.filter(m => m.kind === config.kind).map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
+                </select>
+                {fallbacks.length > 0 && (
+                  <p className="mt-1 text-[10px] text-slate-500">
+                    عند التعذر: {fallbacks.map(getModelLabel).join('، ')}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          {hasOverrides && (
+            <button
+              onClick={resetView}
+              className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+            >
+              <RotateCcw size={12} /> استعادة الإعدادات الافتراضية
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelSettings;
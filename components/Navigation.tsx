@@ -1,27 +1,81 @@
-import React from 'react';
-import { ViewState } from '../types';
-import { BrainCircuit, Image as ImageIcon, ScanLine, Globe, Calculator, X, Presentation } from 'lucide-react';
+import React, { useState } from 'react';
+import { ViewState, Conversation } from '../types';
+import { ApiKeyStatus } from '../services/apiKeyStore';
+import { BrainCircuit, Image as ImageIcon, ScanLine, Globe, Calculator, X, Presentation, Plus, MessageSquare, Pencil, Trash2, Check, Server, KeyRound, ClipboardCheck } from 'lucide-react';
 
 interface NavigationProps {
   currentView: ViewState;
   setView: (view: ViewState) => void;
+  conversations: Conversation[];
+  activeConversationId: string;
+  onNewConversation: () => void;
+  onSelectConversation: (id: string) => void;
+  onRenameConversation: (id: string, title: string) => void;
+  onDeleteConversation: (id: string) => void;
+  providerLabel: string;
+  onOpenProviderSettings: () => void;
+  apiKeyStatus: ApiKeyStatus;
+  onOpenApiKeySettings: () => void;
+  disabled?: boolean;
   onClose?: () => void;
 }
 
-const Navigation: React.FC<NavigationProps> = ({ currentView, setView, onClose }) => {
+const Navigation: React.FC<NavigationProps> = ({ 
+  currentView, 
+  setView, 
+  conversations, 
+  activeConversationId, 
+  onNewConversation, 
+  onSelectConversation, 
+  onRenameConversation, 
+  onDeleteConversation, 
+  providerLabel, 
+  onOpenProviderSettings, 
+  apiKeyStatus, 
+  onOpenApiKeySettings, 
+  disabled, 
+  onClose 
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
   const navItems = [
     { id: ViewState.TUTOR, label: 'المعلم الذكي', icon: BrainCircuit, desc: 'تفكير عميق مع Gemini 3 Pro' },
     { id: ViewState.VISUALIZER, label: 'المرسم الهندسي', icon: ImageIcon, desc: 'رسوم بيانية وهندسية دقيقة' },
     { id: ViewState.SOLVER, label: 'ماسح الفروض', icon: ScanLine, desc: 'حل المسائل من الصور' },
     { id: ViewState.EXPLORER, label: 'المستكشف السريع', icon: Globe, desc: 'بحث وشرح المفاهيم بسرعة' },
     { id: ViewState.PRESENTATION, label: 'صانع العروض', icon: Presentation, desc: 'إنشاء عروض PowerPoint' },
+    { id: ViewState.PRACTICE, label: 'التمارين', icon: ClipboardCheck, desc: 'اختبارات قصيرة مع تصحيح تلقائي' },
   ];
 
+  const keyLabel = { none: 'أضف مفتاحك الخاص', locked: 'المفتاح مقفل', ready: 'مفتاحك الخاص مفعّل' }[apiKeyStatus];
+
   const handleNavClick = (id: ViewState) => {
     setView(id);
     if (onClose) onClose();
   };
 
+  const handleConversationClick = (id: string) => {
+    onSelectConversation(id);
+    if (onClose) onClose();
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRenameConversation(editingId, editingTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`حذف المحادثة "${conversation.title}"؟`)) {
+      onDeleteConversation(conversation.id);
+    }
+  };
+
   return (
     <div className="w-full md:w-64 bg-slate-900 border-l border-slate-800 flex flex-col h-full shadow-2xl md:shadow-none">
       <div className="p-6 border-b border-slate-800 flex items-center justify-between">
@@ -57,14 +111,100 @@ const Navigation: React.FC<NavigationProps> = ({ currentView, setView, onClose }
                 <div className="text-[10px] opacity-70 leading-tight">{item.desc}</div>
               </div>
             </button>
-          );
+);
         })}
+
+        {/* Conversations of the current view */}
+        <div className="pt-4 mt-4 border-t border-slate-800">
+          <div className="flex items-center justify-between px-2 mb-2">
+            <span className="text-xs font-medium text-slate-500">المحادثات</span>
+            <button
+              onClick={onNewConversation}
+              disabled={disabled}
+              className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+              title="محادثة جديدة"
+            >
+              <Plus size={16} />
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            {conversations.map((conversation) => {
+              const isActive = conversation.id === activeConversationId;
+              const isEditing = conversation.id === editingId;
+              return (
+                <div
+                  key={conversation.id}
+                  className={`group flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                    isActive ? 'bg-slate-800 text-white' : 'text-slate-400 hover:bg-slate-800/60 hover:text-white'
+                  }`}
+                >
+                  <MessageSquare size={14} className="flex-shrink-0 text-slate-500" />
+                  {isEditing ? (
+                    <>
+                      <input
+                        autoFocus
+                        value={editingTitle}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        onBlur={commitRename}
+                        className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+                        dir="rtl"
+                      />
+                      <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-0.5 text-slate-400 hover:text-indigo-400">
+                        <Check size={14} />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleConversationClick(conversation.id)}
+                        disabled={disabled && !isActive}
+                        className="flex-1 min-w-0 text-right truncate disabled:cursor-not-allowed"
+                        title={conversation.title}
+                      >
+                        {conversation.title}
+                      </button>
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => startRename(conversation)} className="p-0.5 text-slate-500 hover:text-indigo-400" title="إعادة تسمية">
+                          <Pencil size={12} />
+                        </button>
+                        <button onClick={() => handleDelete(conversation)} disabled={disabled} className="p-0.5 text-slate-500 hover:text-red-400 disabled:opacity-40" title="حذف">
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
       </div>
       
-      <div className="p-4 border-t border-slate-800">
-        <div className="text-xs text-slate-500 text-center">
-          مدعوم بواسطة Gemini 2.5 & 3.0
-        </div>
+      <div className="p-4 border-t border-slate-800 space-y-1">
+        <button
+          onClick={onOpenApiKeySettings}
+          className={`w-full flex items-center justify-center gap-2 text-xs py-1 rounded-lg hover:bg-slate-800 transition-colors ${
+            apiKeyStatus === 'locked' ? 'text-amber-400' : apiKeyStatus === 'ready' ? 'text-emerald-400' : 'text-slate-500 hover:text-white'
+          }`}
+          title="مفتاح Gemini الخاص بك"
+        >
+          <KeyRound size={12} />
+          {keyLabel}
+        </button>
+        <button
+          onClick={onOpenProviderSettings}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 text-xs text-slate-500 hover:text-white py-1 rounded-lg hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          title="اختيار مزوّد الذكاء الاصطناعي"
+        >
+          <Server size={12} />
+          مدعوم بواسطة {providerLabel}
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,283 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { PracticeQuiz as PracticeQuizData, PracticeAttempt, PracticeDifficulty } from '../types';
+import { gradeAnswer } from '../services/practiceGrading';
+import { gradePracticeAnswer } from '../services/geminiService';
+import { classifyError } from '../services/modelRouter';
+import { Lightbulb, CheckCircle2, XCircle, Loader2, ArrowLeft, Flag, RotateCcw, Trophy } from 'lucide-react';
+
+interface PracticeQuizProps {
+  quiz: PracticeQuizData;
+  onSave?: (quiz: PracticeQuizData) => void;
+}
+
+export const DIFFICULTY_LABELS: Record<PracticeDifficulty, string> = {
+  easy: 'سهل',
+  medium: 'متوسط',
+  hard: 'صعب',
+};
+
+const MathText: React.FC<{ text: string }> = ({ text }) => (
+  <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+    {text}
+  </ReactMarkdown>
+);
+
+const firstOpenProblem = (quiz: PracticeQuizData) => {
+  const index = quiz.attempts.findIndex(a => !a.result);
+  return index === -1 ? quiz.problems.length - 1 : index;
+};
+
+// A generated quiz inside its chat message: one problem at a time with hints
+// on request, then the score and a review of the mistakes. Every change is
+// saved back to the message, so a quiz can be left and resumed.
+const PracticeQuiz: React.FC<PracticeQuizProps> = ({ quiz, onSave }) => {
+  const [index, setIndex] = useState(() => firstOpenProblem(quiz));
+  const [draft, setDraft] = useState(() => quiz.attempts[firstOpenProblem(quiz)]?.response || '');
+  const [isGrading, setIsGrading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const problem = quiz.problems[index];
+  const attempt = quiz.attempts[index];
+  const score = quiz.attempts.filter(a => a.result === 'correct').length;
+  const readOnly = !onSave;
+
+  const updateAttempt = (patch: Partial<PracticeAttempt>) => {
+    onSave?.({ ...quiz, attempts: quiz.attempts.map((a, i) => i === index ? { ...a, ...patch } : a) });
+  };
+
+  const goTo = (next: number) => {
+    setIndex(next);
+    setDraft(quiz.attempts[next].response);
+    setError(null);
+  };
+
+  const handleCheck = async () => {
+    const response = draft.trim();
+    if (!response || isGrading) return;
+    setError(null);
+
+    const local = gradeAnswer(problem, response);
+    if (local !== null) {
+      updateAttempt({ response, result: local ? 'correct' : 'incorrect', feedback: undefined });
+      return;
+    }
+
+    // Proofs and answers in words go to the model
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsGrading(true);
+    try {
+      const { correct, feedback } = await gradePracticeAnswer(problem, response, controller.signal);
+      updateAttempt({ response, result: correct ? 'correct' : 'incorrect', feedback });
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Grading failed", e);
+      setError(classifyError(e).message);
+    } finally {
+      controllerRef.current = null;
+      setIsGrading(false);
+    }
+  };
+
+  const handleRestart = () => {
+    onSave?.({ ...quiz, finished: false, attempts: quiz.problems.map(() => ({ response: '', hintsShown: 0 })) });
+    setIndex(0);
+    setDraft('');
+    setError(null);
+  };
+
+  if (quiz.problems.length === 0) return null;
+
+  // --- Results ---
+
+  if (quiz.finished) {
+    const mistakes = quiz.problems
+      .map((p, i) => ({ problem: p, attempt: quiz.attempts[i], number: i + 1 }))
+      .filter(m => m.attempt.result !== 'correct');
+    const percent = Math.round((score / quiz.problems.length) * 100);
+
+    return (
+      <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <Trophy size={28} className={percent >= 50 ? 'text-amber-400' : 'text-slate-500'} />
+          <div>
+            <p className="text-lg font-semibold text-white">
+              النتيجة: <span dir="ltr">{score} / {quiz.problems.length}</span> ({percent}%)
+            </p>
+            <p className="text-xs text-slate-400">{quiz.topic} · {DIFFICULTY_LABELS[quiz.difficulty]}</p>
+          </div>
+        </div>
+
+        {mistakes.length === 0 ? (
+          <p className="text-sm text-emerald-300">أحسنت! أجبت عن جميع المسائل إجابة صحيحة.</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-slate-300">مراجعة الأخطاء</p>
+            {mistakes.map(({ problem: p, attempt: a, number }) => (
+              <div key={number} className="rounded-lg border border-red-500/30 bg-red-500/5 p-3 space-y-2 text-sm">
+                <div className="prose prose-sm prose-invert max-w-none">
+                  <span className="text-xs text-slate-400">المسألة {number}</span>
+                  <MathText text={p.statement} />
+                </div>
+                <p className="text-red-300">
+                  إجابتك: {a.response ? <span className="[unicode-bidi:plaintext]">{a.response}</span> : <em>لم تُجب</em>}
+                </p>
+                {a.feedback && <div className="prose prose-sm prose-invert max-w-none text-slate-300"><MathText text={a.feedback} /></div>}
+                {p.answerKind !== 'proof' && (
+                  <div className="prose prose-sm prose-invert max-w-none text-emerald-300">
+                    <MathText text={`الجواب الصحيح: $${p.answer}$`} />
+                  </div>
+                )}
+                <details className="text-slate-300">
+                  <summary className="cursor-pointer text-xs text-indigo-300">الحل المفصل</summary>
+                  <div className="prose prose-sm prose-invert max-w-none mt-2">
+                    <MathText text={p.solution} />
+                  </div>
+                </details>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!readOnly && (
+          <button
+            onClick={handleRestart}
+            className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            <RotateCcw size={12} /> حل الاختبار من جديد
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  // --- Current problem ---
+
+  const isLast = index === quiz.problems.length - 1;
+  const isProof = problem.answerKind === 'proof';
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-3">
+      {/* Progress: one dot per problem */}
+      <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+        <span>المسألة {index + 1} من {quiz.problems.length} · {DIFFICULTY_LABELS[quiz.difficulty]}</span>
+        <div className="flex gap-1">
+          {quiz.attempts.map((a, i) => (
+            <button
+              key={i}
+              onClick={() => goTo(i)}
+              disabled={isGrading}
+              className={`w-2.5 h-2.5 rounded-full transition-colors ${
+                a.result === 'correct' ? 'bg-emerald-500'
+                  : a.result === 'incorrect' ? 'bg-red-500'
+                  : i === index ? 'bg-indigo-400' : 'bg-slate-600 hover:bg-slate-500'
+              }`}
+              title={`المسألة ${i + 1}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="prose prose-sm md:prose-base prose-invert max-w-none text-slate-100">
+        <MathText text={problem.statement} />
+      </div>
+
+      {/* Hints revealed so far */}
+      {problem.hints.slice(0, attempt.hintsShown).map((hint, i) => (
+        <div key={i} className="flex gap-2 rounded-lg bg-amber-500/10 border border-amber-500/30 px-3 py-2 text-sm text-amber-200">
+          <Lightbulb size={14} className="shrink-0 mt-1" />
+          <div className="prose prose-sm prose-invert max-w-none text-amber-100"><MathText text={hint} /></div>
+        </div>
+      ))}
+
+      {attempt.result ? (
+        <div className={`rounded-lg px-3 py-2 text-sm border ${
+          attempt.result === 'correct' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300' : 'bg-red-500/10 border-red-500/30 text-red-300'
+        }`}>
+          <p className="flex items-center gap-1 font-medium">
+            {attempt.result === 'correct' ? <><CheckCircle2 size={14} /> إجابة صحيحة</> : <><XCircle size={14} /> إجابة غير صحيحة</>}
+          </p>
+          <p className="mt-1 text-slate-300">
+            إجابتك: <span className="[unicode-bidi:plaintext]">{attempt.response}</span>
+          </p>
+          {attempt.feedback && <div className="prose prose-sm prose-invert max-w-none text-slate-300"><MathText text={attempt.feedback} /></div>}
+        </div>
+      ) : (
+        <>
+          {isProof ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              disabled={readOnly || isGrading}
+              rows={4}
+              placeholder="اكتب برهانك هنا..."
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 resize-y [unicode-bidi:plaintext]"
+              dir="rtl"
+            />
+          ) : (
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+              disabled={readOnly || isGrading}
+              placeholder={problem.answerKind === 'numeric' ? 'الجواب، مثل 5/4 أو 1.25' : 'الجواب، مثل 2x+1 أو x = 2, x = 3'}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 [unicode-bidi:plaintext]"
+              dir="rtl"
+            />
+          )}
+          {error && <p className="text-xs text-red-300">{error}</p>}
+        </>
+      )}
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2">
+          {!attempt.result && (
+            <button
+              onClick={handleCheck}
+              disabled={!draft.trim() || isGrading}
+              className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 transition-colors"
+            >
+              {isGrading ? <Loader2 size={12} className="animate-spin" /> : <CheckCircle2 size={12} />}
+              {isGrading ? 'جاري التصحيح...' : 'تحقق'}
+            </button>
+          )}
+          {!attempt.result && attempt.hintsShown < problem.hints.length && (
+            <button
+              onClick={() => updateAttempt({ hintsShown: attempt.hintsShown + 1 })}
+              disabled={isGrading}
+              className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-amber-500/40 text-amber-300 hover:bg-amber-500/10 transition-colors"
+            >
+              <Lightbulb size={12} /> تلميح ({attempt.hintsShown + 1}/{problem.hints.length})
+            </button>
+          )}
+          {!isLast && (
+            <button
+              onClick={() => goTo(index + 1)}
+              disabled={isGrading}
+              className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-800 transition-colors"
+            >
+              {attempt.result ? 'المسألة التالية' : 'تخطي'} <ArrowLeft size={12} />
+            </button>
+          )}
+          {(isLast || quiz.attempts.every(a => a.result)) && (
+            <button
+              onClick={() => onSave?.({ ...quiz, finished: true })}
+              disabled={isGrading}
+              className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/10 transition-colors mr-auto"
+            >
+              <Flag size={12} /> إنهاء الاختبار
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeQuiz;
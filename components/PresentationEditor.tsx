@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { PresentationData, PresentationSlide, SlideLayout, PresentationFormat } from '../types';
+import { SLIDE_LAYOUT_LABELS, chooseLayout } from '../services/presentationThemes';
+import { HANDOUT_LAYOUTS } from '../services/slideExportService';
+import { ModelError } from '../services/modelRouter';
+import { ArrowUp, ArrowDown, Trash2, RefreshCw, ImagePlus, Loader2, FileDown, X, MonitorPlay, Printer, FileType } from 'lucide-react';
+
+interface PresentationEditorProps {
+  data: PresentationData;
+  onChange: (data: PresentationData) => void;
+  onRegenerateSlide: (index: number) => Promise<void>;
+  onRegenerateImage: (index: number) => Promise<void>;
+  onBuild: (format: PresentationFormat, slidesPerPage?: number) => void;
+  onCancel: () => void;
+  isBuilding?: boolean;
+}
+
+type BusyKind = 'slide' | 'image';
+
+const SECONDARY_BUILD_CLASS = "flex items-center gap-1 px-3 py-2 rounded-xl text-sm text-slate-200 border border-slate-700 hover:bg-slate-700 disabled:opacity-40";
+
+const FIELD_CLASS = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-indigo-500";
+
+// Lists are edited one item per line; empty lines are dropped when the deck is exported
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n');
+
+const PresentationEditor: React.FC<PresentationEditorProps> = ({
+  data,
+  onChange,
+  onRegenerateSlide,
+  onRegenerateImage,
+  onBuild,
+  onCancel,
+  isBuilding
+}) => {
+  const [busy, setBusy] = useState<Record<number, BusyKind>>({});
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const [slidesPerPage, setSlidesPerPage] = useState(3);
+  // Reordering while a regeneration is in flight would write its result to the wrong card
+  const isBusy = Object.keys(busy).length > 0;
+  const buildDisabled = isBuilding || isBusy || data.slides.length === 0;
+
+  const updateSlide = (index: number, patch: Partial<PresentationSlide>) => {
+    onChange({ ...data, slides: data.slides.map((s, i) => i === index ? { ...s, ...patch } : s) });
+  };
+
+  const moveSlide = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= data.slides.length) return;
+    const slides = [...data.slides];
+    [slides[index], slides[target]] = [slides[target], slides[index]];
+    onChange({ ...data, slides });
+    setErrors({});
+  };
+
+  const deleteSlide = (index: number) => {
+    onChange({ ...data, slides: data.slides.filter((_, i) => i !== index) });
+    setErrors({});
+  };
+
+  const runRegeneration = async (index: number, kind: BusyKind) => {
+    setBusy(prev => ({ ...prev, [index]: kind }));
+    setErrors(prev => { const { [index]: _, ...rest } = prev; return rest; });
+    try {
+      await (kind === 'slide' ? onRegenerateSlide(index) : onRegenerateImage(index));
+    } catch (error) {
+      console.error(error);
+      const fallback = kind === 'slide' ? 'فشل في إعادة توليد الشريحة.' : 'فشل في توليد الصورة.';
+      setErrors(prev => ({ ...prev, [index]: error instanceof ModelError ? error.message : fallback }));
+    } finally {
+      setBusy(prev => { const { [index]: _, ...rest } = prev; return rest; });
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-slate-800/60 border border-slate-700 rounded-2xl p-4 space-y-4">
+      <div>
+        <label className="block text-xs text-slate-400 mb-1">عنوان العرض</label>
+        <input
+          value={data.title}
+          onChange={(e) => onChange({ ...data, title: e.target.value })}
+          className={`${FIELD_CLASS} text-base font-medium`}
+        />
+      </div>
+
+      {data.slides.map((slide, index) => (
+        <div key={index} className="bg-slate-850 border border-slate-700 rounded-xl p-4 space-y-3">
+          {/* Card Header */}
+          <div className="flex items-center gap-2">
+            <span className="shrink-0 w-7 h-7 rounded-full bg-indigo-600/20 text-indigo-300 text-xs flex items-center justify-center font-bold">
+              {index + 1}
+            </span>
+            <input
+              value={slide.title}
+              onChange={(e) => updateSlide(index, { title: e.target.value })}
+              className={`${FIELD_CLASS} font-medium`}
+            />
+            <select
+              value={slide.layout || chooseLayout(slide)}
+              onChange={(e) => updateSlide(index, { layout: e.target.value as SlideLayout })}
+              className="shrink-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs text-slate-300 focus:outline-none focus:border-indigo-500"
+              title="تخطيط الشريحة"
+            >
+              {(Object.keys(SLIDE_LAYOUT_LABELS) as SlideLayout[]).map(layout => (
+                <option key={layout} value={layout}>{SLIDE_LAYOUT_LABELS[layout]}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={() => moveSlide(index, -1)} disabled={isBusy || index === 0} className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30" title="نقل للأعلى">
+                <ArrowUp size={14} />
+              </button>
+              <button onClick={() => moveSlide(index, 1)} disabled={isBusy || index === data.slides.length - 1} className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30" title="نقل للأسفل">
+                <ArrowDown size={14} />
+              </button>
+              <button onClick={() => runRegeneration(index, 'slide')} disabled={!!busy[index]} className="p-1.5 rounded-md text-slate-400 hover:text-indigo-300 hover:bg-slate-700 disabled:opacity-30" title="إعادة توليد الشريحة">
+                {busy[index] === 'slide' ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+              </button>
+              <button onClick={() => deleteSlide(index)} disabled={isBusy || data.slides.length === 1} className="p-1.5 rounded-md text-slate-400 hover:text-red-400 hover:bg-slate-700 disabled:opacity-30" title="حذف الشريحة">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-[1fr_200px] gap-3">
+            {/* Text Fields */}
+            <div className="space-y-2">
+              <label className="block text-xs text-slate-400">النقاط (نقطة في كل سطر)</label>
+              <textarea
+                value={toLines(slide.bullets)}
+                onChange={(e) => updateSlide(index, { bullets: fromLines(e.target.value) })}
+                rows={Math.max(3, slide.bullets.length)}
+                className={`${FIELD_CLASS} resize-y`}
+              />
+              <label className="block text-xs text-slate-400">الأمثلة (مثال في كل سطر)</label>
+              <textarea
+                value={toLines(slide.examples)}
+                onChange={(e) => updateSlide(index, { examples: fromLines(e.target.value) })}
+                rows={Math.max(2, slide.examples.length)}
+                className={`${FIELD_CLASS} resize-y`}
+              />
+              <label className="block text-xs text-slate-400">ملاحظات المتحدث</label>
+              <textarea
+                value={slide.speakerNotes}
+                onChange={(e) => updateSlide(index, { speakerNotes: e.target.value })}
+                rows={2}
+                className={`${FIELD_CLASS} resize-y`}
+              />
+            </div>
+
+            {/* Image */}
+            <div className="space-y-2">
+              <div className="aspect-video rounded-lg overflow-hidden border border-slate-700 bg-slate-900 flex items-center justify-center">
+                {busy[index] ? (
+                  <Loader2 size={18} className="animate-spin text-slate-500" />
+                ) : slide.imageBase64 ? (
+                  <img src={slide.imageBase64} alt={slide.title} className="w-full h-full object-contain" />
+                ) : (
+                  <span className="text-xs text-slate-500">لا توجد صورة</span>
+                )}
+              </div>
+              <textarea
+                value={slide.imageDescription}
+                onChange={(e) => updateSlide(index, { imageDescription: e.target.value })}
+                rows={3}
+                dir="ltr"
+                placeholder="Image description..."
+                className={`${FIELD_CLASS} text-xs resize-y`}
+              />
+              <button
+                onClick={() => runRegeneration(index, 'image')}
+                disabled={!!busy[index] || !slide.imageDescription.trim()}
+                className="w-full flex items-center justify-center gap-1 text-xs px-2 py-1.5 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40"
+              >
+                <ImagePlus size={12} /> إعادة توليد الصورة
+              </button>
+            </div>
+          </div>
+
+          {errors[index] && <p className="text-xs text-red-400">{errors[index]}</p>}
+        </div>
+      ))}
+
+      {/* Footer */}
+      <div className="flex flex-wrap items-center justify-end gap-2 pt-2">
+        <button onClick={onCancel} disabled={isBuilding} className="flex items-center gap-1 px-4 py-2 rounded-xl text-sm text-slate-300 hover:bg-slate-700 border border-slate-700 disabled:opacity-40">
+          <X size={16} /> إغلاق
+        </button>
+        <button onClick={() => onBuild('odp')} disabled={buildDisabled} className={SECONDARY_BUILD_CLASS} title="LibreOffice Impress / Keynote">
+          <FileType size={16} /> ODP
+        </button>
+        <div className="flex items-center rounded-xl border border-slate-700 overflow-hidden">
+          <button onClick={() => onBuild('handout', slidesPerPage)} disabled={buildDisabled} className="flex items-center gap-1 px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 disabled:opacity-40">
+            <Printer size={16} /> نشرة PDF
+          </button>
+          <select
+            value={slidesPerPage}
+            onChange={(e) => setSlidesPerPage(Number(e.target.value))}
+            disabled={buildDisabled}
+            className="bg-slate-900 border-r border-slate-700 px-2 py-2 text-xs text-slate-300 focus:outline-none disabled:opacity-40"
+            title="عدد الشرائح في الصفحة"
+          >
+            {HANDOUT_LAYOUTS.map(count => (
+              <option key={count} value={count}>{count} / صفحة</option>
+            ))}
+          </select>
+        </div>
+        <button onClick={() => onBuild('html')} disabled={buildDisabled} className={SECONDARY_BUILD_CLASS} title="عرض يعمل في المتصفح دون اتصال">
+          <MonitorPlay size={16} /> عرض HTML
+        </button>
+        <button
+          onClick={() => onBuild('pptx')}
+          disabled={buildDisabled}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+        >
+          {isBuilding ? <Loader2 size={16} className="animate-spin" /> : <FileDown size={16} />}
+          بناء PPTX
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PresentationEditor;
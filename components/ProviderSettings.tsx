@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ProviderId, ProviderSettings as ProviderSettingsData, OpenAiSettings, PROVIDERS } from '../services/aiProvider';
+import { X, Check } from 'lucide-react';
+
+interface ProviderSettingsProps {
+  settings: ProviderSettingsData;
+  onSave: (settings: ProviderSettingsData) => void;
+  onCancel: () => void;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<ProviderId, string> = {
+  gemini: 'النماذج الافتراضية عبر مفتاح Gemini. تدعم البحث والتفكير العميق وتوليد الصور.',
+  openai: 'أي خادم متوافق مع واجهة OpenAI، مثل Ollama أو LM Studio أو vLLM.',
+  mock: 'ردود ثابتة محلية دون اتصال، للعرض والاختبار.',
+};
+
+const OPENAI_FIELDS: { key: keyof OpenAiSettings; label: string; placeholder: string; type?: string }[] = [
+  { key: 'baseUrl', label: 'عنوان الخادم', placeholder: 'http://localhost:11434/v1' },
+  { key: 'apiKey', label: 'مفتاح الواجهة (اختياري)', placeholder: 'sk-...', type: 'password' },
+  { key: 'textModel', label: 'نموذج النصوص (مطلوب)', placeholder: 'llama3.1' },
+  { key: 'imageModel', label: 'نموذج الصور', placeholder: 'dall-e-3' },
+  { key: 'speechModel', label: 'نموذج الصوت', placeholder: 'tts-1' },
+];
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ProviderSettingsData>(settings);
+
+  const updateOpenAi = (key: keyof OpenAiSettings, value: string) => {
+    setDraft(d => ({ ...d, openAi: { ...d.openAi, [key]: value } }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" dir="rtl">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg max-h-full overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="font-medium text-slate-200">مزوّد الذكاء الاصطناعي</h3>
+          <button onClick={onCancel} className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Provider choice */}
+        <div className="p-4 space-y-2">
+          {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+            <label
+              key={id}
+              className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                draft.provider === id
+                  ? 'bg-indigo-600/10 border-indigo-600/30'
+                  : 'border-slate-700 hover:bg-slate-800'
+              }`}
+            >
+              <input
+                type="radio"
+                name="provider"
+                checked={draft.provider === id}
+                onChange={() => setDraft(d => ({ ...d, provider: id }))}
+                className="mt-1 accent-indigo-500"
+              />
+              <div>
+                <div className="text-sm font-medium text-slate-200">{PROVIDERS[id].label}</div>
+                <div className="text-xs text-slate-400 mt-0.5">{PROVIDER_DESCRIPTIONS[id]}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {/* OpenAI-compatible server */}
+        {draft.provider === 'openai' && (
+          <div className="px-4 pb-4 space-y-3 text-xs text-slate-300">
+            {OPENAI_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className="block text-slate-400 mb-1">{field.label}</span>
+                <input
+                  type={field.type || 'text'}
+                  value={draft.openAi[field.key]}
+                  placeholder={field.placeholder}
+                  onChange={(e) => updateOpenAi(field.key, e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+                  dir="ltr"
+                />
+              </label>
+            ))}
+            <p className="text-[10px] text-slate-500">
+              تُحفظ هذه الإعدادات في هذا المتصفح فقط. اترك نموذج الصور أو الصوت فارغاً إذا لم يدعمه الخادم.
+            </p>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-slate-800">
+          <button onClick={onCancel} className="px-4 py-2 rounded-xl text-sm text-slate-300 hover:bg-slate-800 border border-slate-700">
+            إلغاء
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={draft.provider === 'openai' && (!draft.openAi.baseUrl.trim() || !draft.openAi.textModel.trim())}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+          >
+            <Check size={16} />
+            حفظ
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PresentationTheme, PRESENTATION_THEMES, getTheme } from '../services/presentationThemes';
+import { Palette, Check } from 'lucide-react';
+
+interface ThemePickerProps {
+  themeId: string;
+  onChange: (themeId: string) => void;
+  disabled?: boolean;
+}
+
+// Miniature content slide in the theme's colours
+export const ThemeThumbnail: React.FC<{ theme: PresentationTheme }> = ({ theme }) => {
+  const { colors, titleStyle } = theme;
+  const onBand = titleStyle === 'band';
+  return (
+    <div className="relative w-full aspect-video rounded overflow-hidden" style={{ backgroundColor: `#${colors.background}` }} dir="rtl">
+      <div
+        className="absolute inset-x-0 top-0 h-[22%] flex items-center px-[6%]"
+        style={{ backgroundColor: onBand ? `#${colors.accent}` : 'transparent' }}
+      >
+        <div className="h-[28%] w-1/2 rounded-sm" style={{ backgroundColor: `#${onBand ? colors.onAccent : colors.title}` }} />
+      </div>
+      {titleStyle === 'underline' && (
+        <div className="absolute inset-x-[6%] top-[23%] h-px" style={{ backgroundColor: `#${colors.accent}` }} />
+      )}
+      <div className="absolute right-[6%] top-[32%] w-[52%] space-y-[6%]">
+        {[90, 75, 82].map(width => (
+          <div key={width} className="h-[3px] rounded-full" style={{ width: `${width}%`, backgroundColor: `#${colors.text}`, opacity: 0.7 }} />
+        ))}
+      </div>
+      <div className="absolute left-[6%] top-[30%] w-[32%] h-[50%] rounded-sm" style={{ backgroundColor: `#${colors.surface}` }} />
+    </div>
+  );
+};
+
+const ThemePicker: React.FC<ThemePickerProps> = ({ themeId, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const current = getTheme(themeId);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-white disabled:opacity-40 transition-colors"
+        title="سمة العرض"
+      >
+        <Palette size={12} />
+        <span className="hidden sm:inline">{current.name}</span>
+        <span className="w-3 h-3 rounded-full border border-slate-600" style={{ backgroundColor: `#${current.colors.accent}` }} />
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 mt-1 w-72 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-20 p-2 grid grid-cols-2 gap-2">
+          {PRESENTATION_THEMES.map(theme => (
+            <button
+              key={theme.id}
+              onClick={() => { onChange(theme.id); setIsOpen(false); }}
+              className={`p-1.5 rounded-md border text-right transition-colors ${
+                theme.id === themeId ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 hover:border-slate-500'
+              }`}
+            >
+              <ThemeThumbnail theme={theme} />
+              <span className="mt-1 flex items-center justify-between text-xs text-slate-300">
+                {theme.name}
+                {theme.id === themeId && <Check size={12} className="text-indigo-400" />}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemePicker;
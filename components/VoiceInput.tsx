@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Square, Loader2, Headphones } from 'lucide-react';
+import { Recording, MAX_RECORDING_MS, isVoiceInputSupported, microphoneErrorText, startRecording } from '../services/voiceInput';
+import { transcribeSpeech } from '../services/geminiService';
+import { classifyError } from '../services/modelRouter';
+import { stopSpeech } from '../services/readAloud';
+
+interface VoiceInputProps {
+  onTranscript: (text: string) => void;
+  handsFree: boolean;
+  onHandsFreeChange: (handsFree: boolean) => void;
+  disabled?: boolean;
+}
+
+type Phase = 'idle' | 'recording' | 'transcribing';
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Mic button for the input area: click to record, click again to transcribe.
+// Hands-free mode is toggled next to it; App decides what it does with the transcript.
+const VoiceInput: React.FC<VoiceInputProps> = ({ onTranscript, handsFree, onHandsFreeChange, disabled }) => {
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+
+  // Auto-stop at the length limit while recording
+  useEffect(() => {
+    if (phase !== 'recording') return;
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const ms = Date.now() - startedAt;
+      setElapsed(ms);
+      if (ms >= MAX_RECORDING_MS) handleStop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  // Release the microphone if the input area goes away mid-recording
+  useEffect(() => () => recordingRef.current?.cancel(), []);
+
+  if (!isVoiceInputSupported()) return null;
+
+  const handleStart = async () => {
+    setError(null);
+    // The reply being read aloud would end up in the recording
+    stopSpeech();
+    try {
+      recordingRef.current = await startRecording();
+      setElapsed(0);
+      setPhase('recording');
+    } catch (e) {
+      setError(microphoneErrorText(e));
+    }
+  };
+
+  const handleStop = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    setPhase('transcribing');
+    try {
+      const audio = await recording.stop();
+      const text = audio ? await transcribeSpeech(audio) : '';
+      if (text) onTranscript(text);
+      else setError('لم يُلتقط أي كلام. حاول مرة أخرى.');
+    } catch (e) {
+      console.error("Transcription failed", e);
+      setError(classifyError(e).message);
+    } finally {
+      setPhase('idle');
+    }
+  };
+
+  return (
+    <div className="relative flex items-end gap-1">
+      <button
+        onClick={phase === 'recording' ? handleStop : handleStart}
+        disabled={phase === 'transcribing' || (disabled && phase === 'idle')}
+        className={`p-3 rounded-xl border transition-all flex items-center gap-2 ${
+          phase === 'recording'
+            ? 'bg-red-600/90 border-red-500 text-white hover:bg-red-500 animate-pulse'
+            : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-indigo-400 disabled:opacity-50'
+        }`}
+        title={phase === 'recording' ? 'إنهاء التسجيل' : 'اسأل بصوتك'}
+      >
+        {phase === 'recording' ? <Square size={20} fill="currentColor" />
+          : phase === 'transcribing' ? <Loader2 size={20} className="animate-spin" />
+          : <Mic size={20} />}
+        {phase === 'recording' && <span className="text-xs font-mono" dir="ltr">{formatElapsed(elapsed)}</span>}
+      </button>
+      <button
+        onClick={() => onHandsFreeChange(!handsFree)}
+        className={`p-1.5 rounded-lg border transition-colors ${
+          handsFree
+            ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-300'
+            : 'border-transparent text-slate-500 hover:text-slate-300'
+        }`}
+        title={handsFree ? 'وضع المحادثة الصوتية مفعّل: يُرسل السؤال فوراً ويُقرأ الرد بصوت عالٍ' : 'تفعيل وضع المحادثة الصوتية'}
+      >
+        <Headphones size={16} />
+      </button>
+
+      {error && (
+        <div className="absolute bottom-full mb-2 right-0 w-64 px-3 py-2 rounded-lg bg-slate-800 border border-red-500/40 text-xs text-red-300 shadow-xl">
+          {error}
+          <button onClick={() => setError(null)} className="block mt-1 text-slate-400 hover:text-white">إغلاق</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceInput;
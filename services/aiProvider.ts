@@ -0,0 +1,143 @@
+import type { Schema } from "@google/genai";
+import type { ModelFeature } from "./modelRegistry";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { openAiProvider } from "./openAiProvider";
+
+// --- AI Provider ---
+// The calls geminiService is built on. Features describe what they need
+// (prompt parts, history, schema...) and the selected provider maps it onto
+// its own API. Model ids come from modelRegistry; providers outside Gemini may
+// substitute their own.
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }; // Base64 image (vision) or WAV audio
+
+export interface ChatTurn {
+  role: string; // 'user' | 'model'
+  parts: { text: string }[];
+}
+
+export interface Source {
+  uri: string;
+  title: string;
+}
+
+export interface TextRequest {
+  feature: ModelFeature; // Picks the proxy endpoint
+  model: string;
+  parts: ContentPart[];
+  history?: ChatTurn[];
+  systemInstruction?: string;
+  thinkingBudget?: number; // Also asks for thought summaries
+  search?: boolean; // Ground the answer in web search
+  signal?: AbortSignal;
+}
+
+export interface TextResult {
+  text: string;
+  thoughts: string;
+  sources: Source[];
+}
+
+export interface JsonRequest extends TextRequest {
+  schema: Schema;
+}
+
+export interface ImageRequest {
+  feature: ModelFeature; // Picks the proxy endpoint
+  model: string;
+  prompt: string;
+  aspectRatio: '16:9';
+  imageSize?: '1K' | '2K' | '4K';
+  signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+  feature: ModelFeature; // Picks the proxy endpoint
+  model: string;
+  text: string;
+  voice: string;
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  id: ProviderId;
+  label: string;
+  // Whether the model registry's chains (and the per-view model settings) apply
+  usesModelRegistry: boolean;
+  generateText: (request: TextRequest) => Promise<TextResult>;
+  // onUpdate receives everything received so far
+  streamText: (request: TextRequest, onUpdate: (result: TextResult) => void) => Promise<TextResult>;
+  generateJson: <T>(request: JsonRequest) => Promise<T>;
+  generateImage: (request: ImageRequest) => Promise<string | null>; // Image data URL
+  generateSpeech: (request: SpeechRequest) => Promise<ArrayBuffer>;
+}
+
+// --- Selection ---
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface OpenAiSettings {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey: string;
+  textModel: string;
+  imageModel: string;
+  speechModel: string;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  openAi: OpenAiSettings;
+}
+
+export const PROVIDERS: Record<ProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  mock: mockProvider,
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: isProviderId(import.meta.env.VITE_AI_PROVIDER) ? import.meta.env.VITE_AI_PROVIDER : 'gemini',
+  openAi: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    textModel: '',
+    imageModel: '',
+    speechModel: '',
+  },
+};
+
+const SETTINGS_KEY = 'mathmind:provider';
+
+let settings: ProviderSettings | null = null;
+
+export const getProviderSettings = (): ProviderSettings => {
+  if (!settings) {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+      settings = {
+        provider: isProviderId(stored.provider) ? stored.provider : DEFAULT_PROVIDER_SETTINGS.provider,
+        openAi: { ...DEFAULT_PROVIDER_SETTINGS.openAi, ...stored.openAi },
+      };
+    } catch {
+      settings = DEFAULT_PROVIDER_SETTINGS;
+    }
+  }
+  return settings;
+};
+
+export const setProviderSettings = (next: ProviderSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Could not save provider settings", error);
+  }
+};
+
+export const getProvider = (): AiProvider => PROVIDERS[getProviderSettings().provider];
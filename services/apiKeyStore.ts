@@ -0,0 +1,107 @@
+import { GoogleGenAI } from "@google/genai";
+import { classifyError } from "./modelRouter";
+
+// --- API Key Store ---
+// A student's own Gemini key, kept in localStorage. With a passphrase it is
+// encrypted (AES-GCM, key derived with PBKDF2) and only held in memory once
+// unlocked, so a reload asks for the passphrase again.
+
+export type ApiKeyStatus = 'none' | 'locked' | 'ready';
+
+type StoredKey =
+  | { encrypted: false; key: string }
+  | { encrypted: true; salt: string; iv: string; data: string };
+
+const STORAGE_KEY = 'mathmind:api-key';
+const PBKDF2_ITERATIONS = 250000;
+const VALIDATION_MODEL = 'gemini-2.5-flash';
+
+let unlockedKey: string | null = null;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: BufferSource) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readStored = (): StoredKey | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return stored && (stored.key || stored.data) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getApiKeyStatus = (): ApiKeyStatus => {
+  const stored = readStored();
+  if (!stored) return 'none';
+  return stored.encrypted && !unlockedKey ? 'locked' : 'ready';
+};
+
+export const isApiKeyEncrypted = () => !!readStored()?.encrypted;
+
+// The key to call Gemini with, or null when none is stored or it is still locked
+export const getApiKey = (): string | null => {
+  const stored = readStored();
+  if (!stored) return null;
+  return stored.encrypted ? unlockedKey : stored.key;
+};
+
+// Shows the start and end of the key so students can tell which one is saved
+export const maskApiKey = (key: string) =>
+  key.length > 10 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '…';
+
+export const saveApiKey = async (key: string, passphrase?: string) => {
+  let stored: StoredKey = { encrypted: false, key };
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await deriveKey(passphrase, salt), new TextEncoder().encode(key));
+    stored = { encrypted: true, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  unlockedKey = key;
+};
+
+// Resolves false for a wrong passphrase
+export const unlockApiKey = async (passphrase: string): Promise<boolean> => {
+  const stored = readStored();
+  if (!stored?.encrypted) return !!stored;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(stored.salt));
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+    unlockedKey = new TextDecoder().decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const clearApiKey = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  unlockedKey = null;
+};
+
+// Looks up a model with the key, which fails fast for a bad key without spending quota.
+// Throws a ModelError describing what went wrong.
+export const validateApiKey = async (key: string) => {
+  try {
+    await new GoogleGenAI({ apiKey: key }).models.get({ model: VALIDATION_MODEL });
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
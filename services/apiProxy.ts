@@ -0,0 +1,152 @@
+import type { ModelFeature } from "./modelRegistry";
+import type { TextRequest, TextResult, JsonRequest, ImageRequest, SpeechRequest } from "./aiProvider";
+
+// --- API Proxy ---
+// The Gemini key lives on the server. The browser posts provider requests to
+// the functions under /api, one endpoint per group of features, and each reply
+// comes back as newline-delimited JSON so long calls can start responding at once.
+
+export type ProxyEndpoint = 'tutor' | 'solve' | 'explain' | 'visual' | 'presentation' | 'speech' | 'practice';
+
+export const ENDPOINT_FEATURES: Record<ProxyEndpoint, ModelFeature[]> = {
+  tutor: ['tutor'],
+  solve: ['solve', 'detect'],
+  explain: ['search', 'fast'],
+  visual: ['visual-image', 'geometry'],
+  presentation: ['presentation', 'slide-image'],
+  speech: ['speech', 'transcribe'],
+  practice: ['practice'],
+};
+
+export const endpointForFeature = (feature: ModelFeature): ProxyEndpoint =>
+  (Object.keys(ENDPOINT_FEATURES) as ProxyEndpoint[]).find(e => ENDPOINT_FEATURES[e].includes(feature)) || 'tutor';
+
+// Requests per minute for each client IP; image endpoints are the expensive ones
+export const RATE_LIMITS: Record<ProxyEndpoint, number> = {
+  tutor: 20,
+  solve: 10,
+  explain: 30,
+  visual: 10,
+  presentation: 40, // A deck asks for one image per slide
+  speech: 40, // Long replies are read aloud in several chunks
+  practice: 30, // Proofs and guided steps are checked one call per answer
+};
+
+export const PROXY_LIMITS = {
+  maxBodyBytes: 4 * 1024 * 1024, // Just under Vercel's own request body cap
+  maxHistoryTurns: 50,
+  maxThinkingBudget: 32768,
+};
+
+// The request's signal stays in the browser
+type Wire<T> = Omit<T, 'signal'>;
+
+export type ProxyCall =
+  | { operation: 'text' | 'stream'; request: Wire<TextRequest> }
+  | { operation: 'json'; request: Wire<JsonRequest> }
+  | { operation: 'image'; request: Wire<ImageRequest> }
+  | { operation: 'speech'; request: Wire<SpeechRequest> };
+
+export type ProxyOperation = ProxyCall['operation'];
+
+export interface ProxyError {
+  message: string;
+  status?: number;
+}
+
+// One line of a reply: stream deltas, then either the result or an error
+export type ProxyLine =
+  | { delta: Partial<TextResult> }
+  | { result: unknown }
+  | { error: ProxyError };
+
+// --- Client ---
+
+const API_BASE = '/api';
+
+// Errors keep the HTTP status so modelRouter can classify them
+const proxyError = (message: string, status?: number) => Object.assign(new Error(message), { status });
+
+const postToProxy = async (call: ProxyCall, signal?: AbortSignal) => {
+  const body = JSON.stringify(call);
+  if (new TextEncoder().encode(body).length > PROXY_LIMITS.maxBodyBytes) {
+    throw proxyError('Request body is too large', 413);
+  }
+  const response = await fetch(`${API_BASE}/${endpointForFeature(call.request.feature)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    signal,
+  });
+  if (!response.ok) {
+    let error: ProxyError = { message: `${response.status} ${response.statusText}` };
+    try {
+      error = (await response.json()).error || error;
+    } catch {
+      // Body was not JSON (e.g. the platform's own error page)
+    }
+    throw proxyError(error.message, response.status);
+  }
+  return response;
+};
+
+const readLines = async (response: Response, onLine: (line: ProxyLine) => void, signal?: AbortSignal) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const handle = (text: string) => {
+    if (!text.trim()) return;
+    const line = JSON.parse(text) as ProxyLine;
+    if ('error' in line) throw proxyError(line.error.message, line.error.status);
+    onLine(line);
+  };
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handle);
+    }
+    handle(buffer);
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
+
+const stripSignal = <T extends { signal?: AbortSignal }>({ signal, ...request }: T) => request;
+
+export const callProxy = async <T>(call: ProxyCall, signal?: AbortSignal): Promise<T> => {
+  let received: { result: unknown } | null = null;
+  await readLines(await postToProxy(call, signal), line => {
+    if ('result' in line) received = line;
+  }, signal);
+  if (!received) throw proxyError('The proxy closed the reply without a result', 502);
+  return (received as { result: unknown }).result as T;
+};
+
+export const proxyText = (request: TextRequest) =>
+  callProxy<TextResult>({ operation: 'text', request: stripSignal(request) }, request.signal);
+
+export const proxyJson = (request: JsonRequest) =>
+  callProxy<string>({ operation: 'json', request: stripSignal(request) }, request.signal);
+
+export const proxyImage = (request: ImageRequest) =>
+  callProxy<string | null>({ operation: 'image', request: stripSignal(request) }, request.signal);
+
+export const proxySpeech = (request: SpeechRequest) =>
+  callProxy<string>({ operation: 'speech', request: stripSignal(request) }, request.signal);
+
+export const proxyStream = async (request: TextRequest, onUpdate: (result: TextResult) => void): Promise<TextResult> => {
+  const result: TextResult = { text: '', thoughts: '', sources: [] };
+  const response = await postToProxy({ operation: 'stream', request: stripSignal(request) }, request.signal);
+  await readLines(response, line => {
+    if (!('delta' in line)) return;
+    result.text += line.delta.text || '';
+    result.thoughts += line.delta.thoughts || '';
+    if (line.delta.sources) result.sources = line.delta.sources;
+    onUpdate({ ...result });
+  }, request.signal);
+  return result;
+};
@@ -0,0 +1,35 @@
+// --- Audio Format ---
+// 16-bit mono PCM wrapped as a WAV file: the one format every provider
+// accepts for input and every browser can play back.
+
+export const pcmToWav = (pcm: ArrayBuffer, sampleRate: number) => {
+  const buffer = new ArrayBuffer(44 + pcm.byteLength);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  new Uint8Array(buffer, 44).set(new Uint8Array(pcm));
+  return buffer;
+};
+
+// Float samples in [-1, 1], as Web Audio renders them
+export const samplesToPcm = (samples: Float32Array) => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    pcm[i] = Math.max(-1, Math.min(1, samples[i])) * 0x7fff;
+  }
+  return pcm.buffer;
+};
@@ -0,0 +1,256 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Message, Sender, PracticeQuiz, GuidedSolution } from "../types";
+import { splitMath } from "./mathParser";
+import { getEmbeddedKatexCss } from "./mathImageService";
+
+// --- Conversation Export ---
+// PDF goes through the browser's print dialog ("Save as PDF") so Arabic shaping,
+// RTL layout and KaTeX fonts come out exactly as on screen.
+
+export type ExportFormat = 'pdf' | 'md' | 'tex';
+
+const SENDER_LABELS: Record<Sender, string> = {
+  [Sender.USER]: 'أنت',
+  [Sender.AI]: 'MathMind',
+};
+
+const VERIFICATION_TEXT = {
+  passed: '✓ تم التحقق',
+  failed: '✗ فشل التحقق',
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const safeFileName = (title: string) => title.replace(/[\\/:*?"<>|]/g, '_').trim() || 'conversation';
+
+const messageImages = (message: Message) => [
+  ...(message.images || []),
+  ...(message.image ? [message.image] : []),
+];
+
+// A quiz as a numbered worksheet with the student's answers and the correct ones
+const practiceMarkdown = (quiz: PracticeQuiz) => quiz.problems.map((problem, i) => {
+  const attempt = quiz.attempts[i];
+  const lines = [`**${i + 1}.** ${problem.statement}`];
+  if (attempt?.response) {
+    const mark = attempt.result === 'correct' ? '✓' : attempt.result === 'incorrect' ? '✗' : '';
+    lines.push(`إجابتك: ${attempt.response} ${mark}`.trim());
+  }
+  lines.push(problem.answerKind === 'proof' ? `الحل: ${problem.solution}` : `الجواب: $${problem.answer}$`);
+  return lines.join('\n\n');
+}).join('\n\n');
+
+// Every step of a guided solution, including the ones not reached yet
+const guidedMarkdown = (solution: GuidedSolution) => solution.steps
+  .map((step, i) => `**${i + 1}. ${step.statement}**\n\n${step.explanation || `$$${step.result}$$`}`)
+  .join('\n\n');
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('ar');
+
+// --- Markdown ---
+
+export const conversationToMarkdown = (title: string, messages: Message[]) => {
+  const parts = [`# ${title}`, `_${formatDate(Date.now())}_`];
+  for (const message of messages) {
+    const section = [`## ${SENDER_LABELS[message.sender]}`];
+    messageImages(message).forEach((src, i) => section.push(`![صورة ${i + 1}](${src})`));
+    if (message.text) section.push(message.text);
+    if (message.plot) {
+      section.push(message.plot.functions.map(f => `- $y = ${f.expression}$`).join('\n'));
+    }
+    if (message.geometry) section.push(`_${message.geometry.title}_`);
+    if (message.practice) section.push(practiceMarkdown(message.practice));
+    if (message.guided) section.push(guidedMarkdown(message.guided));
+    if (message.verification) {
+      section.push(`> ${VERIFICATION_TEXT[message.verification.status]}: ${message.verification.detail}`);
+    }
+    if (message.sources && message.sources.length > 0) {
+      section.push(`**المصادر:**\n${message.sources.map(s => `- [${s.title}](${s.uri})`).join('\n')}`);
+    }
+    parts.push(section.join('\n\n'));
+  }
+  return parts.join('\n\n') + '\n';
+};
+
+// --- LaTeX ---
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+// One pass, so the braces of \textbackslash{} are not escaped again
+const escapeLatex = (text: string) => text.replace(/[\\#$%&_{}~^]/g, char => LATEX_ESCAPES[char] || `\\${char}`);
+
+const proseToLatex = (text: string) => escapeLatex(text)
+  .replace(/\*\*(.+?)\*\*/g, '\\textbf{$1}')
+  .replace(/^#{1,6}\s+(.+)$/gm, '\\subsection*{$1}')
+  .replace(/^\s*[-*]\s+(.+)$/gm, '\\textbullet\\ $1');
+
+// Math spans are copied verbatim; only the prose between them is escaped
+const markdownToLatex = (text: string) => splitMath(text)
+  .map(segment => {
+    if (segment.kind === 'text') return proseToLatex(segment.value);
+    return segment.raw.startsWith('$$') ? `\\[${segment.latex}\\]` : segment.raw;
+  })
+  .join('');
+
+export const conversationToLatex = (title: string, messages: Message[]) => {
+  const body: string[] = [];
+  for (const message of messages) {
+    body.push(`\\section*{${SENDER_LABELS[message.sender]}}`);
+    const imageCount = messageImages(message).length;
+    if (imageCount > 0) body.push(`% ${imageCount} image(s) omitted`);
+    if (message.text) body.push(markdownToLatex(message.text));
+    if (message.plot) {
+      body.push(message.plot.functions.map(f => `\\[ y = ${f.expression} \\]`).join('\n'));
+    }
+    if (message.practice) body.push(markdownToLatex(practiceMarkdown(message.practice)));
+    if (message.guided) body.push(markdownToLatex(guidedMarkdown(message.guided)));
+    if (message.verification) {
+      body.push(`\\textit{${VERIFICATION_TEXT[message.verification.status]}: ${markdownToLatex(message.verification.detail)}}`);
+    }
+    if (message.sources && message.sources.length > 0) {
+      body.push(`\\begin{itemize}\n${message.sources.map(s => `  \\item \\href{${s.uri}}{${escapeLatex(s.title)}}`).join('\n')}\n\\end{itemize}`);
+    }
+  }
+
+  // Compile with XeLaTeX (or LuaLaTeX) for Arabic support
+  return [
+    '\\documentclass[12pt]{article}',
+    '\\usepackage{amsmath,amssymb}',
+    '\\usepackage{hyperref}',
+    '\\usepackage{polyglossia}',
+    '\\setmainlanguage{arabic}',
+    '\\setotherlanguage{english}',
+    '\\newfontfamily\\arabicfont[Script=Arabic]{Amiri}',
+    `\\title{${escapeLatex(title)}}`,
+    '\\date{}',
+    '\\begin{document}',
+    '\\maketitle',
+    body.join('\n\n'),
+    '\\end{document}',
+    '',
+  ].join('\n');
+};
+
+// --- PDF (print) ---
+
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const renderMarkdown = (text: string) => renderToStaticMarkup(
+  React.createElement(ReactMarkdown, { remarkPlugins: [remarkMath], rehypePlugins: [rehypeKatex] }, text)
+);
+
+const PRINT_STYLES = `
+  body { font-family: 'Cairo', sans-serif; color: #0f172a; margin: 0; padding: 24px; line-height: 1.7; }
+  h1 { font-size: 22px; margin: 0; }
+  .date { color: #64748b; font-size: 12px; margin-bottom: 24px; }
+  .message { border-top: 1px solid #e2e8f0; padding: 12px 0; break-inside: avoid-page; }
+  .sender { font-weight: 700; font-size: 13px; color: #4f46e5; margin-bottom: 4px; }
+  .message.user .sender { color: #0f766e; }
+  .images { display: flex; flex-wrap: wrap; gap: 8px; margin: 8px 0; }
+  .images img { max-width: 100%; max-height: 420px; border: 1px solid #cbd5e1; border-radius: 6px; }
+  .verification { font-size: 12px; padding: 4px 8px; border-radius: 6px; display: inline-block; margin-top: 6px; }
+  .verification.passed { background: #dcfce7; color: #166534; }
+  .verification.failed { background: #fee2e2; color: #991b1b; }
+  .sources { font-size: 12px; margin-top: 8px; }
+  .sources a { color: #2563eb; word-break: break-all; }
+  .katex-display { direction: ltr; overflow-x: auto; }
+  pre, code { direction: ltr; font-family: 'Fira Code', monospace; }
+  @page { margin: 16mm; }
+`;
+
+export const conversationToHtml = async (title: string, messages: Message[]) => {
+  // The bundled KaTeX stylesheet with its fonts inlined, so the export matches the app and works offline
+  const katexCss = await getEmbeddedKatexCss();
+  const items = messages.map(message => {
+    const images = messageImages(message);
+    const plot = message.plot
+      ? renderMarkdown(message.plot.functions.map(f => `- $y = ${f.expression}$`).join('\n'))
+      : '';
+    const verification = message.verification
+      ? `<div class="verification ${message.verification.status}">${VERIFICATION_TEXT[message.verification.status]}: ${renderMarkdown(message.verification.detail)}</div>`
+      : '';
+    const sources = message.sources && message.sources.length > 0
+      ? `<div class="sources"><strong>المصادر:</strong><ol>${message.sources.map(s => `<li><a href="${escapeHtml(s.uri)}">${escapeHtml(s.title)}</a></li>`).join('')}</ol></div>`
+      : '';
+    return `
+      <section class="message ${message.sender === Sender.USER ? 'user' : 'ai'}">
+        <div class="sender">${SENDER_LABELS[message.sender]}</div>
+        ${images.length > 0 ? `<div class="images">${images.map(src => `<img src="${escapeHtml(src)}" />`).join('')}</div>` : ''}
+        ${message.text ? renderMarkdown(message.text) : ''}
+        ${plot}
+        ${message.geometry ? `<p><em>${escapeHtml(message.geometry.title)}</em></p>` : ''}
+        ${message.practice ? renderMarkdown(practiceMarkdown(message.practice)) : ''}
+        ${message.guided ? renderMarkdown(guidedMarkdown(message.guided)) : ''}
+        ${verification}
+        ${sources}
+      </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ar" dir="rtl">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <link href="https://fonts.googleapis.com/css2?family=Cairo:wght@400;700&family=Fira+Code&display=swap" rel="stylesheet">
+  <style>${katexCss}${PRINT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="date">${formatDate(Date.now())}</div>
+  ${items}
+</body>
+</html>`;
+};
+
+// Prints from a hidden frame once stylesheets, fonts and images have loaded
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = async () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    await win.document.fonts.ready;
+    win.addEventListener('afterprint', () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+export const exportConversation = async (format: ExportFormat, title: string, messages: Message[]) => {
+  const fileName = safeFileName(title);
+  switch (format) {
+    case 'pdf':
+      printHtml(await conversationToHtml(title, messages));
+      break;
+    case 'md':
+      downloadBlob(new Blob([conversationToMarkdown(title, messages)], { type: 'text/markdown;charset=utf-8' }), `${fileName}.md`);
+      break;
+    case 'tex':
+      downloadBlob(new Blob([conversationToLatex(title, messages)], { type: 'application/x-tex;charset=utf-8' }), `${fileName}.tex`);
+      break;
+  }
+};
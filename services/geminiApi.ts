@@ -0,0 +1,142 @@
+import type { GoogleGenAI } from "@google/genai";
+import type { TextRequest, TextResult, JsonRequest, ImageRequest, SpeechRequest, Source } from "./aiProvider";
+import { supportsImageSize } from "./modelRegistry";
+
+// --- Gemini API ---
+// Plain SDK calls on a given client: the /api proxy runs them with the
+// server's key, the browser with a student's own key (see apiKeyStore).
+
+// A blocked prompt or reply comes back as an empty response rather than an HTTP error.
+// The message is what modelRouter looks for, also after crossing the proxy.
+const BLOCK_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+const checkBlocked = (response: any) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const reason = response.promptFeedback?.blockReason || (BLOCK_REASONS.includes(finishReason) ? finishReason : null);
+  if (reason) throw new Error(`Response blocked by safety filters (${reason})`);
+};
+
+const extractImageFromResponse = (response: any): string | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:image/png;base64,${part.inlineData.data}`;
+    }
+  }
+  return null;
+};
+
+// Thought summaries come back as parts flagged with `thought: true`;
+// response.text skips them, so they are collected separately.
+const extractThoughts = (response: any): string => {
+  let thoughts = '';
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.thought && part.text) {
+      thoughts += part.text;
+    }
+  }
+  return thoughts;
+};
+
+const extractSources = (response: any): Source[] => {
+  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return groundingChunks
+    .map((c: any) => c.web ? { uri: c.web.uri, title: c.web.title } : null)
+    .filter((s: any) => s !== null);
+};
+
+const buildRequest = (request: TextRequest) => ({
+  model: request.model,
+  contents: [...(request.history || []), { role: 'user', parts: request.parts }],
+  config: {
+    abortSignal: request.signal,
+    ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+    ...(request.thinkingBudget ? { thinkingConfig: { thinkingBudget: request.thinkingBudget, includeThoughts: true } } : {}),
+    ...(request.search ? { tools: [{ googleSearch: {} }] } : {}),
+  },
+});
+
+export const geminiText = async (client: GoogleGenAI, request: TextRequest): Promise<TextResult> => {
+  const response = await client.models.generateContent(buildRequest(request));
+  checkBlocked(response);
+  return {
+    text: response.text || '',
+    thoughts: extractThoughts(response),
+    sources: request.search ? extractSources(response) : [],
+  };
+};
+
+// onChunk receives each chunk's new text and thoughts. Grounding sources
+// arrive with the later chunks and replace the earlier ones.
+export const geminiStream = async (
+  client: GoogleGenAI,
+  request: TextRequest,
+  onChunk: (chunk: Partial<TextResult>) => void
+) => {
+  const stream = await client.models.generateContentStream(buildRequest(request));
+  for await (const chunk of stream) {
+    if (request.signal?.aborted) break;
+    checkBlocked(chunk);
+    const thoughts = extractThoughts(chunk);
+    const sources = request.search ? extractSources(chunk) : [];
+    if (chunk.text || thoughts || sources.length > 0) {
+      onChunk({
+        ...(chunk.text ? { text: chunk.text } : {}),
+        ...(thoughts ? { thoughts } : {}),
+        ...(sources.length > 0 ? { sources } : {}),
+      });
+    }
+  }
+};
+
+// Returns the raw reply; the caller parses it so a malformed one is reported against its model
+export const geminiJson = async (client: GoogleGenAI, request: JsonRequest): Promise<string> => {
+  const { model, contents, config } = buildRequest(request);
+  const response = await client.models.generateContent({
+    model,
+    contents,
+    config: { ...config, responseMimeType: 'application/json', responseSchema: request.schema },
+  });
+  checkBlocked(response);
+  return response.text || '';
+};
+
+// Image models without imageSize support get their default resolution
+export const geminiImage = async (client: GoogleGenAI, request: ImageRequest): Promise<string | null> => {
+  const response = await client.models.generateContent({
+    model: request.model,
+    contents: {
+      parts: [{ text: request.prompt }],
+    },
+    config: {
+      imageConfig: {
+        aspectRatio: request.aspectRatio,
+        ...(request.imageSize && supportsImageSize(request.model) ? { imageSize: request.imageSize } : {}),
+      },
+      abortSignal: request.signal,
+    },
+  });
+  checkBlocked(response);
+  return extractImageFromResponse(response);
+};
+
+// Base64 audio as returned by the API
+export const geminiSpeech = async (client: GoogleGenAI, request: SpeechRequest): Promise<string> => {
+  const response = await client.models.generateContent({
+    model: request.model,
+    contents: { parts: [{ text: request.text }] },
+    config: {
+      abortSignal: request.signal,
+      responseModalities: ['AUDIO'],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: request.voice },
+        },
+      },
+    },
+  });
+
+  checkBlocked(response);
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) throw new Error("No audio generated");
+  return base64Audio;
+};
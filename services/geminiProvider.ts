@@ -0,0 +1,71 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AiProvider, JsonRequest, TextResult } from "./aiProvider";
+import { ModelError, parseJsonResponse } from "./modelRouter";
+import { proxyText, proxyStream, proxyJson, proxyImage, proxySpeech } from "./apiProxy";
+import { geminiText, geminiStream, geminiJson, geminiImage, geminiSpeech } from "./geminiApi";
+import { getApiKey, getApiKeyStatus } from "./apiKeyStore";
+import { pcmToWav } from "./audioFormat";
+
+// --- Gemini Provider ---
+// With a student's own key (see apiKeyStore) calls go straight to Gemini;
+// otherwise they go through the /api proxy, which holds the deployment's key.
+
+// Null means "use the proxy"
+const getAiClient = (): GoogleGenAI | null => {
+  if (getApiKeyStatus() === 'locked') throw new ModelError('key-locked');
+  const apiKey = getApiKey();
+  return apiKey ? new GoogleGenAI({ apiKey }) : null;
+};
+
+const decodeBase64 = (base64: string) => {
+  const binaryString = window.atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+// Gemini TTS returns bare 16-bit mono PCM at 24 kHz; the other providers send
+// WAV, so add the header to keep generateSpeech's result playable as a file.
+const PCM_SAMPLE_RATE = 24000;
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  usesModelRegistry: true,
+
+  generateText: async (request) => {
+    const client = getAiClient();
+    return client ? geminiText(client, request) : proxyText(request);
+  },
+
+  streamText: async (request, onUpdate) => {
+    const client = getAiClient();
+    if (!client) return proxyStream(request, onUpdate);
+    const result: TextResult = { text: '', thoughts: '', sources: [] };
+    await geminiStream(client, request, delta => {
+      result.text += delta.text || '';
+      result.thoughts += delta.thoughts || '';
+      if (delta.sources) result.sources = delta.sources;
+      onUpdate({ ...result });
+    });
+    return result;
+  },
+
+  generateJson: async <T>(request: JsonRequest): Promise<T> => {
+    const client = getAiClient();
+    const text = client ? await geminiJson(client, request) : await proxyJson(request);
+    return parseJsonResponse<T>(text, request.model);
+  },
+
+  generateImage: async (request) => {
+    const client = getAiClient();
+    return client ? geminiImage(client, request) : proxyImage(request);
+  },
+
+  generateSpeech: async (request) => {
+    const client = getAiClient();
+    return pcmToWav(decodeBase64(client ? await geminiSpeech(client, request) : await proxySpeech(request)), PCM_SAMPLE_RATE);
+  },
+};
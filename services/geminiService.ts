@@ -1,19 +1,12 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { PresentationData } from "../types";
-
-const getAiClient = () => {
-  // Use process.env.API_KEY as mandated by guidelines.
-  // This is configured in vite.config.ts to resolve correctly.
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-if (!apiKey) {
-  throw new Error("API Key is missing. Please check VITE_GEMINI_API_KEY in your .env file");
-}
-  return new GoogleGenAI({ apiKey });
-};
+import { Type } from "@google/genai";
+import { PresentationData, PresentationSlide, GeometryConstruction, UploadedPage, DetectedProblem, PracticeDifficulty, PracticeProblem, GuidedSolution } from "../types";
+import { isAbortError, isRetryableError } from "./jobScheduler";
+import { callModel, ModelError } from "./modelRouter";
+import { PROXY_LIMITS } from "./apiProxy";
+import { getProvider, ChatTurn, TextRequest } from "./aiProvider";
 
 // --- Utils ---
-export const fileToBase64 = (file: File): Promise<string> => {
+export const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -26,138 +19,370 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-const extractImageFromResponse = (response: any): string | null => {
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-  return null;
-};
-
 // --- Features ---
+// Each feature runs on the selected provider (see aiProvider) through callModel,
+// which picks the model and handles fallbacks, retries and timeouts.
+
+const TUTOR_SYSTEM_INSTRUCTION = "أنت مدرس رياضيات متقدم. اكتب جميع المعادلات الرياضية والكسور باستخدام صيغة LaTeX. استخدم $$ للمعادلات في سطر منفصل و $ للمعادلات في نفس السطر. اجعل الرد باللغة العربية ولكن الأرقام والرموز بالإنجليزية داخل LaTeX لضمان ظهورها بشكل صحيح.";
+
+const TUTOR_THINKING_BUDGET = 32768;
+
+const tutorRequest = (model: string, prompt: string, history: ChatTurn[], signal?: AbortSignal): TextRequest => ({
+  feature: 'tutor',
+  model,
+  parts: [{ text: prompt }],
+  history,
+  systemInstruction: TUTOR_SYSTEM_INSTRUCTION,
+  thinkingBudget: TUTOR_THINKING_BUDGET,
+  signal,
+});
 
 export const generateDeepTutorResponse = async (
-  prompt: string, 
-  history: { role: string; parts: { text: string }[] }[]
+  prompt: string,
+  history: ChatTurn[]
 ) => {
-  const ai = getAiClient();
-  const chat = ai.chats.create({
-    model: 'gemini-3-pro-preview',
-    config: {
-      thinkingConfig: { thinkingBudget: 32768 },
-      systemInstruction: "أنت مدرس رياضيات متقدم. اكتب جميع المعادلات الرياضية والكسور باستخدام صيغة LaTeX. استخدم $$ للمعادلات في سطر منفصل و $ للمعادلات في نفس السطر. اجعل الرد باللغة العربية ولكن الأرقام والرموز بالإنجليزية داخل LaTeX لضمان ظهورها بشكل صحيح.",
-    },
-    history: history,
+  return callModel('tutor', async (model, signal) => {
+    const { text, thoughts } = await getProvider().generateText(tutorRequest(model, prompt, history, signal));
+    return { text, thoughts };
   });
+};
 
-  const response = await chat.sendMessage({ message: prompt });
-  return response.text;
+// Streams the tutor answer, calling onUpdate with the full text and thought
+// summary received so far. Resolves with the final result, or the partial one
+// if the signal aborts it.
+export const streamDeepTutorResponse = async (
+  prompt: string,
+  history: ChatTurn[],
+  onUpdate: (update: { text: string; thoughts: string }) => void,
+  signal?: AbortSignal
+) => {
+  return callModel('tutor', async (model, callSignal) => {
+    const { text, thoughts } = await getProvider().streamText(
+      tutorRequest(model, prompt, history, callSignal),
+      ({ text, thoughts }) => onUpdate({ text, thoughts })
+    );
+    return { text, thoughts };
+  }, signal);
 };
 
 export const generateMathVisual = async (prompt: string, size: "1K" | "2K" | "4K") => {
-  const ai = getAiClient();
   const visualPrompt = `Create a highly accurate, educational mathematical visualization or diagram for the following concept (which might be in Arabic): ${prompt}. Clean white background, academic style.`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: visualPrompt }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9",
-          imageSize: size,
-        },
-      },
+  return callModel('visual-image', async (model, signal) => {
+    const image = await getProvider().generateImage({
+      feature: 'visual-image',
+      model,
+      prompt: visualPrompt,
+      aspectRatio: "16:9",
+      imageSize: size,
+      signal,
     });
-    return extractImageFromResponse(response);
-  } catch (error: any) {
-    if (error.status === 403 || error.message?.includes('PERMISSION_DENIED') || error.status === 404) {
-      console.warn("Falling back to gemini-2.5-flash-image due to permissions/availability.");
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [{ text: visualPrompt }],
-        },
-        config: {
-          imageConfig: {
-            aspectRatio: "16:9",
+    if (!image) throw new ModelError('empty-image', { model });
+    return image;
+  });
+};
+
+const GEOMETRY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    elements: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          type: {
+            type: Type.STRING,
+            enum: ['point', 'midpoint', 'intersection', 'segment', 'line', 'ray', 'perpendicular', 'parallel', 'circle', 'polygon', 'angle', 'length'],
           },
+          label: { type: Type.STRING },
+          x: { type: Type.NUMBER },
+          y: { type: Type.NUMBER },
+          refs: { type: Type.ARRAY, items: { type: Type.STRING } },
+          radius: { type: Type.NUMBER },
         },
-      });
-      return extractImageFromResponse(response);
+        required: ['id', 'type'],
+      }
     }
-    throw error;
-  }
+  },
+  required: ['title', 'elements'],
+};
+
+export const generateGeometryConstruction = async (prompt: string): Promise<GeometryConstruction> => {
+  const constructionPrompt = `
+    أنت خبير في الهندسة الديناميكية. حوّل الوصف التالي إلى إنشاء هندسي دقيق: "${prompt}".
+
+    القواعد:
+    1. استخدم إحداثيات ديكارتية بين -10 و 10 للنقاط الحرة فقط (type = "point").
+    2. كل عنصر آخر يُعرّف عبر refs (معرّفات عناصر سابقة) حتى تبقى القيود صحيحة عند تحريك النقاط:
+       - midpoint: [A, B]
+       - intersection: [line/circle, line/circle] مع x, y تقريبية لاختيار نقطة التقاطع الصحيحة
+       - segment / line / ray: [A, B]
+       - perpendicular / parallel: [line, point]
+       - circle: [center, throughPoint] أو [center] مع radius
+       - polygon: [A, B, C, ...]
+       - angle: [A, vertex, C] لقياس الزاوية
+       - length: [A, B] لقياس الطول
+    3. استخدم معرّفات قصيرة فريدة (A, B, AB, c1...) وضع label للنقاط بأحرف لاتينية.
+    4. title يكون باللغة العربية.
+  `;
+
+  return callModel('geometry', (model, signal) => getProvider().generateJson<GeometryConstruction>({
+    feature: 'geometry',
+    model,
+    parts: [{ text: constructionPrompt }],
+    schema: GEOMETRY_SCHEMA,
+    signal,
+  }));
+};
+
+// Verdict on a student's answer or step
+const GRADE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    correct: { type: Type.BOOLEAN },
+    feedback: { type: Type.STRING },
+  },
+  required: ['correct', 'feedback'],
+};
+
+const SOLVE_PROMPT = `
+  حل المسألة الرياضية في الصورة خطوة بخطوة باللغة العربية.
+  **مهم جداً للتنسيق:**
+  1. أي معادلة رياضية، كسر، جذر، أو رقم متغير يجب أن يكتب بصيغة **LaTeX**.
+  2. للمعادلات الكبيرة (مثل الكسور)، ضعها في سطر منفصل محاطة بـ $$ (مثال: $$ \\frac{x}{y} $$).
+  3. للرموز الصغيرة داخل النص، حطها بـ $ (مثال: $x$).
+  4. لا تستخدم النص العادي للكسور أبداً (لا تكتب 1/2 بل اكتب $ \\frac{1}{2} $).
+  5. اجعل الشرح بالعربي، ولكن الرياضيات بالإنجليزية داخل الـ LaTeX لضمان عدم تداخل الحروف.
+`;
+
+export const solveMathProblem = async (imageBase64: string, prompt: string, mimeType = 'image/jpeg') => {
+  const { text } = await callModel('solve', (model, signal) => getProvider().generateText({
+    feature: 'solve',
+    model,
+    parts: [
+      // Text-only questions have no image to attach
+      ...(imageBase64 ? [{
+        inlineData: {
+          mimeType: mimeType,
+          data: imageBase64,
+        },
+      }] : []),
+      { text: prompt || SOLVE_PROMPT },
+    ],
+    signal,
+  }));
+  return text;
 };
 
-export const solveMathProblem = async (imageBase64: string, prompt: string) => {
-  const ai = getAiClient();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview', 
-    contents: {
+// Guided variant of solveMathProblem: the solution as steps for the student to
+// work through, each with a hint and the intermediate result it should reach
+export const solveMathProblemGuided = async (
+  imageBase64: string,
+  problem: string,
+  mimeType = 'image/jpeg',
+  signal?: AbortSignal
+): Promise<Pick<GuidedSolution, 'problem' | 'steps'>> => {
+  const prompt = `
+    ${problem ? `المسألة: ${problem}` : 'المسألة هي الظاهرة في الصورة.'}
+    حلّها خطوة بخطوة لطالب سيكتب كل خطوة بنفسه قبل أن يرى الخطوة الرسمية.
+
+    - problem: نص المسألة بالعربية مع المعادلات بـ LaTeX بين $.
+    - steps: من 3 إلى 8 خطوات بالترتيب، ولكل خطوة:
+      - statement: ما المطلوب في هذه الخطوة بالعربية (مثل "حلّل الطرف الأيسر إلى عوامل") دون ذكر ناتجها.
+      - hint: تلميح يساعد دون أن يكشف الناتج.
+      - result: الناتج الوسيط المتوقع بـ LaTeX بدون علامات $ (معادلة أو تعبير أو قيمة).
+      - explanation: شرح الخطوة كما يكتبه المعلم، بالعربية مع LaTeX بين $ أو $$.
+    ناتج الخطوة الأخيرة هو الإجابة النهائية.
+  `;
+
+  return callModel('solve', async (model, callSignal) => {
+    const solution = await getProvider().generateJson<Pick<GuidedSolution, 'problem' | 'steps'>>({
+      feature: 'solve',
+      model,
       parts: [
-        {
-          inlineData: {
-            mimeType: 'image/jpeg', 
-            data: imageBase64,
+        ...(imageBase64 ? [{ inlineData: { mimeType, data: imageBase64 } }] : []),
+        { text: prompt },
+      ],
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          problem: { type: Type.STRING },
+          steps: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                statement: { type: Type.STRING },
+                hint: { type: Type.STRING },
+                result: { type: Type.STRING },
+                explanation: { type: Type.STRING },
+              },
+              required: ['statement', 'hint', 'result', 'explanation'],
+            },
           },
         },
-        {
-          text: prompt || `
-            حل المسألة الرياضية في الصورة خطوة بخطوة باللغة العربية.
-            **مهم جداً للتنسيق:**
-            1. أي معادلة رياضية، كسر، جذر، أو رقم متغير يجب أن يكتب بصيغة **LaTeX**.
-            2. للمعادلات الكبيرة (مثل الكسور)، ضعها في سطر منفصل محاطة بـ $$ (مثال: $$ \\frac{x}{y} $$).
-            3. للرموز الصغيرة داخل النص، حطها بـ $ (مثال: $x$).
-            4. لا تستخدم النص العادي للكسور أبداً (لا تكتب 1/2 بل اكتب $ \\frac{1}{2} $).
-            5. اجعل الشرح بالعربي، ولكن الرياضيات بالإنجليزية داخل الـ LaTeX لضمان عدم تداخل الحروف.
-          `,
+        required: ['problem', 'steps'],
+      },
+      signal: callSignal,
+    });
+    const steps = (solution.steps || []).filter(s => s.statement && s.result);
+    if (steps.length === 0) throw new ModelError('invalid-response', { model });
+    return { problem: solution.problem || problem, steps };
+  }, signal);
+};
+
+// Judges a step the student wrote in a guided solution; an equivalent or
+// differently ordered but valid step counts
+export const checkSolutionStep = async (
+  solution: GuidedSolution,
+  index: number,
+  response: string,
+  signal?: AbortSignal
+): Promise<{ correct: boolean; feedback: string }> => {
+  const step = solution.steps[index];
+  const previous = solution.steps.slice(0, index).map((s, i) => `${i + 1}. ${s.statement}: $${s.result}$`).join('\n');
+  const prompt = `
+    طالب يحل المسألة التالية خطوة بخطوة.
+
+    المسألة: ${solution.problem}
+    ${previous ? `الخطوات السابقة:\n${previous}` : 'هذه هي الخطوة الأولى.'}
+    المطلوب في هذه الخطوة: ${step.statement}
+    الناتج المتوقع: ${step.result}
+    ما كتبه الطالب: ${response}
+
+    correct: صحيحة إذا وصل الطالب إلى الناتج المتوقع أو إلى ما يكافئه رياضياً، أو خطا خطوة سليمة تؤدي إليه.
+    feedback: جملة قصيرة بالعربية مع LaTeX بين $؛ عند الخطأ وضّح موضعه دون أن تكشف الناتج المتوقع.
+  `;
+
+  return callModel('practice', (model, callSignal) => getProvider().generateJson<{ correct: boolean; feedback: string }>({
+    feature: 'practice',
+    model,
+    parts: [{ text: prompt }],
+    schema: GRADE_SCHEMA,
+    signal: callSignal,
+  }), signal);
+};
+
+// Problems on one batch of pages, numbered within the batch
+const detectInBatch = async (pages: UploadedPage[]): Promise<DetectedProblem[]> => {
+  const problems = await callModel('detect', (model, signal) => getProvider().generateJson<DetectedProblem[]>({
+    feature: 'detect',
+    model,
+    parts: [
+      ...pages.map(page => ({ inlineData: { mimeType: page.mimeType, data: page.data } })),
+      {
+        text: `
+          الصور المرفقة (${pages.length}) هي صفحات واجب رياضيات، مرقمة من 0 بترتيب إرفاقها.
+          استخرج كل مسألة مستقلة تظهر فيها بالترتيب.
+          لكل مسألة أعد: page (رقم الصورة التي تظهر فيها) و statement (نص المسألة مع المعادلات بصيغة LaTeX).
+          إذا كانت المسألة تحتوي على فروع (أ، ب، ج) فاعتبر كل فرع مسألة مستقلة.
+        `,
+      },
+    ],
+    schema: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          page: { type: Type.INTEGER },
+          statement: { type: Type.STRING },
         },
-      ],
+        required: ['page', 'statement'],
+      },
     },
-  });
-  return response.text;
+    signal,
+  }));
+
+  return problems.filter(p => p.page >= 0 && p.page < pages.length && p.statement);
 };
 
-export const quickExplain = async (prompt: string, useSearch: boolean) => {
-  const ai = getAiClient();
-  const arabicPrompt = `أجب باللغة العربية. استخدم LaTeX للمعادلات الرياضية ($ للمعادلات الصغيرة و $$ للكبيرة): ${prompt}`;
-  
-  if (useSearch) {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: arabicPrompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
-    
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources = groundingChunks
-      .map((c: any) => c.web ? { uri: c.web.uri, title: c.web.title } : null)
-      .filter((s: any) => s !== null);
-
-    return { text: response.text, sources };
-  } else {
-    const response = await ai.models.generateContent({
-      model: 'gemini-flash-lite-latest',
-      contents: arabicPrompt,
-    });
-    return { text: response.text, sources: [] };
+// The pages go in batches that stay under the proxy's request cap, leaving room for the prompt
+const DETECT_BATCH_BYTES = PROXY_LIMITS.maxBodyBytes * 0.8;
+
+// Lists the separate problems visible across all uploaded pages
+export const detectProblems = async (pages: UploadedPage[]): Promise<DetectedProblem[]> => {
+  const batches: UploadedPage[][] = [];
+  let size = 0;
+  for (const page of pages) {
+    const current = batches[batches.length - 1];
+    if (current && size + page.data.length <= DETECT_BATCH_BYTES) {
+      current.push(page);
+      size += page.data.length;
+    } else {
+      batches.push([page]);
+      size = page.data.length;
+    }
+  }
+
+  const problems: DetectedProblem[] = [];
+  let offset = 0;
+  for (const batch of batches) {
+    const found = await detectInBatch(batch);
+    problems.push(...found.map(p => ({ ...p, page: p.page + offset })));
+    offset += batch.length;
   }
+  return problems;
 };
 
+const explainRequest = (model: string, prompt: string, useSearch: boolean, signal?: AbortSignal): TextRequest => ({
+  feature: useSearch ? 'search' : 'fast',
+  model,
+  parts: [{ text: `أجب باللغة العربية. استخدم LaTeX للمعادلات الرياضية ($ للمعادلات الصغيرة و $$ للكبيرة): ${prompt}` }],
+  search: useSearch,
+  signal,
+});
+
+export const quickExplain = async (prompt: string, useSearch: boolean) => {
+  const { text, sources } = await callModel(useSearch ? 'search' : 'fast', (model, signal) =>
+    getProvider().generateText(explainRequest(model, prompt, useSearch, signal))
+  );
+  return { text, sources };
+};
+
+// Streaming variant of quickExplain; grounding sources are returned at the end
+export const streamQuickExplain = async (
+  prompt: string,
+  useSearch: boolean,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+) => {
+  const { text, sources } = await callModel(useSearch ? 'search' : 'fast', (model, callSignal) =>
+    getProvider().streamText(explainRequest(model, prompt, useSearch, callSignal), result => onText(result.text)),
+    signal
+  );
+  return { text, sources };
+};
+
+const SLIDE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    bullets: { type: Type.ARRAY, items: { type: Type.STRING } },
+    examples: { type: Type.ARRAY, items: { type: Type.STRING } },
+    imageDescription: { type: Type.STRING },
+    speakerNotes: { type: Type.STRING }
+  },
+  required: ['title', 'bullets', 'examples', 'imageDescription', 'speakerNotes'],
+};
+
+// Models sometimes leave a field out despite the schema; the review and the builders expect every one
+const normalizeSlide = (slide: Partial<PresentationSlide>): PresentationSlide => ({
+  ...slide,
+  title: slide.title ?? '',
+  bullets: Array.isArray(slide.bullets) ? slide.bullets : [],
+  examples: Array.isArray(slide.examples) ? slide.examples : [],
+  imageDescription: slide.imageDescription ?? '',
+  speakerNotes: slide.speakerNotes ?? '',
+});
+
 export const generatePresentationContent = async (topic: string, slideCount: number): Promise<PresentationData> => {
-  const ai = getAiClient();
-  
   const prompt = `
     أنت صانع محتوى تعليمي خبير.
     قم بإنشاء عرض تقديمي حول الموضوع التالي: "${topic}".
     يجب أن يحتوي العرض على ${slideCount} شرائح محتوى (غير شامل شريحة العنوان).
-    
+
     المتطلبات:
     1. المحتوى يجب أن يكون باللغة العربية، دقيقاً وغنياً بالمعلومات.
     2. imageDescription يجب أن يكون وصفاً مفصلاً باللغة الإنجليزية للمساعدة في توليد صورة توضيحية.
@@ -178,112 +403,189 @@ export const generatePresentationContent = async (topic: string, slideCount: num
     }
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            slides: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING },
-                  bullets: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  examples: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  imageDescription: { type: Type.STRING },
-                  speakerNotes: { type: Type.STRING }
-                }
-              }
-            }
+  return callModel('presentation', async (model, signal) => {
+    const data = await getProvider().generateJson<PresentationData>({
+      feature: 'presentation',
+      model,
+      parts: [{ text: prompt }],
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          slides: {
+            type: Type.ARRAY,
+            items: SLIDE_SCHEMA
           }
-        }
-      }
+        },
+        required: ['title', 'slides'],
+      },
+      signal,
     });
+    if (!Array.isArray(data?.slides) || data.slides.length === 0) throw new ModelError('invalid-response', { model });
+    return { ...data, title: data.title ?? topic, slides: data.slides.map(normalizeSlide) };
+  });
+};
 
-    const jsonStr = response.text;
-    return JSON.parse(jsonStr) as PresentationData;
+// Rewrites one slide during outline review, keeping it consistent with its neighbours
+export const regenerateSlide = async (data: PresentationData, index: number): Promise<PresentationSlide> => {
+  const outline = data.slides.map((s, i) => `${i + 1}. ${s.title}`).join('\n');
 
-  } catch (e) {
-    console.error("Presentation generation error:", e);
-    throw new Error("فشل في توليد محتوى العرض التقديمي. تأكد من صحة المفتاح وإعادة نشر الموقع (Redeploy).");
-  }
+  const prompt = `
+    أنت صانع محتوى تعليمي خبير. هذا مخطط عرض تقديمي بعنوان "${data.title}":
+    ${outline}
+
+    أعد كتابة الشريحة رقم ${index + 1} ("${data.slides[index].title}") بصياغة جديدة أوضح وأدق،
+    دون تكرار محتوى الشرائح الأخرى.
+    المحتوى باللغة العربية، و imageDescription وصف مفصل باللغة الإنجليزية لصورة توضيحية.
+  `;
+
+  return callModel('presentation', async (model, signal) => normalizeSlide(await getProvider().generateJson<PresentationSlide>({
+    feature: 'presentation',
+    model,
+    parts: [{ text: prompt }],
+    schema: SLIDE_SCHEMA,
+    signal,
+  })));
 };
 
-export const generateSlideImage = async (prompt: string): Promise<string | null> => {
-  const ai = getAiClient();
+// Rate-limit, server and abort errors are thrown so the job scheduler can retry or stop;
+// anything else yields no image
+export const generateSlideImage = async (prompt: string, signal?: AbortSignal): Promise<string | null> => {
   const imagePrompt = `Educational illustration, clean, academic, white background. ${prompt}`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: imagePrompt }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9",
-          imageSize: "1K", 
-        },
-      },
-    });
-    return extractImageFromResponse(response);
-  } catch (error: any) {
-    if (error.status === 403 || error.message?.includes('PERMISSION_DENIED') || error.status === 404) {
-      console.warn("Falling back to gemini-2.5-flash-image for slide image.");
-      try {
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash-image',
-          contents: {
-            parts: [{ text: imagePrompt }],
-          },
-          config: {
-            imageConfig: {
-              aspectRatio: "16:9",
-            },
-          },
-        });
-        return extractImageFromResponse(response);
-      } catch (fallbackError) {
-        console.error("Fallback image gen failed", fallbackError);
-        return null;
-      }
-    }
+    return await callModel('slide-image', async (model, callSignal) => {
+      const image = await getProvider().generateImage({
+        feature: 'slide-image',
+        model,
+        prompt: imagePrompt,
+        aspectRatio: "16:9",
+        imageSize: "1K",
+        signal: callSignal,
+      });
+      if (!image) throw new ModelError('empty-image', { model });
+      return image;
+    }, signal);
+  } catch (error) {
+    if (isRetryableError(error) || isAbortError(error)) throw error;
     console.error("Image generation error:", error);
     return null;
   }
 };
 
-export const generateSpeech = async (text: string): Promise<ArrayBuffer> => {
-  const ai = getAiClient();
-  if (!text || text.trim().length === 0) throw new Error("Text is empty");
+const DIFFICULTY_PROMPTS: Record<PracticeDifficulty, string> = {
+  easy: 'سهلة: تطبيق مباشر لقاعدة واحدة',
+  medium: 'متوسطة: تحتاج خطوتين أو ثلاثاً',
+  hard: 'صعبة: تجمع أكثر من فكرة وتحتاج تفكيراً',
+};
+
+// Problems with hidden answers for a quiz; answers are graded by practiceGrading where possible
+export const generatePracticeProblems = async (
+  topic: string,
+  difficulty: PracticeDifficulty,
+  count: number
+): Promise<PracticeProblem[]> => {
+  const prompt = `
+    أنت معلم رياضيات تعد اختباراً قصيراً حول: "${topic}".
+    اكتب ${count} مسائل متنوعة بمستوى ${DIFFICULTY_PROMPTS[difficulty]}.
+
+    لكل مسألة:
+    - statement: نص المسألة بالعربية، والمعادلات بـ LaTeX بين $ أو $$.
+    - answerKind: "numeric" إذا كان الجواب عدداً، "expression" إذا كان تعبيراً جبرياً أو قيماً لمتغير، "proof" للبراهين والإثباتات.
+    - answer: الجواب النهائي بـ LaTeX بدون علامات $ (مثل \\frac{3}{4} أو 2x+1 أو x = 2, x = 3). للبراهين اكتب برهاناً مختصراً.
+    - hints: تلميحان أو ثلاثة متدرجة، لا يكشف أيها الجواب.
+    - solution: حل مفصل خطوة بخطوة بالعربية مع LaTeX.
+    فضّل المسائل ذات الجواب العددي أو الجبري، واجعل كل جواب وحيداً وقابلاً للتحقق.
+  `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-preview-tts',
-    contents: { parts: [{ text: text.substring(0, 500) }] }, 
-    config: {
-      responseModalities: ['AUDIO'], 
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Puck' }, 
+  return callModel('practice', async (model, signal) => {
+    const problems = await getProvider().generateJson<PracticeProblem[]>({
+      feature: 'practice',
+      model,
+      parts: [{ text: prompt }],
+      schema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            statement: { type: Type.STRING },
+            answerKind: { type: Type.STRING, enum: ['numeric', 'expression', 'proof'] },
+            answer: { type: Type.STRING },
+            hints: { type: Type.ARRAY, items: { type: Type.STRING } },
+            solution: { type: Type.STRING },
+          },
+          required: ['statement', 'answerKind', 'answer', 'hints', 'solution'],
         },
       },
-    },
+      signal,
+    });
+    const usable = problems.filter(p => p.statement && p.answer).map(p => ({ ...p, hints: p.hints || [] }));
+    if (usable.length === 0) throw new ModelError('invalid-response', { model });
+    return usable;
   });
+};
 
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) throw new Error("No audio generated");
-  
-  const binaryString = window.atob(base64Audio);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes.buffer;
-};
\ No newline at end of file
+// Grades what practiceGrading can't: proofs, and answers written in words
+export const gradePracticeAnswer = async (
+  problem: PracticeProblem,
+  response: string,
+  signal?: AbortSignal
+): Promise<{ correct: boolean; feedback: string }> => {
+  const prompt = `
+    صحّح إجابة طالب عن المسألة التالية.
+
+    المسألة: ${problem.statement}
+    الجواب الصحيح: ${problem.answer}
+    إجابة الطالب: ${response}
+
+    correct: صحيحة إذا كانت مكافئة رياضياً للجواب الصحيح، وللبراهين إذا كان الاستدلال سليماً وكاملاً ولو اختلف عن البرهان المرفق.
+    feedback: جملة أو جملتان بالعربية للطالب مع LaTeX بين $؛ عند الخطأ وضّح موضعه دون أن تعطي الحل كاملاً.
+  `;
+
+  return callModel('practice', (model, callSignal) => getProvider().generateJson<{ correct: boolean; feedback: string }>({
+    feature: 'practice',
+    model,
+    parts: [{ text: prompt }],
+    schema: GRADE_SCHEMA,
+    signal: callSignal,
+  }), signal);
+};
+
+const TRANSCRIBE_INSTRUCTION = `أنت تفرّغ أسئلة رياضيات منطوقة بالعربية (وقد تتخللها كلمات إنجليزية).
+اكتب ما قاله الطالب كما هو، لكن حوّل كل تعبير رياضي منطوق إلى LaTeX بين علامتي $:
+- "س تربيع" ← $x^2$، "ص" ← $y$، "ع" ← $z$، "ن" ← $n$.
+- "واحد على اثنين" ← $\\frac{1}{2}$، "جذر س" ← $\\sqrt{x}$، "جا س" ← $\\sin x$، "تكامل" ← $\\int$.
+- الأعداد بالأرقام الإنجليزية داخل LaTeX.
+أعد النص المفرّغ فقط، دون شرح أو إجابة عن السؤال. إذا لم يكن في التسجيل كلام مفهوم فأعد نصاً فارغاً.`;
+
+// Turns a recorded question (WAV, see voiceInput) into text with its math in LaTeX
+export const transcribeSpeech = async (audio: Blob, signal?: AbortSignal): Promise<string> => {
+  const data = await fileToBase64(audio);
+  return callModel('transcribe', async (model, callSignal) => {
+    const { text } = await getProvider().generateText({
+      feature: 'transcribe',
+      model,
+      parts: [
+        { inlineData: { mimeType: 'audio/wav', data } },
+        { text: 'فرّغ هذا التسجيل.' },
+      ],
+      systemInstruction: TRANSCRIBE_INSTRUCTION,
+      signal: callSignal,
+    });
+    return text.trim();
+  }, signal);
+};
+
+// Long texts should be split first (see mathSpeech.splitSpeechChunks);
+// the speech models read one short passage per call.
+export const generateSpeech = async (text: string, voice = 'Puck', signal?: AbortSignal): Promise<ArrayBuffer> => {
+  if (!text || text.trim().length === 0) throw new Error("Text is empty");
+
+  return callModel('speech', (model, callSignal) => getProvider().generateSpeech({
+    feature: 'speech',
+    model,
+    text,
+    voice,
+    signal: callSignal,
+  }), signal);
+};
@@ -0,0 +1,184 @@
+import { GeometryConstruction, GeometryElement } from "../types";
+
+// --- Dynamic Geometry Solver ---
+// Resolves a construction into coordinates. Only free points carry positions;
+// everything else is recomputed from its references, so dragging a free point
+// keeps midpoints, intersections, perpendiculars, etc. on their constraints.
+
+export interface Vec {
+  x: number;
+  y: number;
+}
+
+export interface ResolvedLine {
+  kind: 'segment' | 'line' | 'ray';
+  a: Vec;
+  b: Vec;
+}
+
+export interface ResolvedCircle {
+  center: Vec;
+  radius: number;
+}
+
+export interface ResolvedGeometry {
+  points: Record<string, Vec>;
+  lines: Record<string, ResolvedLine>;
+  circles: Record<string, ResolvedCircle>;
+  polygons: Record<string, Vec[]>;
+  angles: Record<string, { a: Vec; vertex: Vec; c: Vec; degrees: number }>;
+  lengths: Record<string, { a: Vec; b: Vec; value: number }>;
+}
+
+const sub = (p: Vec, q: Vec): Vec => ({ x: p.x - q.x, y: p.y - q.y });
+const add = (p: Vec, q: Vec): Vec => ({ x: p.x + q.x, y: p.y + q.y });
+const scale = (p: Vec, k: number): Vec => ({ x: p.x * k, y: p.y * k });
+const cross = (p: Vec, q: Vec) => p.x * q.y - p.y * q.x;
+const dot = (p: Vec, q: Vec) => p.x * q.x + p.y * q.y;
+export const distance = (p: Vec, q: Vec) => Math.hypot(p.x - q.x, p.y - q.y);
+
+const intersectLines = (l1: ResolvedLine, l2: ResolvedLine): Vec[] => {
+  const d1 = sub(l1.b, l1.a);
+  const d2 = sub(l2.b, l2.a);
+  const denom = cross(d1, d2);
+  if (Math.abs(denom) < 1e-12) return [];
+  const t = cross(sub(l2.a, l1.a), d2) / denom;
+  return [add(l1.a, scale(d1, t))];
+};
+
+const intersectLineCircle = (line: ResolvedLine, circle: ResolvedCircle): Vec[] => {
+  const d = sub(line.b, line.a);
+  const f = sub(line.a, circle.center);
+  const a = dot(d, d);
+  const b = 2 * dot(f, d);
+  const c = dot(f, f) - circle.radius * circle.radius;
+  const disc = b * b - 4 * a * c;
+  if (disc < 0 || a === 0) return [];
+  const root = Math.sqrt(disc);
+  return [(-b - root) / (2 * a), (-b + root) / (2 * a)].map(t => add(line.a, scale(d, t)));
+};
+
+const intersectCircles = (c1: ResolvedCircle, c2: ResolvedCircle): Vec[] => {
+  const d = distance(c1.center, c2.center);
+  if (d === 0 || d > c1.radius + c2.radius || d < Math.abs(c1.radius - c2.radius)) return [];
+  const a = (c1.radius ** 2 - c2.radius ** 2 + d * d) / (2 * d);
+  const h = Math.sqrt(Math.max(c1.radius ** 2 - a * a, 0));
+  const unit = scale(sub(c2.center, c1.center), 1 / d);
+  const base = add(c1.center, scale(unit, a));
+  const normal = { x: -unit.y, y: unit.x };
+  return [add(base, scale(normal, h)), sub(base, scale(normal, h))];
+};
+
+const angleDegrees = (a: Vec, vertex: Vec, c: Vec) => {
+  const u = sub(a, vertex);
+  const v = sub(c, vertex);
+  const cos = dot(u, v) / (Math.hypot(u.x, u.y) * Math.hypot(v.x, v.y));
+  return (Math.acos(Math.min(1, Math.max(-1, cos))) * 180) / Math.PI;
+};
+
+// Resolves one element if its references are ready; returns false otherwise
+const resolveElement = (el: GeometryElement, out: ResolvedGeometry): boolean => {
+  const refs = el.refs || [];
+  const pts = refs.map(r => out.points[r]);
+  const allPoints = pts.length > 0 && pts.every(Boolean);
+
+  switch (el.type) {
+    case 'point':
+      out.points[el.id] = { x: el.x ?? 0, y: el.y ?? 0 };
+      return true;
+    case 'midpoint':
+      if (!allPoints || pts.length < 2) return false;
+      out.points[el.id] = scale(add(pts[0], pts[1]), 0.5);
+      return true;
+    case 'segment':
+    case 'line':
+    case 'ray':
+      if (!allPoints || pts.length < 2) return false;
+      out.lines[el.id] = { kind: el.type, a: pts[0], b: pts[1] };
+      return true;
+    case 'perpendicular':
+    case 'parallel': {
+      const base = out.lines[refs[0]];
+      const through = out.points[refs[1]];
+      if (!base || !through) return false;
+      const dir = sub(base.b, base.a);
+      const newDir = el.type === 'parallel' ? dir : { x: -dir.y, y: dir.x };
+      out.lines[el.id] = { kind: 'line', a: through, b: add(through, newDir) };
+      return true;
+    }
+    case 'circle': {
+      const center = out.points[refs[0]];
+      if (!center) return false;
+      if (refs[1]) {
+        const through = out.points[refs[1]];
+        if (!through) return false;
+        out.circles[el.id] = { center, radius: distance(center, through) };
+      } else {
+        out.circles[el.id] = { center, radius: el.radius ?? 1 };
+      }
+      return true;
+    }
+    case 'intersection': {
+      const [first, second] = refs;
+      const l1 = out.lines[first], l2 = out.lines[second];
+      const c1 = out.circles[first], c2 = out.circles[second];
+      if (!(l1 || c1) || !(l2 || c2)) return false;
+      const solutions = l1 && l2 ? intersectLines(l1, l2)
+        : l1 && c2 ? intersectLineCircle(l1, c2)
+        : c1 && l2 ? intersectLineCircle(l2, c1)
+        : intersectCircles(c1, c2);
+      if (solutions.length === 0) return false;
+      // With two solutions, keep the one nearest the hinted (x, y)
+      const hint = { x: el.x ?? 0, y: el.y ?? 0 };
+      out.points[el.id] = solutions.reduce((best, p) => distance(p, hint) < distance(best, hint) ? p : best);
+      return true;
+    }
+    case 'polygon':
+      if (!allPoints || pts.length < 3) return false;
+      out.polygons[el.id] = pts;
+      return true;
+    case 'angle':
+      if (!allPoints || pts.length < 3) return false;
+      out.angles[el.id] = { a: pts[0], vertex: pts[1], c: pts[2], degrees: angleDegrees(pts[0], pts[1], pts[2]) };
+      return true;
+    case 'length':
+      if (!allPoints || pts.length < 2) return false;
+      out.lengths[el.id] = { a: pts[0], b: pts[1], value: distance(pts[0], pts[1]) };
+      return true;
+    default:
+      return true;
+  }
+};
+
+// Elements may reference ones declared later, so keep passing until nothing changes
+export const resolveConstruction = (construction: GeometryConstruction): ResolvedGeometry => {
+  const out: ResolvedGeometry = { points: {}, lines: {}, circles: {}, polygons: {}, angles: {}, lengths: {} };
+  let pending = construction.elements;
+  while (pending.length > 0) {
+    const remaining = pending.filter(el => !resolveElement(el, out));
+    if (remaining.length === pending.length) break;
+    pending = remaining;
+  }
+  return out;
+};
+
+// Bounding box of every resolved point and circle, used to frame the canvas
+export const constructionBounds = (resolved: ResolvedGeometry) => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  Object.values(resolved.points).forEach(p => { xs.push(p.x); ys.push(p.y); });
+  Object.values(resolved.circles).forEach(c => {
+    xs.push(c.center.x - c.radius, c.center.x + c.radius);
+    ys.push(c.center.y - c.radius, c.center.y + c.radius);
+  });
+  if (xs.length === 0) return { xMin: -5, xMax: 5, yMin: -5, yMax: 5 };
+  return { xMin: Math.min(...xs), xMax: Math.max(...xs), yMin: Math.min(...ys), yMax: Math.max(...ys) };
+};
+
+// Moves a free point; dependent elements follow on the next resolve
+export const moveFreePoint = (construction: GeometryConstruction, id: string, position: Vec): GeometryConstruction => ({
+  ...construction,
+  elements: construction.elements.map(el =>
+    el.id === id && el.type === 'point' ? { ...el, x: position.x, y: position.y } : el
+  ),
+});
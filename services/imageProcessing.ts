@@ -0,0 +1,214 @@
+import { UploadedPage } from "../types";
+
+// --- Scanned Homework Preprocessing ---
+// Canvas-only cleanup of phone photos before they are sent to the solver:
+// crop, rotate/deskew, contrast or threshold, and downscaling.
+
+export interface CropRect {
+  // Fractions (0..1) of the original image
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessingOptions {
+  crop: CropRect;
+  rotation: number; // Degrees, clockwise; quarter turns plus fine deskew
+  contrast: number; // 1 = unchanged
+  threshold: boolean; // Black & white via Otsu's method
+  maxSize: number; // Longest side in pixels
+}
+
+export const DEFAULT_PROCESSING: ProcessingOptions = {
+  crop: { x: 0, y: 0, width: 1, height: 1 },
+  rotation: 0,
+  contrast: 1,
+  threshold: false,
+  maxSize: 1600,
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
+};
+
+export const pageToDataUrl = (page: UploadedPage) => `data:${page.mimeType};base64,${page.data}`;
+
+export const dataUrlToPage = (dataUrl: string, label: string): UploadedPage => ({
+  data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+  mimeType: dataUrl.slice(5, dataUrl.indexOf(';')),
+  label,
+});
+
+// Decoded size of a base64 payload
+export const base64Bytes = (base64: string) => Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const toGray = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Otsu's method: the grey level that best separates ink from paper
+const otsuThreshold = (histogram: number[], total: number) => {
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let bestVariance = 0;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+// Greyscale, then either a contrast stretch around mid-grey or a hard threshold.
+// Shadows are evened out first by stretching between the 2nd and 98th percentile.
+const enhance = (ctx: CanvasRenderingContext2D, width: number, height: number, options: ProcessingOptions) => {
+  if (options.contrast === 1 && !options.threshold) return;
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(toGray(data, i))]++;
+
+  const total = width * height;
+  const percentile = (p: number) => {
+    let count = 0;
+    for (let v = 0; v < 256; v++) {
+      count += histogram[v];
+      if (count >= total * p) return v;
+    }
+    return 255;
+  };
+  const low = percentile(0.02);
+  const high = Math.max(percentile(0.98), low + 1);
+  const cutoff = otsuThreshold(histogram, total);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = toGray(data, i);
+    let value: number;
+    if (options.threshold) {
+      value = gray > cutoff ? 255 : 0;
+    } else {
+      const stretched = ((gray - low) / (high - low)) * 255;
+      value = (stretched - 128) * options.contrast + 128;
+    }
+    data[i] = data[i + 1] = data[i + 2] = value;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+export interface ProcessedImage {
+  dataUrl: string;
+  base64: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export const processImage = (img: HTMLImageElement, options: ProcessingOptions): ProcessedImage => {
+  const { crop } = options;
+  const sx = crop.x * img.naturalWidth;
+  const sy = crop.y * img.naturalHeight;
+  const sw = Math.max(1, crop.width * img.naturalWidth);
+  const sh = Math.max(1, crop.height * img.naturalHeight);
+
+  // Rotated bounding box, then scaled so its longest side fits maxSize
+  const radians = (options.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const rotatedW = sw * cos + sh * sin;
+  const rotatedH = sw * sin + sh * cos;
+  const factor = Math.min(1, options.maxSize / Math.max(rotatedW, rotatedH));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(rotatedW * factor);
+  canvas.height = Math.round(rotatedH * factor);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(radians);
+  ctx.scale(factor, factor);
+  ctx.drawImage(img, sx, sy, sw, sh, -sw / 2, -sh / 2, sw, sh);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  enhance(ctx, canvas.width, canvas.height, options);
+
+  // Black & white pages compress far better as PNG
+  const mimeType = options.threshold ? 'image/png' : 'image/jpeg';
+  const dataUrl = canvas.toDataURL(mimeType, 0.85);
+  const base64 = dataUrl.split(',')[1];
+  return { dataUrl, base64, width: canvas.width, height: canvas.height, bytes: base64Bytes(base64) };
+};
+
+// Projection-profile deskew: text lines give the sharpest row histogram when
+// horizontal, so try small angles and keep the one with the highest variance.
+export const estimateSkew = (img: HTMLImageElement, crop: CropRect = DEFAULT_PROCESSING.crop): number => {
+  const size = 400;
+  const sw = crop.width * img.naturalWidth;
+  const sh = crop.height * img.naturalHeight;
+  const factor = Math.min(1, size / Math.max(sw, sh));
+  const width = Math.max(1, Math.round(sw * factor));
+  const height = Math.max(1, Math.round(sh * factor));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, crop.x * img.naturalWidth, crop.y * img.naturalHeight, sw, sh, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(toGray(data, i))]++;
+  const cutoff = otsuThreshold(histogram, width * height);
+
+  const ink: [number, number][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (toGray(data, (y * width + x) * 4) < cutoff) ink.push([x - width / 2, y - height / 2]);
+    }
+  }
+  if (ink.length < 50) return 0;
+
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -15; angle <= 15; angle += 0.5) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Map<number, number>();
+    for (const [x, y] of ink) {
+      const row = Math.round(y * cos - x * sin);
+      rows.set(row, (rows.get(row) || 0) + 1);
+    }
+    let score = 0;
+    rows.forEach(count => { score += count * count; });
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  // Rotating the image by the opposite angle levels the text
+  return -bestAngle;
+};
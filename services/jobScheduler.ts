@@ -0,0 +1,124 @@
+import { JobStatus } from "../types";
+
+// --- Job Scheduler ---
+// Runs a batch of API calls with a concurrency cap, retrying rate-limit and
+// server errors with exponential backoff. Aborting the signal stops new jobs
+// and cancels the waits between retries; jobs already in flight get the same signal.
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number; // Doubled on every attempt, plus jitter
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export interface SchedulerOptions extends Omit<RetryOptions, 'onRetry'> {
+  concurrency: number;
+  onProgress?: (statuses: JobStatus[]) => void;
+}
+
+export type JobResult<R> =
+  | { status: 'done'; value: R }
+  | { status: 'failed'; error: unknown }
+  | { status: 'cancelled' };
+
+export const DEFAULT_RETRY: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+export const DEFAULT_SCHEDULER: SchedulerOptions = {
+  ...DEFAULT_RETRY,
+  concurrency: 3,
+};
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+// 429 and 5xx are worth another try; bad requests and permission errors are not
+export const isRetryableError = (error: any) => {
+  if (!error || isAbortError(error)) return false;
+  // Typed errors (ModelError) already know
+  if (typeof error.retryable === 'boolean') return error.retryable;
+  const status = Number(error.status ?? error.code);
+  if (status === 429 || (status >= 500 && status < 600)) return true;
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|Failed to fetch/i.test(error.message || '');
+};
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const withRetry = async <R>(task: (signal?: AbortSignal) => Promise<R>, options: RetryOptions = DEFAULT_RETRY): Promise<R> => {
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) throw abortError();
+    try {
+      return await task(options.signal);
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) throw error;
+      const delayMs = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      options.onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
+
+export const runJobs = async <T, R>(
+  items: T[],
+  task: (item: T, index: number, signal?: AbortSignal) => Promise<R>,
+  options: SchedulerOptions = DEFAULT_SCHEDULER
+): Promise<JobResult<R>[]> => {
+  const { concurrency, onProgress, signal } = options;
+  const statuses: JobStatus[] = items.map(() => 'pending');
+  const results: JobResult<R>[] = items.map(() => ({ status: 'cancelled' }));
+
+  const setStatus = (index: number, status: JobStatus) => {
+    statuses[index] = status;
+    onProgress?.([...statuses]);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      setStatus(index, 'running');
+      try {
+        const value = await withRetry(s => task(items[index], index, s), {
+          ...options,
+          onRetry: () => setStatus(index, 'retrying'),
+        });
+        results[index] = { status: 'done', value };
+        setStatus(index, 'done');
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) {
+          setStatus(index, 'cancelled');
+        } else {
+          results[index] = { status: 'failed', error };
+          setStatus(index, 'failed');
+        }
+      }
+    }
+  };
+
+  onProgress?.([...statuses]);
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  // Jobs that never started
+  statuses.forEach((status, index) => {
+    if (status === 'pending') statuses[index] = 'cancelled';
+  });
+  onProgress?.([...statuses]);
+  return results;
+};
@@ -0,0 +1,131 @@
+import katex from 'katex';
+import katexCss from 'katex/dist/katex.min.css?inline';
+import { splitMath, latexToPlain } from "./mathParser";
+
+// --- Math To Image ---
+// Renders a line of Arabic text with inline LaTeX as a PNG, for targets that
+// cannot typeset math themselves (PPTX). KaTeX output is laid out in the page,
+// wrapped in an SVG <foreignObject> and rasterised through a canvas.
+
+export interface MathImage {
+  data: string; // PNG data URL
+  width: number; // CSS pixels
+  height: number;
+}
+
+export interface MathImageOptions {
+  fontSize: number; // CSS pixels
+  color: string; // Hex without '#'
+  maxWidth: number; // CSS pixels; longer lines wrap
+  fontFamily?: string; // Prose font; must be installed locally
+  bold?: boolean;
+}
+
+const PIXEL_RATIO = 3;
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// An SVG drawn as an image (or an offline HTML file) cannot load external files,
+// so the KaTeX fonts are embedded once as data URLs (woff2 only; every browser that gets here reads it)
+let embeddedCssPromise: Promise<string> | null = null;
+
+export const getEmbeddedKatexCss = () => {
+  if (!embeddedCssPromise) {
+    embeddedCssPromise = (async () => {
+      const sources = katexCss.match(/src:[^;}]+/g) || [];
+      let css = katexCss;
+      for (const src of sources) {
+        const woff2 = /url\(["']?([^"')]+\.woff2)["']?\)/.exec(src);
+        if (!woff2) continue;
+        const response = await fetch(woff2[1]);
+        const dataUrl = await blobToDataUrl(await response.blob());
+        css = css.replace(src, `src:url(${dataUrl}) format("woff2")`);
+      }
+      return css;
+    })().catch(error => {
+      embeddedCssPromise = null;
+      throw error;
+    });
+  }
+  return embeddedCssPromise;
+};
+
+const toHtml = (text: string) => splitMath(text).map(segment => {
+  if (segment.kind === 'text') {
+    return escapeHtml(segment.value.replace(/\*\*(.+?)\*\*/g, '$1'));
+  }
+  const rendered = katex.renderToString(segment.latex, {
+    displayMode: segment.display,
+    output: 'html',
+    throwOnError: false,
+  });
+  // Isolated so the equation keeps its left-to-right order inside Arabic text
+  return `<span dir="ltr" style="unicode-bidi:isolate;display:inline-block">${rendered}</span>`;
+}).join('');
+
+const loadSvg = (markup: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to rasterise math"));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+};
+
+export const renderMathImage = async (text: string, options: MathImageOptions): Promise<MathImage> => {
+  const css = await getEmbeddedKatexCss();
+
+  // Lay the line out in the page first to measure it
+  const container = document.createElement('div');
+  container.setAttribute('dir', 'rtl');
+  container.style.cssText = [
+    'position:fixed', 'left:-10000px', 'top:0', 'display:inline-block',
+    `max-width:${options.maxWidth}px`, `font-size:${options.fontSize}px`, `color:#${options.color}`,
+    `font-weight:${options.bold ? 700 : 400}`, `font-family:'${options.fontFamily || 'Cairo'}',sans-serif`, 'line-height:1.5',
+    'white-space:normal', 'text-align:right',
+  ].join(';');
+  container.innerHTML = toHtml(text);
+  document.body.appendChild(container);
+
+  try {
+    const rect = container.getBoundingClientRect();
+    const width = Math.ceil(rect.width) + 2;
+    const height = Math.ceil(rect.height) + 2;
+    container.style.position = 'static';
+    container.style.left = '0';
+
+    const xhtml = new XMLSerializer().serializeToString(container);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+      + `<style><![CDATA[${css}]]></style>`
+      + `<foreignObject x="0" y="0" width="${width}" height="${height}">${xhtml}</foreignObject></svg>`;
+    const img = await loadSvg(svg);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * PIXEL_RATIO;
+    canvas.height = height * PIXEL_RATIO;
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(PIXEL_RATIO, PIXEL_RATIO);
+    ctx.drawImage(img, 0, 0, width, height);
+    // Throws in browsers that taint canvases drawn from foreignObject
+    return { data: canvas.toDataURL('image/png'), width, height };
+  } finally {
+    container.remove();
+  }
+};
+
+// Readable fallback when an image cannot be produced
+export const mathToPlainText = (text: string) => splitMath(text)
+  .map(segment => (segment.kind === 'text' ? segment.value : latexToPlain(segment.latex).replace(/\s+/g, ' ').trim()))
+  .join('');
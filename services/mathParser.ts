@@ -0,0 +1,535 @@
+// --- Local Math Parser ---
+// Parses LaTeX or plain-text expressions (as written by the model or the
+// student) into a small AST that can be evaluated numerically.
+
+export type MathNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; op: '-'; arg: MathNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+  | { type: 'call'; fn: string; args: MathNode[] };
+
+export type Scope = Record<string, number>;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  cot: x => 1 / Math.tan(x),
+  sec: x => 1 / Math.cos(x),
+  csc: x => 1 / Math.sin(x),
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  nthroot: (x, n) => (x < 0 && n % 2 === 1 ? -Math.pow(-x, 1 / n) : Math.pow(x, 1 / n)),
+  logb: (x, b) => Math.log(x) / Math.log(b),
+  fact: x => {
+    if (x < 0 || !Number.isInteger(x)) return NaN;
+    let result = 1;
+    for (let i = 2; i <= x; i++) result *= i;
+    return result;
+  },
+};
+
+const FUNCTION_ALIASES: Record<string, string> = {
+  asin: 'arcsin',
+  acos: 'arccos',
+  atan: 'arctan',
+  lg: 'log',
+};
+
+const CONSTANTS: Scope = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const GREEK_LETTERS = new Set([
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta',
+  'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'rho', 'sigma', 'tau', 'phi', 'varphi', 'chi', 'psi', 'omega',
+]);
+
+// --- LaTeX → plain text ---
+
+const FRAC_COMMANDS = new Set(['frac', 'dfrac', 'tfrac', 'cfrac']);
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textbf', 'mbox', 'hbox']);
+const STYLE_COMMANDS = new Set(['mathrm', 'mathbf', 'mathit', 'boldsymbol', 'operatorname', 'boxed']);
+const IGNORED_COMMANDS = new Set([
+  'left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr',
+  'displaystyle', 'textstyle', 'limits', 'quad', 'qquad',
+]);
+
+// Reads a single LaTeX argument: a {...} group, a command, or one character.
+const readArgument = (src: string, start: number): [string, number] => {
+  let i = start;
+  while (src[i] === ' ') i++;
+  if (src[i] === '{') {
+    let depth = 0;
+    for (let j = i; j < src.length; j++) {
+      if (src[j] === '\\') { j++; continue; }
+      if (src[j] === '{') depth++;
+      if (src[j] === '}') depth--;
+      if (depth === 0) return [src.slice(i + 1, j), j + 1];
+    }
+    return [src.slice(i + 1), src.length];
+  }
+  if (src[i] === '\\') {
+    const match = /^\\([a-zA-Z]+|.)/.exec(src.slice(i));
+    if (match) return [match[0], i + match[0].length];
+  }
+  return [src[i] || '', i + 1];
+};
+
+export const latexToPlain = (latex: string): string => {
+  let out = '';
+  let i = 0;
+  const src = latex
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/٫/g, '.')
+    .replace(/[−–]/g, '-')
+    .replace(/[×·]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/°/g, '^\\circ');
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch !== '\\') {
+      out += ch === '{' ? '(' : ch === '}' ? ')' : ch;
+      i++;
+      continue;
+    }
+
+    const match = /^\\([a-zA-Z]+|.)/.exec(src.slice(i));
+    if (!match) { i++; continue; }
+    const cmd = match[1];
+    i += match[0].length;
+
+    if (FRAC_COMMANDS.has(cmd)) {
+      const [num, afterNum] = readArgument(src, i);
+      const [den, afterDen] = readArgument(src, afterNum);
+      out += `((${latexToPlain(num)})/(${latexToPlain(den)}))`;
+      i = afterDen;
+    } else if (cmd === 'sqrt') {
+      let degree = '';
+      if (src[i] === '[') {
+        const close = src.indexOf(']', i);
+        degree = src.slice(i + 1, close);
+        i = close + 1;
+      }
+      const [arg, next] = readArgument(src, i);
+      out += degree
+        ? ` nthroot(${latexToPlain(arg)},${latexToPlain(degree)})`
+        : ` sqrt(${latexToPlain(arg)})`;
+      i = next;
+    } else if (TEXT_COMMANDS.has(cmd)) {
+      const [, next] = readArgument(src, i);
+      out += ' ';
+      i = next;
+    } else if (STYLE_COMMANDS.has(cmd)) {
+      const [arg, next] = readArgument(src, i);
+      out += ` ${latexToPlain(arg)} `;
+      i = next;
+    } else if (IGNORED_COMMANDS.has(cmd)) {
+      // \left. and \right. are invisible delimiters
+      if ((cmd === 'left' || cmd === 'right') && src[i] === '.') i++;
+      out += ' ';
+    } else if (cmd === 'cdot' || cmd === 'times' || cmd === 'ast') {
+      out += '*';
+    } else if (cmd === 'div') {
+      out += '/';
+    } else if (cmd === 'circ') {
+      out += '(pi/180)';
+    } else if (cmd === '%') {
+      out += '%';
+    } else if (cmd === 'infty') {
+      out += ' Infinity ';
+    } else if (cmd === 'lvert' || cmd === 'rvert' || cmd === '|') {
+      out += '|';
+    } else if (cmd === '{' || cmd === '}') {
+      out += cmd === '{' ? '(' : ')';
+    } else if (/^[a-zA-Z]+$/.test(cmd)) {
+      // Functions, Greek letters and anything else keep their name
+      out += ` ${cmd} `;
+    } else {
+      out += ' ';
+    }
+  }
+  // x^{\circ} became x^((pi/180)); degrees and percent scale the operand in front of
+  // them, before any function applies: \sin 30^\circ is sin((30*pi/180))
+  const degrees = applyPostfix(out, /\^\s*\(\s*\(pi\/180\)\s*\)|\^\s*\(pi\/180\)/, operand => `(${operand}*pi/180)`);
+  return applyPostfix(degrees, /%/, operand => `(${operand}/100)`);
+};
+
+// Replaces each match of `marker` and the operand just before it (a number, a
+// name or a bracketed group) with wrap(operand)
+const applyPostfix = (expr: string, marker: RegExp, wrap: (operand: string) => string): string => {
+  let result = expr;
+  let match: RegExpExecArray | null;
+  while ((match = marker.exec(result)) !== null) {
+    let end = match.index;
+    while (end > 0 && result[end - 1] === ' ') end--;
+    let start = end;
+    if (result[start - 1] === ')') {
+      let depth = 0;
+      do {
+        start--;
+        if (result[start] === ')') depth++;
+        if (result[start] === '(') depth--;
+      } while (start > 0 && depth > 0);
+    } else {
+      while (start > 0 && /[\w.]/.test(result[start - 1])) start--;
+    }
+    const operand = result.slice(start, end);
+    result = result.slice(0, start) + (operand ? wrap(operand) : '') + result.slice(match.index + match[0].length);
+  }
+  return result;
+};
+
+export type TextSegment =
+  | { kind: 'text'; value: string }
+  | { kind: 'math'; latex: string; raw: string; display: boolean };
+
+// Splits prose from $$..$$, \[..\], \(..\) and $..$ math, keeping the original delimiters in `raw`
+export const splitMath = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  const pattern = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$([^$\n]+?)\$/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) segments.push({ kind: 'text', value: text.slice(last, match.index) });
+    segments.push({
+      kind: 'math',
+      latex: (match[1] || match[2] || match[3] || match[4]).trim(),
+      raw: match[0],
+      display: match[1] !== undefined || match[2] !== undefined,
+    });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) segments.push({ kind: 'text', value: text.slice(last) });
+  return segments;
+};
+
+export const containsMath = (text: string) => splitMath(text).some(s => s.kind === 'math');
+
+// All $$..$$, \[..\], \(..\) and $..$ math in reading order
+export const extractMathBlocks = (text: string): string[] =>
+  splitMath(text).flatMap(s => (s.kind === 'math' ? [s.latex] : []));
+
+// --- Tokenizer ---
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'ident'; name: string }
+  | { kind: 'op'; value: string };
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(input.slice(i));
+      if (!match) throw new Error(`Unexpected "${ch}"`);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[a-zA-Z]/.test(ch)) {
+      const match = /^[a-zA-Z]+/.exec(input.slice(i))!;
+      let word = match[0];
+      i += word.length;
+      // Subscripted variables (x_1, a_{n}) keep their subscript in the name
+      if (input[i] === '_' && word !== 'log') {
+        const sub = /^_(\(\s*[a-zA-Z0-9]+\s*\)|[a-zA-Z0-9])/.exec(input.slice(i));
+        if (sub) {
+          word += `_${sub[1].replace(/[()\s]/g, '')}`;
+          i += sub[0].length;
+        }
+      }
+      tokens.push(...splitIdentifier(word));
+      continue;
+    }
+
+    if (ch === '*' && input[i + 1] === '*') {
+      tokens.push({ kind: 'op', value: '^' });
+      i += 2;
+      continue;
+    }
+    if ('+-*/^(),|!_[]'.includes(ch)) {
+      tokens.push({ kind: 'op', value: ch === '[' ? '(' : ch === ']' ? ')' : ch });
+      i++;
+      continue;
+    }
+    throw new Error(`Unexpected "${ch}"`);
+  }
+  return tokens;
+};
+
+// "xy" is x*y, but "sin", "pi", "theta" and "x_1" are single names
+const splitIdentifier = (word: string): Token[] => {
+  const [base, subscript] = word.split('_');
+  const name = FUNCTION_ALIASES[base] || base;
+  if (subscript !== undefined || name in FUNCTIONS || name in CONSTANTS || GREEK_LETTERS.has(name) || name === 'Infinity') {
+    return [{ kind: 'ident', name: subscript !== undefined ? word : name }];
+  }
+  // A trailing function name may be glued on ("xsin") — split it off
+  for (const fn of Object.keys(FUNCTIONS)) {
+    if (name.length > fn.length && name.endsWith(fn)) {
+      return [...splitIdentifier(name.slice(0, -fn.length)), { kind: 'ident', name: fn }];
+    }
+  }
+  return name.split('').map(c => ({ kind: 'ident' as const, name: c }));
+};
+
+// --- Parser ---
+
+class Parser {
+  private pos = 0;
+  private absDepth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): MathNode {
+    const node = this.parseExpression();
+    if (this.pos < this.tokens.length) throw new Error('Unexpected trailing input');
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(value: string, token = this.peek()) {
+    return token?.kind === 'op' && token.value === value;
+  }
+
+  private nextOp(): string {
+    const token = this.tokens[this.pos++];
+    return token.kind === 'op' ? token.value : '';
+  }
+
+  private expectOp(value: string) {
+    if (!this.isOp(value)) throw new Error(`Expected "${value}"`);
+    this.pos++;
+  }
+
+  private parseExpression(): MathNode {
+    let node = this.parseTerm();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.nextOp() as '+' | '-';
+      node = { type: 'binary', op, left: node, right: this.parseTerm() };
+    }
+    return node;
+  }
+
+  private startsFactor(token = this.peek()): boolean {
+    if (!token) return false;
+    if (token.kind !== 'op') return true;
+    if (token.value === '(') return true;
+    // A bar opens |x| unless we are inside one that it closes
+    return token.value === '|' && this.absDepth === 0;
+  }
+
+  private startsFunction(token = this.peek()): boolean {
+    return token?.kind === 'ident' && token.name in FUNCTIONS;
+  }
+
+  private parseTerm(): MathNode {
+    let node = this.parseUnary();
+    while (true) {
+      if (this.isOp('*') || this.isOp('/')) {
+        const op = this.nextOp() as '*' | '/';
+        node = { type: 'binary', op, left: node, right: this.parseUnary() };
+      } else if (this.startsFactor()) {
+        node = { type: 'binary', op: '*', left: node, right: this.parsePower() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseUnary(): MathNode {
+    if (this.isOp('-')) {
+      this.pos++;
+      return { type: 'unary', op: '-', arg: this.parseUnary() };
+    }
+    if (this.isOp('+')) {
+      this.pos++;
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): MathNode {
+    const base = this.parsePostfix();
+    if (this.isOp('^')) {
+      this.pos++;
+      return { type: 'binary', op: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePostfix(): MathNode {
+    let node = this.parsePrimary();
+    while (this.isOp('!')) {
+      this.pos++;
+      node = { type: 'call', fn: 'fact', args: [node] };
+    }
+    return node;
+  }
+
+  private parsePrimary(): MathNode {
+    const token = this.peek();
+    if (!token) throw new Error('Unexpected end of expression');
+    this.pos++;
+
+    if (token.kind === 'number') return { type: 'number', value: token.value };
+
+    if (token.kind === 'ident') {
+      if (token.name in FUNCTIONS) return this.parseCall(token.name);
+      if (token.name === 'Infinity') return { type: 'number', value: Infinity };
+      return { type: 'variable', name: token.name };
+    }
+
+    if (token.value === '(') {
+      const node = this.parseExpression();
+      this.expectOp(')');
+      return node;
+    }
+    if (token.value === '|') {
+      this.absDepth++;
+      const node = this.parseExpression();
+      this.absDepth--;
+      this.expectOp('|');
+      return { type: 'call', fn: 'abs', args: [node] };
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+
+  // Handles f(x, y), f x, f^2 x (= (f x)^2) and log_b x
+  private parseCall(fn: string): MathNode {
+    let base: MathNode | null = null;
+    if (fn === 'log' && this.isOp('_')) {
+      this.pos++;
+      base = this.parsePrimary();
+    }
+
+    let power: MathNode | null = null;
+    if (this.isOp('^')) {
+      this.pos++;
+      power = this.parsePrimary();
+    }
+
+    let args: MathNode[];
+    if (this.isOp('(')) {
+      this.pos++;
+      args = [this.parseExpression()];
+      while (this.isOp(',')) {
+        this.pos++;
+        args.push(this.parseExpression());
+      }
+      this.expectOp(')');
+    } else {
+      // Unparenthesised argument: "sin 2x" means sin(2x), stop at + - or another function
+      let arg = this.parsePower();
+      while (this.startsFactor() && !this.startsFunction()) {
+        arg = { type: 'binary', op: '*', left: arg, right: this.parsePower() };
+      }
+      args = [arg];
+    }
+
+    let node: MathNode = base
+      ? { type: 'call', fn: 'logb', args: [args[0], base] }
+      : { type: 'call', fn, args };
+    if (power) node = { type: 'binary', op: '^', left: node, right: power };
+    return node;
+  }
+}
+
+// --- Public API ---
+
+export const parsePlain = (input: string): MathNode => {
+  return new Parser(tokenize(input)).parse();
+};
+
+export const parseLatex = (latex: string): MathNode => {
+  return parsePlain(latexToPlain(latex));
+};
+
+export const tryParseLatex = (latex: string): MathNode | null => {
+  try {
+    return parseLatex(latex);
+  } catch {
+    return null;
+  }
+};
+
+const applyBinary = (op: '+' | '-' | '*' | '/' | '^', left: number, right: number): number => {
+  switch (op) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/': return left / right;
+    case '^':
+      // Odd roots of negatives, e.g. x^(1/3) at x = -8
+      if (left < 0 && !Number.isInteger(right)) {
+        const inverse = Math.round(1 / right);
+        if (Math.abs(1 / right - inverse) < 1e-9 && inverse % 2 !== 0) {
+          return -Math.pow(-left, right);
+        }
+      }
+      return Math.pow(left, right);
+  }
+};
+
+export const evaluate = (node: MathNode, scope: Scope = {}): number => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      if (node.name in scope) return scope[node.name];
+      if (node.name in CONSTANTS) return CONSTANTS[node.name];
+      throw new Error(`Unknown variable "${node.name}"`);
+    case 'unary':
+      return -evaluate(node.arg, scope);
+    case 'binary':
+      return applyBinary(node.op, evaluate(node.left, scope), evaluate(node.right, scope));
+    case 'call':
+      return FUNCTIONS[node.fn](...node.args.map(arg => evaluate(arg, scope)));
+  }
+};
+
+// Free variables of an expression, excluding the known constants
+export const getVariables = (node: MathNode): string[] => {
+  const names = new Set<string>();
+  const visit = (n: MathNode) => {
+    if (n.type === 'variable' && !(n.name in CONSTANTS)) names.add(n.name);
+    if (n.type === 'unary') visit(n.arg);
+    if (n.type === 'binary') { visit(n.left); visit(n.right); }
+    if (n.type === 'call') n.args.forEach(visit);
+  };
+  visit(node);
+  return Array.from(names);
+};
+
+// Compiles an expression of one variable into a plain function; evaluation
+// errors (unknown names, domain issues) come back as NaN.
+export const compileFunction = (node: MathNode, variable = 'x') => {
+  return (value: number): number => {
+    try {
+      return evaluate(node, { [variable]: value });
+    } catch {
+      return NaN;
+    }
+  };
+};
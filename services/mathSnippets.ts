@@ -0,0 +1,191 @@
+// --- Math Snippets ---
+// LaTeX snippets for the composer's palette and shortcuts, and the text edits
+// that insert them. An empty "{}" in a snippet is a slot: the caret lands in
+// the first one and Tab moves to the next.
+
+export interface MathSnippet {
+  latex: string;
+  title: string;
+  shortcut?: string; // KeyboardEvent.code pressed with Alt
+}
+
+export interface SnippetGroup {
+  id: string;
+  label: string;
+  snippets: MathSnippet[];
+}
+
+export const SNIPPET_GROUPS: SnippetGroup[] = [
+  {
+    id: 'basic',
+    label: 'أساسيات',
+    snippets: [
+      { latex: '\\frac{}{}', title: 'كسر', shortcut: 'KeyF' },
+      { latex: '\\sqrt{}', title: 'جذر تربيعي', shortcut: 'KeyR' },
+      { latex: '\\sqrt[]{}', title: 'جذر نوني' },
+      { latex: '^{}', title: 'أس', shortcut: 'KeyE' },
+      { latex: '_{}', title: 'دليل سفلي' },
+      { latex: '\\left( {} \\right)', title: 'أقواس' },
+      { latex: '\\left| {} \\right|', title: 'قيمة مطلقة' },
+      { latex: '\\pm', title: 'زائد أو ناقص' },
+      { latex: '\\times', title: 'ضرب' },
+      { latex: '\\div', title: 'قسمة' },
+      { latex: '\\cdot', title: 'نقطة الضرب' },
+      { latex: '\\leq', title: 'أصغر من أو يساوي' },
+      { latex: '\\geq', title: 'أكبر من أو يساوي' },
+      { latex: '\\neq', title: 'لا يساوي' },
+      { latex: '\\approx', title: 'يساوي تقريباً' },
+      { latex: '\\infty', title: 'ما لا نهاية' },
+      { latex: '^\\circ', title: 'درجة' },
+    ],
+  },
+  {
+    id: 'calculus',
+    label: 'تفاضل وتكامل',
+    snippets: [
+      { latex: '\\int {} \\, dx', title: 'تكامل غير محدد', shortcut: 'KeyI' },
+      { latex: '\\int_{}^{} {} \\, dx', title: 'تكامل محدد' },
+      { latex: '\\sum_{}^{} {}', title: 'مجموع', shortcut: 'KeyS' },
+      { latex: '\\prod_{}^{} {}', title: 'جداء' },
+      { latex: '\\lim_{x \\to {}} {}', title: 'نهاية', shortcut: 'KeyL' },
+      { latex: '\\frac{d}{dx}', title: 'مشتقة' },
+      { latex: '\\frac{\\partial}{\\partial x}', title: 'مشتقة جزئية' },
+      { latex: "f'(x)", title: 'المشتقة الأولى' },
+      { latex: '\\sin', title: 'جيب' },
+      { latex: '\\cos', title: 'جيب تمام' },
+      { latex: '\\tan', title: 'ظل' },
+      { latex: '\\log_{}', title: 'لوغاريتم' },
+      { latex: '\\ln', title: 'لوغاريتم طبيعي' },
+      { latex: '\\vec{}', title: 'متجه' },
+    ],
+  },
+  {
+    id: 'matrices',
+    label: 'مصفوفات',
+    snippets: [
+      { latex: '\\begin{pmatrix} {} & {} \\\\ {} & {} \\end{pmatrix}', title: 'مصفوفة 2×2', shortcut: 'KeyM' },
+      { latex: '\\begin{pmatrix} {} & {} & {} \\\\ {} & {} & {} \\\\ {} & {} & {} \\end{pmatrix}', title: 'مصفوفة 3×3' },
+      { latex: '\\begin{vmatrix} {} & {} \\\\ {} & {} \\end{vmatrix}', title: 'محدد' },
+      { latex: '\\begin{pmatrix} {} \\\\ {} \\end{pmatrix}', title: 'متجه عمودي' },
+      { latex: '\\begin{cases} {} \\\\ {} \\end{cases}', title: 'نظام معادلات' },
+      { latex: '\\binom{}{}', title: 'توافيق' },
+    ],
+  },
+  {
+    id: 'sets',
+    label: 'مجموعات ومنطق',
+    snippets: [
+      { latex: '\\in', title: 'ينتمي إلى' },
+      { latex: '\\notin', title: 'لا ينتمي إلى' },
+      { latex: '\\subset', title: 'جزء من' },
+      { latex: '\\cup', title: 'اتحاد' },
+      { latex: '\\cap', title: 'تقاطع' },
+      { latex: '\\emptyset', title: 'المجموعة الخالية' },
+      { latex: '\\mathbb{R}', title: 'الأعداد الحقيقية' },
+      { latex: '\\mathbb{N}', title: 'الأعداد الطبيعية' },
+      { latex: '\\mathbb{Z}', title: 'الأعداد الصحيحة' },
+      { latex: '\\forall', title: 'لكل' },
+      { latex: '\\exists', title: 'يوجد' },
+      { latex: '\\Rightarrow', title: 'يؤدي إلى' },
+      { latex: '\\Leftrightarrow', title: 'إذا وفقط إذا' },
+    ],
+  },
+  {
+    id: 'greek',
+    label: 'يونانية',
+    snippets: ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'theta', 'lambda', 'mu', 'pi', 'sigma', 'phi', 'omega', 'Delta', 'Sigma', 'Omega']
+      .map(name => ({ latex: `\\${name}`, title: name })),
+  },
+  {
+    // Notation used in Arab curricula: س/ص for x/y, جا/جتا/ظا for sin/cos/tan
+    id: 'arabic',
+    label: 'رموز عربية',
+    snippets: [
+      { latex: '\\text{س}', title: 'المتغير س' },
+      { latex: '\\text{ص}', title: 'المتغير ص' },
+      { latex: '\\text{ع}', title: 'المتغير ع' },
+      { latex: '\\text{ق}(\\text{س})', title: 'الدالة ق(س)' },
+      { latex: '\\text{د}(\\text{س})', title: 'الدالة د(س)' },
+      { latex: '\\text{جا}\\, {}', title: 'جا' },
+      { latex: '\\text{جتا}\\, {}', title: 'جتا' },
+      { latex: '\\text{ظا}\\, {}', title: 'ظا' },
+      { latex: '\\text{لو}_{} {}', title: 'لو' },
+      { latex: '\\text{نها}_{\\text{س} \\to {}} {}', title: 'نها' },
+      { latex: '\\text{ح}', title: 'مجموعة الأعداد الحقيقية (ح)' },
+    ],
+  },
+];
+
+export const SHORTCUT_SNIPPETS = SNIPPET_GROUPS.flatMap(g => g.snippets).filter(s => s.shortcut);
+
+// Slots drawn as boxes on the palette buttons
+export const snippetPreview = (latex: string) => latex.replace(/\{\}/g, '{\\square}').replace(/\[\]/g, '[\\square]');
+
+export const shortcutLabel = (code: string) => `Alt+${code.replace(/^Key/, '')}`;
+
+// --- Editing ---
+
+export interface TextEdit {
+  text: string;
+  caret: number;
+}
+
+// True when the caret sits between an opening $ or $$ and its closing one
+export const isInsideMath = (text: string, caret: number) => {
+  let open: '$' | '$$' | null = null;
+  for (let i = 0; i < caret; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] !== '$') continue;
+    const delimiter = text[i + 1] === '$' ? '$$' : '$';
+    if (delimiter === '$$') i++;
+    if (!open) open = delimiter;
+    else if (open === delimiter) open = null;
+  }
+  return open !== null;
+};
+
+// Replaces the selection with the snippet, wrapped in $..$ outside math.
+// A selection fills the first slot, so "x+1" then a fraction gives \frac{x+1}{}.
+export const insertSnippet = (text: string, start: number, end: number, latex: string): TextEdit => {
+  const selected = text.slice(start, end);
+  const slot = latex.search(/\{\}|\[\]/);
+  let body = latex;
+  let caret: number;
+  if (slot === -1) {
+    caret = body.length;
+  } else if (selected) {
+    body = `${latex.slice(0, slot + 1)}${selected}${latex.slice(slot + 1)}`;
+    const next = body.indexOf('{}', slot + 1 + selected.length);
+    caret = next === -1 ? body.length : next + 1;
+  } else {
+    caret = slot + 1;
+  }
+
+  const inMath = isInsideMath(text, start);
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  if (inMath) return { text: `${before}${body}${after}`, caret: start + caret };
+  // Keep the math apart from the surrounding words, which keeps RTL/LTR runs clean
+  const lead = before && !/\s$/.test(before) ? ' ' : '';
+  const trail = after && !/^\s/.test(after) ? ' ' : '';
+  return { text: `${before}${lead}$${body}$${trail}${after}`, caret: start + lead.length + 1 + caret };
+};
+
+// Wraps the selection (or an empty spot) in $..$, or $$..$$ on its own line
+export const wrapInMath = (text: string, start: number, end: number, display: boolean): TextEdit => {
+  const selected = text.slice(start, end);
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  if (display) {
+    const lead = before && !before.endsWith('\n') ? '\n' : '';
+    const trail = after && !after.startsWith('\n') ? '\n' : '';
+    return { text: `${before}${lead}$$${selected}$$${trail}${after}`, caret: start + lead.length + 2 + selected.length };
+  }
+  return { text: `${before}$${selected}$${after}`, caret: start + 1 + selected.length };
+};
+
+// Caret position inside the next (or previous) empty slot, or null when there is none
+export const findSlot = (text: string, caret: number, backwards = false): number | null => {
+  const index = backwards ? text.lastIndexOf('{}', caret - 2) : text.indexOf('{}', caret);
+  return index === -1 ? null : index + 1;
+};
@@ -0,0 +1,403 @@
+// --- Math Speech ---
+// Turns a Markdown reply with LaTeX into text a TTS voice can read aloud in
+// Arabic: "\frac{1}{2}" becomes "واحد على اثنين", "x^2" becomes "إكس تربيع".
+// Unknown commands are skipped rather than spelled out.
+
+type Token =
+  | { type: 'command'; value: string }
+  | { type: 'number'; value: string }
+  | { type: 'text'; value: string } // Contents of \text{...} and friends
+  | { type: 'char'; value: string };
+
+// --- Numbers ---
+
+const ONES = ['صفر', 'واحد', 'اثنين', 'ثلاثة', 'أربعة', 'خمسة', 'ستة', 'سبعة', 'ثمانية', 'تسعة', 'عشرة'];
+const TEENS = ['', 'أحد عشر', 'اثنا عشر', 'ثلاثة عشر', 'أربعة عشر', 'خمسة عشر', 'ستة عشر', 'سبعة عشر', 'ثمانية عشر', 'تسعة عشر'];
+const TENS = ['', '', 'عشرين', 'ثلاثين', 'أربعين', 'خمسين', 'ستين', 'سبعين', 'ثمانين', 'تسعين'];
+const HUNDREDS = ['', 'مئة', 'مئتين', 'ثلاثمئة', 'أربعمئة', 'خمسمئة', 'ستمئة', 'سبعمئة', 'ثمانمئة', 'تسعمئة'];
+
+const belowThousand = (n: number): string => {
+  const parts: string[] = [];
+  const rest = n % 100;
+  if (n >= 100) parts.push(HUNDREDS[Math.floor(n / 100)]);
+  if (rest > 0 && rest <= 10) parts.push(ONES[rest]);
+  else if (rest > 10 && rest < 20) parts.push(TEENS[rest - 10]);
+  else if (rest >= 20) parts.push(rest % 10 ? `${ONES[rest % 10]} و${TENS[Math.floor(rest / 10)]}` : TENS[rest / 10]);
+  return parts.join(' و');
+};
+
+// Larger numbers are left as digits for the voice to read
+const integerToWords = (n: number): string => {
+  if (n === 0) return ONES[0];
+  if (n >= 1000000) return String(n);
+  const thousands = Math.floor(n / 1000);
+  const parts: string[] = [];
+  if (thousands === 1) parts.push('ألف');
+  else if (thousands === 2) parts.push('ألفين');
+  else if (thousands >= 3 && thousands <= 10) parts.push(`${belowThousand(thousands)} آلاف`);
+  else if (thousands > 10) parts.push(`${belowThousand(thousands)} ألف`);
+  if (n % 1000) parts.push(belowThousand(n % 1000));
+  return parts.join(' و');
+};
+
+// Decimals are read digit by digit: 3.14 -> "ثلاثة فاصلة واحد أربعة"
+export const numberToArabicWords = (value: string): string => {
+  const [whole, fraction] = value.split('.');
+  const words = integerToWords(parseInt(whole || '0', 10));
+  if (!fraction) return words;
+  return `${words} فاصلة ${fraction.split('').map(d => ONES[Number(d)]).join(' ')}`;
+};
+
+// --- Vocabulary ---
+
+const LETTERS: Record<string, string> = {
+  a: 'إيه', b: 'بي', c: 'سي', d: 'دي', e: 'إي', f: 'إف', g: 'جي', h: 'إتش', i: 'آي',
+  j: 'جيه', k: 'كيه', l: 'إل', m: 'إم', n: 'إن', o: 'أو', p: 'بي', q: 'كيو', r: 'آر',
+  s: 'إس', t: 'تي', u: 'يو', v: 'في', w: 'دبليو', x: 'إكس', y: 'واي', z: 'زد',
+};
+
+const SYMBOLS: Record<string, string> = {
+  '+': 'زائد',
+  '=': 'يساوي',
+  '<': 'أصغر من',
+  '>': 'أكبر من',
+  '*': 'ضرب',
+  '/': 'على',
+  '!': 'مضروب',
+  '%': 'بالمئة',
+  ',': '،',
+  ':': 'حيث',
+  '|': 'القيمة المطلقة',
+};
+
+const COMMANDS: Record<string, string> = {
+  // Operators and relations
+  times: 'ضرب', cdot: 'ضرب', div: 'قسمة', pm: 'زائد أو ناقص', mp: 'ناقص أو زائد',
+  leq: 'أصغر من أو يساوي', le: 'أصغر من أو يساوي', geq: 'أكبر من أو يساوي', ge: 'أكبر من أو يساوي',
+  neq: 'لا يساوي', ne: 'لا يساوي', approx: 'يساوي تقريباً', equiv: 'يكافئ', propto: 'يتناسب مع',
+  to: 'يؤول إلى', rightarrow: 'يؤول إلى', Rightarrow: 'إذن', implies: 'إذن', therefore: 'إذن',
+  iff: 'إذا وفقط إذا', Leftrightarrow: 'إذا وفقط إذا',
+  in: 'ينتمي إلى', notin: 'لا ينتمي إلى', subset: 'جزء من', subseteq: 'جزء من',
+  cup: 'اتحاد', cap: 'تقاطع', emptyset: 'المجموعة الخالية', varnothing: 'المجموعة الخالية',
+  forall: 'لكل', exists: 'يوجد', infty: 'ما لا نهاية', partial: 'مشتقة جزئية', nabla: 'نابلا',
+  angle: 'الزاوية', triangle: 'المثلث', perp: 'عمودي على', parallel: 'يوازي', circ: 'درجة', degree: 'درجة',
+  cdots: 'إلى آخره', ldots: 'إلى آخره', dots: 'إلى آخره', '%': 'بالمئة',
+  // Functions
+  sin: 'جيب', cos: 'جيب تمام', tan: 'ظل', cot: 'ظل تمام', sec: 'قاطع', csc: 'قاطع تمام',
+  arcsin: 'معكوس الجيب', arccos: 'معكوس جيب التمام', arctan: 'معكوس الظل',
+  log: 'لوغاريتم', ln: 'اللوغاريتم الطبيعي لـ', exp: 'الدالة الأسية لـ', max: 'القيمة العظمى', min: 'القيمة الصغرى',
+  // Greek letters
+  alpha: 'ألفا', beta: 'بيتا', gamma: 'غاما', Gamma: 'غاما', delta: 'دلتا', Delta: 'دلتا',
+  epsilon: 'إبسلون', varepsilon: 'إبسلون', theta: 'ثيتا', lambda: 'لامدا', mu: 'ميو', pi: 'باي',
+  rho: 'رو', sigma: 'سيغما', Sigma: 'سيغما', tau: 'تاو', phi: 'فاي', varphi: 'فاي', omega: 'أوميغا', Omega: 'أوميغا',
+};
+
+const NUMBER_SETS: Record<string, string> = {
+  R: 'الأعداد الحقيقية', N: 'الأعداد الطبيعية', Z: 'الأعداد الصحيحة', Q: 'الأعداد النسبية', C: 'الأعداد المركبة',
+};
+
+const ORDINALS = ['الأول', 'الثاني', 'الثالث', 'الرابع', 'الخامس', 'السادس', 'السابع', 'الثامن', 'التاسع', 'العاشر'];
+const FEMININE_ORDINALS = ['الأولى', 'الثانية', 'الثالثة', 'الرابعة', 'الخامسة', 'السادسة', 'السابعة', 'الثامنة', 'التاسعة', 'العاشرة'];
+
+const ordinal = (index: number, feminine = false) =>
+  (feminine ? FEMININE_ORDINALS : ORDINALS)[index] || numberToArabicWords(String(index + 1));
+
+// Matrix environments and what the bracket makes of them
+const MATRICES: Record<string, string> = {
+  matrix: 'مصفوفة', pmatrix: 'مصفوفة', bmatrix: 'مصفوفة', Bmatrix: 'مصفوفة', smallmatrix: 'مصفوفة',
+  vmatrix: 'محدد', Vmatrix: 'معيار المصفوفة',
+};
+
+const TEXT_COMMANDS = ['text', 'textrm', 'textbf', 'mathrm', 'mathbf', 'mbox', 'operatorname'];
+
+// A minus sign right after one of these is a subtraction; anywhere else it makes a negative number
+const VALUE_END = /^[a-zA-Z)\]}!']$/;
+const VALUE_COMMANDS = ['infty', 'pi', 'alpha', 'beta', 'gamma', 'delta', 'theta', 'lambda', 'mu', 'sigma', 'phi', 'omega', 'right'];
+
+// --- Parser ---
+
+const tokenize = (latex: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < latex.length) {
+    const rest = latex.slice(i);
+    const command = /^\\([a-zA-Z]+|.)/.exec(rest);
+    if (command) {
+      i += command[0].length;
+      // Keep text arguments whole so they are read as words, not letter by letter
+      const textArg = TEXT_COMMANDS.includes(command[1]) ? /^\s*\{([^{}]*)\}/.exec(latex.slice(i)) : null;
+      if (textArg) {
+        tokens.push({ type: 'text', value: textArg[1] });
+        i += textArg[0].length;
+      } else {
+        tokens.push({ type: 'command', value: command[1] });
+      }
+      continue;
+    }
+    const number = /^\d+(\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0] });
+      i += number[0].length;
+      continue;
+    }
+    if (!/\s/.test(latex[i])) tokens.push({ type: 'char', value: latex[i] });
+    i++;
+  }
+  return tokens;
+};
+
+const join = (words: string[]) => words.filter(Boolean).join(' ');
+
+export const latexToSpeech = (latex: string): string => {
+  const tokens = tokenize(latex);
+  let pos = 0;
+
+  const isChar = (value: string) => tokens[pos]?.type === 'char' && tokens[pos].value === value;
+  const isCommand = (value: string) => tokens[pos]?.type === 'command' && tokens[pos].value === value;
+
+  // Reads terms up to the closing character (or the end) and skips it
+  const readUntil = (end: string): string => {
+    const words: string[] = [];
+    while (pos < tokens.length && !isChar(end)) words.push(readTerm());
+    pos++;
+    return join(words);
+  };
+
+  // A {group} or a single token
+  const readArg = (): string => {
+    if (isChar('{')) {
+      pos++;
+      return readUntil('}');
+    }
+    return readAtom().words;
+  };
+
+  // _{lower}^{upper} in either order, as on \int, \sum and \lim
+  const readLimits = () => {
+    const limits: { lower?: string; upper?: string } = {};
+    while (isChar('_') || isChar('^')) {
+      const key = tokens[pos].value === '_' ? 'lower' : 'upper';
+      pos++;
+      limits[key] = readArg();
+    }
+    return limits;
+  };
+
+  // An environment name such as {pmatrix}, read as it is written
+  const readName = (): string => {
+    if (!isChar('{')) return '';
+    let name = '';
+    for (pos++; pos < tokens.length && !isChar('}'); pos++) name += tokens[pos].value;
+    pos++;
+    return name;
+  };
+
+  // Rows split by \\ and cells by &, up to and including \end{...}
+  const readRows = (): string[][] => {
+    const rows: string[][] = [[]];
+    let cell: string[] = [];
+    const endCell = () => {
+      rows[rows.length - 1].push(join(cell));
+      cell = [];
+    };
+    while (pos < tokens.length && !isCommand('end')) {
+      if (isChar('&')) {
+        pos++;
+        endCell();
+      } else if (isCommand('\\')) {
+        pos++;
+        endCell();
+        rows.push([]);
+      } else {
+        cell.push(readTerm());
+      }
+    }
+    endCell();
+    pos++;
+    readName();
+    return rows.filter(row => row.some(Boolean));
+  };
+
+  // Matrices are read row by row, cases as one equation (or one case) after another
+  const readEnvironment = (name: string): string => {
+    if (name === 'array' && isChar('{')) readName(); // Column alignment
+    const rows = readRows();
+    if (name in MATRICES) {
+      const columns = Math.max(0, ...rows.map(row => row.length));
+      const size = `${numberToArabicWords(String(rows.length))} في ${numberToArabicWords(String(columns))}`;
+      const listed = rows.map((row, i) => `الصف ${ordinal(i)}: ${row.join('، ')}`);
+      return `${MATRICES[name]} ${size}، ${listed.join('؛ ')}،`;
+    }
+    if (name === 'cases') {
+      // "x & x > 0" is a value and the case it applies to
+      const piecewise = rows.some(row => row.length > 1);
+      const listed = rows.map(([value, ...condition], i) => piecewise
+        ? join([value, condition.some(Boolean) ? `إذا كان ${join(condition)}` : ''])
+        : `المعادلة ${ordinal(i, true)}: ${value}`);
+      return `${piecewise ? 'حسب الحالات' : 'نظام معادلات'}، ${listed.join('؛ ')}،`;
+    }
+    // aligned, gathered, array...: one line after another
+    return `${rows.map(row => join(row)).join('؛ ')}،`;
+  };
+
+  const readRange = (name: string) => {
+    const { lower, upper } = readLimits();
+    return join([name, lower ? `من ${lower}` : '', upper ? `إلى ${upper}` : '']);
+  };
+
+  const readCommand = (name: string): string => {
+    switch (name) {
+      case 'frac': case 'dfrac': case 'tfrac': {
+        const numerator = readArg();
+        const denominator = readArg();
+        // "x + 1 على x - 1" is ambiguous once either part is an expression
+        if (/ (زائد|ناقص|ضرب) /.test(`${numerator} ${denominator}`)) {
+          return `الكسر، بسطه ${numerator}، ومقامه ${denominator}،`;
+        }
+        return `${numerator} على ${denominator}`;
+      }
+      case 'sqrt': {
+        let degree = '';
+        if (isChar('[')) {
+          pos++;
+          degree = readUntil(']');
+        }
+        const radicand = readArg();
+        if (!degree) return `الجذر التربيعي لـ ${radicand}`;
+        if (degree === ONES[3]) return `الجذر التكعيبي لـ ${radicand}`;
+        return `الجذر من الرتبة ${degree} لـ ${radicand}`;
+      }
+      case 'binom': {
+        const n = readArg();
+        return `توافيق ${readArg()} من ${n}`;
+      }
+      case 'int': case 'iint': case 'oint': return readRange('تكامل');
+      case 'sum': return readRange('مجموع');
+      case 'prod': return readRange('جداء');
+      case 'lim': {
+        const { lower } = readLimits();
+        return lower ? `نهاية عندما ${lower}` : 'نهاية';
+      }
+      case 'mathbb': {
+        const set = readArg();
+        const letter = Object.keys(NUMBER_SETS).find(key => LETTERS[key.toLowerCase()] === set);
+        return letter ? NUMBER_SETS[letter] : set;
+      }
+      case 'vec': return `المتجه ${readArg()}`;
+      case 'overline': case 'bar': return `${readArg()} بار`;
+      case 'hat': return `${readArg()} هات`;
+      case 'begin': return readEnvironment(readName());
+      case 'end': readName(); return '';
+      case 'boxed': case 'displaystyle': case 'mathit': case 'left': case 'right': return '';
+      default: return COMMANDS[name] || '';
+    }
+  };
+
+  // One token (or bracketed group); `grouped` marks "(...)" so a power can say "الكل"
+  const readAtom = (): { words: string; grouped?: boolean } => {
+    const previous = tokens[pos - 1];
+    const token = tokens[pos++];
+    if (!token) return { words: '' };
+    switch (token.type) {
+      case 'number': return { words: numberToArabicWords(token.value) };
+      case 'text': return { words: token.value.trim() };
+      case 'command': return { words: readCommand(token.value) };
+    }
+    switch (token.value) {
+      case '{': return { words: readUntil('}') };
+      case '(': return { words: readUntil(')'), grouped: true };
+      case '[': return { words: readUntil(']'), grouped: true };
+      case '-': {
+        const unary = !previous
+          || (previous.type === 'char' && !VALUE_END.test(previous.value))
+          || (previous.type === 'command' && !VALUE_COMMANDS.includes(previous.value));
+        return { words: unary ? 'سالب' : 'ناقص' };
+      }
+    }
+    if (token.value in SYMBOLS) return { words: SYMBOLS[token.value] };
+    if (/[a-zA-Z]/.test(token.value)) return { words: LETTERS[token.value.toLowerCase()] };
+    if (/[)\]}&]/.test(token.value)) return { words: '' };
+    return { words: token.value };
+  };
+
+  // An atom with its primes, subscripts and powers
+  const readTerm = (): string => {
+    const atom = readAtom();
+    let words = atom.words;
+    while (pos < tokens.length) {
+      if (isChar("'")) {
+        pos++;
+        words += ' شرطة';
+      } else if (isChar('_')) {
+        pos++;
+        words = join([words, readArg()]);
+      } else if (isChar('^')) {
+        pos++;
+        const exponent = readArg();
+        const power =
+          exponent === ONES[2] ? 'تربيع'
+          : exponent === ONES[3] ? 'تكعيب'
+          : exponent === COMMANDS.circ ? exponent
+          : `أس ${exponent}`;
+        words = join([words, atom.grouped ? `الكل ${power}` : power]);
+      } else {
+        break;
+      }
+    }
+    return words;
+  };
+
+  const words: string[] = [];
+  while (pos < tokens.length) words.push(readTerm());
+  return join(words).replace(/\s+،/g, '،').replace(/،$/, '');
+};
+
+// --- Markdown ---
+
+// Math becomes spoken Arabic; formatting, links, images and code are dropped
+export const markdownToSpeech = (text: string): string =>
+  text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, math) => `\n${latexToSpeech(math)}.\n`)
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `\n${latexToSpeech(math)}.\n`)
+    .replace(/\$([^$\n]+?)\$/g, (_, math) => latexToSpeech(math))
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => latexToSpeech(math))
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*\|?[\s:|-]+\|[\s:|-]*$/gm, '')
+    .replace(/\|/g, '، ')
+    .replace(/^\s*(#+|[-*+]|\d+\.|>)\s+/gm, '')
+    .replace(/[*_`~]/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+
+// --- Chunking ---
+
+// Splits at sentence ends, then at commas or spaces for sentences that are too long,
+// so each chunk is a single short TTS call and playback can start early.
+export const splitSpeechChunks = (text: string, maxLength = 600): string[] => {
+  const pieces: string[] = [];
+  for (const sentence of text.split(/(?<=[.!?؟\n])\s+/)) {
+    let rest = sentence.trim();
+    while (rest.length > maxLength) {
+      const window = rest.slice(0, maxLength);
+      const cut = Math.max(window.lastIndexOf('،'), window.lastIndexOf(','));
+      const at = cut > maxLength / 2 ? cut + 1 : window.lastIndexOf(' ') > 0 ? window.lastIndexOf(' ') : maxLength;
+      pieces.push(rest.slice(0, at).trim());
+      rest = rest.slice(at).trim();
+    }
+    if (rest) pieces.push(rest);
+  }
+
+  const chunks: string[] = [];
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + piece.length + 1 <= maxLength) {
+      chunks[chunks.length - 1] = `${last} ${piece}`;
+    } else {
+      chunks.push(piece);
+    }
+  }
+  return chunks;
+};
@@ -0,0 +1,72 @@
+import { Message } from "../types";
+
+// --- Message Tree ---
+// Editing a question or regenerating an answer adds a sibling under the same
+// parent instead of replacing it, so a conversation is a tree. It is still
+// stored as one flat Message[] linked by parentId; the thread on screen
+// follows each message's activeChildId, or else its newest child.
+// Messages saved before branching have no parentId and follow the one before them.
+
+export interface ThreadEntry {
+  message: Message;
+  version: number; // Index among the message's siblings
+  versions: number;
+}
+
+// A message pointing to itself (a reply that once got its question's id) keeps
+// the parent already recorded for that id, so the branch isn't cut off
+const parentIds = (messages: Message[]) => {
+  const parents = new Map<string, string | undefined>();
+  messages.forEach((m, i) => {
+    const parentId = i === 0 ? undefined : m.parentId ?? messages[i - 1].id;
+    if (parentId === m.id) {
+      if (!parents.has(m.id)) parents.set(m.id, messages.slice(0, i).reverse().find(p => p.id !== m.id)?.id);
+      return;
+    }
+    parents.set(m.id, parentId);
+  });
+  return parents;
+};
+
+// Children in the order they were added, so the last one is the newest
+const childrenOf = (messages: Message[]) => {
+  const parents = parentIds(messages);
+  const children = new Map<string | undefined, Message[]>();
+  for (const m of messages) {
+    const parentId = parents.get(m.id);
+    children.set(parentId, [...(children.get(parentId) || []), m]);
+  }
+  return { parents, children };
+};
+
+export const getParentId = (messages: Message[], id: string) => parentIds(messages).get(id);
+
+// The messages on screen, from the root down to the active leaf
+export const getThread = (messages: Message[]): ThreadEntry[] => {
+  const { children } = childrenOf(messages);
+  const thread: ThreadEntry[] = [];
+  let level = children.get(undefined) || [];
+  while (level.length > 0) {
+    const parent = thread[thread.length - 1]?.message;
+    const message = level.find(m => m.id === parent?.activeChildId) || level[level.length - 1];
+    thread.push({ message, version: level.indexOf(message), versions: level.length });
+    level = (children.get(message.id) || []).filter(m => m.id !== message.id);
+  }
+  return thread;
+};
+
+// The message and its ancestors, root first (the history a reply to it is based on)
+export const getPath = (messages: Message[], id: string | undefined): Message[] => {
+  const parents = parentIds(messages);
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: Message[] = [];
+  for (let current = id; current !== undefined && byId.has(current); current = parents.get(current)) {
+    path.unshift(byId.get(current)!);
+  }
+  return path;
+};
+
+export const getSiblings = (messages: Message[], id: string): Message[] => {
+  const { parents, children } = childrenOf(messages);
+  return children.get(parents.get(id)) || [];
+};
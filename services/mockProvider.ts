@@ -0,0 +1,321 @@
+import type { Schema } from "@google/genai";
+import type { AiProvider, JsonRequest, TextRequest, TextResult } from "./aiProvider";
+import { GeometryConstruction, PresentationData, PresentationSlide, PracticeProblem, GuidedSolution } from "../types";
+import { pcmToWav, samplesToPcm } from "./audioFormat";
+
+// --- Mock Provider ---
+// Offline backend for demos and manual testing. Replies are canned but
+// deterministic: the same prompt always gets the same text, JSON and image.
+
+const LATENCY_MS = 400;
+const STREAM_STEP_MS = 30;
+
+const hash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const pick = <T>(items: T[], seed: string) => items[hash(seed) % items.length];
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+const promptText = (request: TextRequest) =>
+  request.parts.map(p => ('text' in p ? p.text : '')).join('\n').trim();
+
+// --- Canned Text ---
+
+const ANSWERS = [
+  `لحل المعادلة التربيعية $x^2 - 5x + 6 = 0$ نستخدم التحليل إلى عوامل:
+
+$$x^2 - 5x + 6 = (x - 2)(x - 3) = 0$$
+
+إذن الحلول هي $x = 2$ أو $x = 3$.
+
+**التحقق:** بالتعويض بـ $x = 2$ نحصل على $4 - 10 + 6 = 0$ ✓`,
+  `لإيجاد مشتقة الدالة $f(x) = x^3 \\sin x$ نستخدم قاعدة الضرب:
+
+$$f'(x) = 3x^2 \\sin x + x^3 \\cos x$$
+
+**ملاحظة:** قاعدة الضرب هي $(uv)' = u'v + uv'$.`,
+  `لحساب التكامل نستخدم قاعدة القوة:
+
+$$\\int_0^2 x^2 \\, dx = \\left[ \\frac{x^3}{3} \\right]_0^2 = \\frac{8}{3}$$
+
+**النتيجة:** $\\frac{8}{3} \\approx 2.67$`,
+];
+
+const THOUGHTS = `**تحليل المسألة**
+
+أحدد نوع المسألة أولاً، ثم أختار الطريقة الأنسب وأتحقق من النتيجة بالتعويض.`;
+
+const SOURCES = [
+  { uri: 'https://ar.wikipedia.org/wiki/رياضيات', title: 'رياضيات - ويكيبيديا' },
+  { uri: 'https://mathworld.wolfram.com/', title: 'Wolfram MathWorld' },
+];
+
+const TRANSCRIPT = 'كيف أحل المعادلة $x^2 - 5x + 6 = 0$؟';
+
+const cannedText = (request: TextRequest): TextResult => {
+  // Recordings are not listened to; the transcript is the same question every time
+  if (request.feature === 'transcribe') return { text: TRANSCRIPT, thoughts: '', sources: [] };
+  const prompt = promptText(request);
+  return {
+    text: `> *وضع تجريبي: هذا رد ثابت من المزوّد المحلي وليس من نموذج حقيقي.*\n\n${pick(ANSWERS, prompt)}`,
+    thoughts: request.thinkingBudget ? THOUGHTS : '',
+    sources: request.search ? SOURCES : [],
+  };
+};
+
+// --- Canned JSON ---
+
+const MOCK_SLIDES: PresentationSlide[] = [
+  {
+    title: 'مقدمة وتعريف',
+    bullets: ['الدالة علاقة تربط كل عنصر من المجال بعنصر وحيد من المجال المقابل', 'نكتب الدالة على الصورة $y = f(x)$'],
+    examples: ['$f(x) = 2x + 1$'],
+    imageDescription: 'A clean diagram mapping elements of a domain set to a codomain set with arrows',
+    speakerNotes: 'ابدأ بأمثلة من الحياة اليومية قبل التعريف الرسمي.',
+  },
+  {
+    title: 'الخصائص الأساسية',
+    bullets: ['المجال والمدى', 'الدوال المتزايدة والمتناقصة', 'الدوال الزوجية والفردية'],
+    examples: ['$f(x) = x^2$ دالة زوجية', '$g(x) = x^3$ دالة فردية'],
+    imageDescription: 'Graphs of an even and an odd function side by side on coordinate axes',
+    speakerNotes: 'وضّح التماثل في الرسم البياني لكل نوع.',
+  },
+  {
+    title: 'مثال محلول',
+    bullets: ['أوجد مجال الدالة $f(x) = \\sqrt{x - 2}$'],
+    examples: ['يجب أن يكون $x - 2 \\ge 0$', 'إذن $x \\ge 2$', 'المجال هو $[2, \\infty)$'],
+    imageDescription: 'The graph of a square root function starting at x = 2',
+    speakerNotes: 'اطلب من الطلاب محاولة الحل قبل عرض الخطوات.',
+  },
+  {
+    title: 'تطبيقات',
+    bullets: ['نمذجة النمو السكاني', 'حساب التكلفة والربح', 'وصف الحركة في الفيزياء'],
+    examples: ['$C(x) = 50x + 200$'],
+    imageDescription: 'Icons of population growth, a cost chart and a moving car',
+    speakerNotes: 'اربط كل تطبيق بمثال محلي مألوف للطلاب.',
+  },
+];
+
+const MOCK_GEOMETRY: GeometryConstruction = {
+  title: 'مثلث ومنتصف ضلع ودائرة',
+  elements: [
+    { id: 'A', type: 'point', label: 'A', x: -4, y: -2 },
+    { id: 'B', type: 'point', label: 'B', x: 4, y: -2 },
+    { id: 'C', type: 'point', label: 'C', x: 1, y: 4 },
+    { id: 'tri', type: 'polygon', refs: ['A', 'B', 'C'] },
+    { id: 'M', type: 'midpoint', label: 'M', refs: ['A', 'B'] },
+    { id: 'CM', type: 'segment', refs: ['C', 'M'] },
+    { id: 'c1', type: 'circle', refs: ['M', 'A'] },
+    { id: 'ang', type: 'angle', refs: ['A', 'C', 'B'] },
+  ],
+};
+
+// One problem of each answer kind, so local and model grading can both be tried
+const MOCK_PRACTICE: PracticeProblem[] = [
+  {
+    statement: 'احسب $\\frac{3}{4} + \\frac{1}{2}$.',
+    answerKind: 'numeric',
+    answer: '\\frac{5}{4}',
+    hints: ['وحّد المقامات أولاً.', 'المقام المشترك هو $4$.'],
+    solution: '$$\\frac{3}{4} + \\frac{2}{4} = \\frac{5}{4}$$',
+  },
+  {
+    statement: 'حل المعادلة $x^2 - 5x + 6 = 0$.',
+    answerKind: 'expression',
+    answer: 'x = 2, x = 3',
+    hints: ['ابحث عن عددين مجموعهما $5$ وحاصل ضربهما $6$.'],
+    solution: '$$(x - 2)(x - 3) = 0 \\Rightarrow x = 2 \\text{ أو } x = 3$$',
+  },
+  {
+    statement: 'بسّط $(x + 1)^2 - (x - 1)^2$.',
+    answerKind: 'expression',
+    answer: '4x',
+    hints: ['استخدم فرق مربعين.'],
+    solution: '$$\\big((x + 1) - (x - 1)\\big)\\big((x + 1) + (x - 1)\\big) = 2 \\cdot 2x = 4x$$',
+  },
+  {
+    statement: 'أثبت أن مجموع عددين فرديين عدد زوجي.',
+    answerKind: 'proof',
+    answer: 'ليكن العددان $2m + 1$ و $2n + 1$، فمجموعهما $2(m + n + 1)$ وهو زوجي.',
+    hints: ['اكتب كل عدد فردي على الصورة $2k + 1$.'],
+    solution: 'ليكن العددان $2m + 1$ و $2n + 1$. مجموعهما $2m + 2n + 2 = 2(m + n + 1)$، وهو من مضاعفات $2$ فهو زوجي.',
+  },
+];
+
+const MOCK_GUIDED: Pick<GuidedSolution, 'problem' | 'steps'> = {
+  problem: 'حل المعادلة $x^2 - 5x + 6 = 0$.',
+  steps: [
+    {
+      statement: 'حلّل الطرف الأيسر إلى عاملين.',
+      hint: 'ابحث عن عددين مجموعهما $-5$ وحاصل ضربهما $6$.',
+      result: '(x - 2)(x - 3) = 0',
+      explanation: '$$x^2 - 5x + 6 = (x - 2)(x - 3)$$',
+    },
+    {
+      statement: 'ساوِ كل عامل بالصفر.',
+      hint: 'إذا كان حاصل ضرب عددين صفراً فأحدهما على الأقل صفر.',
+      result: 'x - 2 = 0, x - 3 = 0',
+      explanation: '$$x - 2 = 0 \\quad \\text{أو} \\quad x - 3 = 0$$',
+    },
+    {
+      statement: 'أوجد قيم $x$.',
+      hint: 'انقل الثابت إلى الطرف الآخر في كل معادلة.',
+      result: 'x = 2, x = 3',
+      explanation: 'الحلان هما $x = 2$ و $x = 3$.',
+    },
+  ],
+};
+
+const mockPractice = (prompt: string): PracticeProblem[] => {
+  const count = Number(/(\d+)\s*مسائل/.exec(prompt)?.[1]) || MOCK_PRACTICE.length;
+  return Array.from({ length: count }, (_, i) => ({ ...MOCK_PRACTICE[i % MOCK_PRACTICE.length] }));
+};
+
+const mockPresentation = (prompt: string): PresentationData => {
+  const topic = /"([^"]+)"/.exec(prompt)?.[1] || 'الدوال الرياضية';
+  const count = Number(/(\d+)\s*شرائح/.exec(prompt)?.[1]) || MOCK_SLIDES.length;
+  return {
+    title: topic,
+    slides: Array.from({ length: count }, (_, i) => ({ ...MOCK_SLIDES[i % MOCK_SLIDES.length] })),
+  };
+};
+
+// Fallback for schemas without a canned reply: fills every field with a placeholder
+const sampleFromSchema = (schema: Schema, key = ''): unknown => {
+  switch (schema.type) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([k, v]) => [k, sampleFromSchema(v, k)]));
+    case 'ARRAY':
+      return [0, 1].map(() => sampleFromSchema(schema.items || {}, key));
+    case 'NUMBER':
+    case 'INTEGER':
+      return 0;
+    case 'BOOLEAN':
+      return true;
+    default:
+      return schema.enum?.[0] ?? (key ? `${key} (تجريبي)` : 'تجريبي');
+  }
+};
+
+const cannedJson = (request: JsonRequest): unknown => {
+  const { schema } = request;
+  const prompt = promptText(request);
+  const properties = schema.properties || {};
+  if (properties.slides) return mockPresentation(prompt);
+  if (properties.elements) return MOCK_GEOMETRY;
+  if (properties.bullets) return { ...pick(MOCK_SLIDES, prompt) };
+  if (schema.type === 'ARRAY' && schema.items?.properties?.answerKind) return mockPractice(prompt);
+  if (properties.steps) return MOCK_GUIDED;
+  if (properties.correct) return { correct: true, feedback: 'استدلال سليم (رد تجريبي).' };
+  if (schema.type === 'ARRAY' && schema.items?.properties?.statement) {
+    const pages = request.parts.filter(p => 'inlineData' in p).length || 1;
+    return Array.from({ length: pages }, (_, page) => ({
+      page,
+      statement: `حل المعادلة $x^2 - ${page + 5}x + 6 = 0$`,
+    }));
+  }
+  return sampleFromSchema(schema);
+};
+
+// --- Canned Media ---
+
+// A gradient card with the prompt written on it, coloured by the prompt's hash
+const mockImage = (prompt: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1280;
+  canvas.height = 720;
+  const ctx = canvas.getContext('2d')!;
+  const hue = hash(prompt) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 92%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 60%, 80%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.strokeStyle = `hsl(${hue}, 50%, 45%)`;
+  ctx.lineWidth = 6;
+  ctx.beginPath();
+  for (let x = 0; x <= canvas.width; x += 8) {
+    const y = 420 - 120 * Math.sin((x / canvas.width) * Math.PI * 2 + hue);
+    if (x === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+
+  ctx.fillStyle = `hsl(${hue}, 40%, 25%)`;
+  ctx.font = 'bold 40px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('MOCK IMAGE', canvas.width / 2, 120);
+  ctx.font = '26px sans-serif';
+  ctx.fillText(prompt.length > 80 ? `${prompt.slice(0, 80)}…` : prompt, canvas.width / 2, 640);
+  return canvas.toDataURL('image/png');
+};
+
+// A short two-tone chime as a 16-bit mono WAV, longer for longer text
+const mockSpeech = (text: string) => {
+  const sampleRate = 24000;
+  const seconds = Math.min(3, 0.5 + text.length / 200);
+  const samples = new Float32Array(Math.floor(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    const frequency = t < seconds / 2 ? 660 : 880;
+    const envelope = Math.min(1, (seconds - t) * 8, t * 40);
+    samples[i] = Math.sin(2 * Math.PI * frequency * t) * envelope * 0.25;
+  }
+  return pcmToWav(samplesToPcm(samples), sampleRate);
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'تجريبي (دون اتصال)',
+  usesModelRegistry: false,
+
+  generateText: async (request) => {
+    await wait(LATENCY_MS, request.signal);
+    return cannedText(request);
+  },
+
+  // Thoughts first, then the answer a couple of words at a time
+  streamText: async (request, onUpdate) => {
+    const full = cannedText(request);
+    const result: TextResult = { text: '', thoughts: full.thoughts, sources: [] };
+    await wait(LATENCY_MS, request.signal);
+    if (result.thoughts) onUpdate({ ...result });
+    const words = full.text.split(/(?<=\s)/);
+    for (let i = 0; i < words.length; i += 2) {
+      await wait(STREAM_STEP_MS, request.signal);
+      result.text += words.slice(i, i + 2).join('');
+      onUpdate({ ...result });
+    }
+    result.sources = full.sources;
+    return result;
+  },
+
+  generateJson: async <T>(request: JsonRequest): Promise<T> => {
+    await wait(LATENCY_MS, request.signal);
+    return cannedJson(request) as T;
+  },
+
+  generateImage: async (request) => {
+    await wait(LATENCY_MS, request.signal);
+    return mockImage(request.prompt);
+  },
+
+  generateSpeech: async (request) => {
+    await wait(LATENCY_MS, request.signal);
+    return mockSpeech(request.text);
+  },
+};
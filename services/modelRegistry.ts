@@ -0,0 +1,116 @@
+import { ViewState } from "../types";
+
+// --- Model Registry ---
+// Which model each feature calls, in order of preference. The first entry is
+// the primary; the rest are tried by modelRouter when it is unavailable.
+// Users can put their own choice in front of a chain from the model settings.
+
+export type ModelFeature =
+  | 'tutor'
+  | 'solve'
+  | 'detect'
+  | 'visual-image'
+  | 'geometry'
+  | 'search'
+  | 'fast'
+  | 'presentation'
+  | 'slide-image'
+  | 'speech'
+  | 'transcribe'
+  | 'practice';
+
+export type ModelKind = 'text' | 'image' | 'speech';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  kind: ModelKind;
+  imageSize?: boolean; // Accepts imageConfig.imageSize (1K/2K/4K)
+}
+
+export interface FeatureConfig {
+  label: string;
+  kind: ModelKind;
+  models: string[];
+  timeoutMs: number; // 0 for streamed replies, which can legitimately run for minutes
+}
+
+export const MODEL_CATALOG: ModelInfo[] = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', kind: 'text' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', kind: 'text' },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', kind: 'text' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite', kind: 'text' },
+  { id: 'gemini-flash-lite-latest', label: 'Gemini Flash Lite (latest)', kind: 'text' },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image', kind: 'image', imageSize: true },
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', kind: 'image' },
+  { id: 'gemini-2.5-flash-preview-tts', label: 'Gemini 2.5 Flash TTS', kind: 'speech' },
+];
+
+export const FEATURE_MODELS: Record<ModelFeature, FeatureConfig> = {
+  'tutor': { label: 'الشرح والاستدلال', kind: 'text', models: ['gemini-3-pro-preview', 'gemini-2.5-pro'], timeoutMs: 0 },
+  'solve': { label: 'حل المسائل', kind: 'text', models: ['gemini-3-pro-preview', 'gemini-2.5-pro'], timeoutMs: 180000 },
+  'detect': { label: 'استخراج المسائل من الصور', kind: 'text', models: ['gemini-2.5-flash', 'gemini-2.5-pro'], timeoutMs: 60000 },
+  'visual-image': { label: 'الصور والرسوم', kind: 'image', models: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'], timeoutMs: 120000 },
+  'geometry': { label: 'الإنشاءات الهندسية', kind: 'text', models: ['gemini-2.5-flash', 'gemini-2.5-pro'], timeoutMs: 60000 },
+  'search': { label: 'البحث الدقيق', kind: 'text', models: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'], timeoutMs: 0 },
+  'fast': { label: 'الإجابات السريعة', kind: 'text', models: ['gemini-flash-lite-latest', 'gemini-2.5-flash-lite', 'gemini-2.5-flash'], timeoutMs: 0 },
+  'presentation': { label: 'محتوى الشرائح', kind: 'text', models: ['gemini-2.5-flash', 'gemini-2.5-pro'], timeoutMs: 90000 },
+  'slide-image': { label: 'صور الشرائح', kind: 'image', models: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'], timeoutMs: 120000 },
+  'speech': { label: 'القراءة الصوتية', kind: 'speech', models: ['gemini-2.5-flash-preview-tts'], timeoutMs: 60000 },
+  'transcribe': { label: 'الإدخال الصوتي', kind: 'text', models: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'], timeoutMs: 60000 },
+  'practice': { label: 'التمارين والتصحيح', kind: 'text', models: ['gemini-2.5-flash', 'gemini-2.5-pro'], timeoutMs: 90000 },
+};
+
+// Features offered in each view's model settings, main one first
+export const VIEW_FEATURES: Record<ViewState, ModelFeature[]> = {
+  [ViewState.TUTOR]: ['tutor', 'solve', 'practice'],
+  [ViewState.VISUALIZER]: ['visual-image', 'geometry'],
+  [ViewState.SOLVER]: ['solve', 'detect', 'practice'],
+  [ViewState.EXPLORER]: ['search', 'fast'],
+  [ViewState.PRESENTATION]: ['presentation', 'slide-image'],
+  [ViewState.PRACTICE]: ['practice'],
+};
+
+export const getModelInfo = (id: string): ModelInfo | undefined => MODEL_CATALOG.find(m => m.id === id);
+
+export const getModelLabel = (id: string) => getModelInfo(id)?.label || id;
+
+export const supportsImageSize = (id: string) => !!getModelInfo(id)?.imageSize;
+
+// --- User Overrides ---
+// Small and read synchronously on every call, so localStorage rather than IndexedDB
+
+export type ModelOverrides = Partial<Record<ModelFeature, string>>;
+
+const OVERRIDES_KEY = 'mathmind:model-overrides';
+
+let overrides: ModelOverrides | null = null;
+
+export const getModelOverrides = (): ModelOverrides => {
+  if (!overrides) {
+    try {
+      overrides = JSON.parse(localStorage.getItem(OVERRIDES_KEY) || '{}') as ModelOverrides;
+    } catch {
+      overrides = {};
+    }
+  }
+  return overrides;
+};
+
+export const setModelOverrides = (next: ModelOverrides) => {
+  overrides = next;
+  try {
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Could not save model settings", error);
+  }
+};
+
+// The chosen model first, then the defaults as fallbacks
+export const getModelChain = (feature: ModelFeature): string[] => {
+  const override = getModelOverrides()[feature];
+  const defaults = FEATURE_MODELS[feature].models;
+  return override ? [override, ...defaults.filter(id => id !== override)] : defaults;
+};
+
+export const getPrimaryModel = (feature: ModelFeature) => getModelChain(feature)[0];
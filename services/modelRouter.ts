@@ -0,0 +1,155 @@
+import { ModelFeature, FEATURE_MODELS, getModelChain } from "./modelRegistry";
+import { withRetry, isAbortError, RetryOptions } from "./jobScheduler";
+import { getProvider } from "./aiProvider";
+
+// --- Model Router ---
+// Every AI call goes through callModel: it walks the feature's model chain,
+// retries transient failures on each model, enforces the feature timeout and
+// turns provider errors into ModelError so callers can tell them apart.
+
+// What went wrong, as far as the student needs to know. Each kind has its own
+// explanation; App shows it in an error bubble with a Retry button.
+export type ModelErrorKind =
+  | 'missing-key'
+  | 'key-locked'
+  | 'missing-model'
+  | 'auth'
+  | 'permission'
+  | 'not-found'
+  | 'quota'
+  | 'rate-limit'
+  | 'server'
+  | 'timeout'
+  | 'network'
+  | 'safety'
+  | 'invalid-request'
+  | 'too-large'
+  | 'invalid-response'
+  | 'empty-image'
+  | 'unknown';
+
+const ERROR_MESSAGES: Record<ModelErrorKind, string> = {
+  'missing-key': 'لا يوجد مفتاح Gemini مضبوط. أضف مفتاحك من إعدادات المفتاح.',
+  'key-locked': 'مفتاحك محفوظ ومشفّر. أدخل عبارة المرور لفتحه.',
+  'missing-model': 'لم يُحدَّد نموذج لهذه الميزة على الخادم المتوافق مع OpenAI. أضفه من إعدادات المزوّد.',
+  'auth': 'مفتاح الواجهة البرمجية غير صالح. تحقق منه في إعدادات المفتاح.',
+  'permission': 'لا يملك المفتاح صلاحية استخدام هذا النموذج. اختر نموذجاً آخر من إعدادات النماذج.',
+  'not-found': 'النموذج المطلوب غير متوفر. اختر نموذجاً آخر من إعدادات النماذج.',
+  'quota': 'نفدت حصة الاستخدام المتاحة لهذا المفتاح. حاول لاحقاً أو استخدم مفتاحاً آخر.',
+  'rate-limit': 'تم تجاوز حد الطلبات. انتظر قليلاً ثم أعد المحاولة.',
+  'server': 'الخدمة مشغولة أو غير متاحة حالياً. أعد المحاولة بعد لحظات.',
+  'timeout': 'استغرق النموذج وقتاً أطول من المسموح. جرّب سؤالاً أقصر أو أعد المحاولة.',
+  'network': 'تعذر الاتصال بالخدمة. تحقق من اتصالك بالإنترنت.',
+  'safety': 'حجبت مرشحات الأمان هذا الطلب أو رده. أعد صياغة السؤال.',
+  'invalid-request': 'رفض النموذج الطلب. جرّب صياغة مختلفة.',
+  'too-large': 'الطلب أكبر من الحد المسموح. قلّل عدد الصور أو حجمها.',
+  'invalid-response': 'أعاد النموذج رداً بصيغة غير صالحة. أعد المحاولة.',
+  'empty-image': 'لم يُرجع النموذج أي صورة. جرّب وصفاً مختلفاً.',
+  'unknown': 'حدث خطأ غير متوقع.',
+};
+
+const RETRYABLE_KINDS: ModelErrorKind[] = ['rate-limit', 'server', 'network'];
+
+// Worth trying the next model in the chain; a bad key or a cancelled call is not
+const FALLBACK_KINDS: ModelErrorKind[] = ['permission', 'not-found', 'quota', 'rate-limit', 'server', 'timeout', 'invalid-request', 'invalid-response', 'empty-image'];
+
+export class ModelError extends Error {
+  readonly kind: ModelErrorKind;
+  readonly status?: number;
+  readonly model?: string;
+  readonly retryable: boolean;
+
+  constructor(kind: ModelErrorKind, options: { status?: number; model?: string; cause?: unknown; message?: string } = {}) {
+    super(options.message || ERROR_MESSAGES[kind]);
+    this.name = 'ModelError';
+    this.kind = kind;
+    this.status = options.status;
+    this.model = options.model;
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+export const classifyError = (error: any, model?: string): ModelError => {
+  if (error instanceof ModelError) return error;
+  const status = Number(error?.status ?? error?.code) || undefined;
+  const text = `${error?.message || ''}`;
+  const kind: ModelErrorKind =
+    /API Key is missing/i.test(text) ? 'missing-key'
+    : status === 401 || /API key not valid|API_KEY_INVALID|UNAUTHENTICATED/i.test(text) ? 'auth'
+    : status === 403 || /PERMISSION_DENIED/.test(text) ? 'permission'
+    : status === 404 || /NOT_FOUND/.test(text) ? 'not-found'
+    : /blocked by safety filters/i.test(text) ? 'safety'
+    // Per-minute and daily limits both answer 429; only the daily one won't clear by retrying
+    : (status === 429 || /RESOURCE_EXHAUSTED/.test(text)) && /PerDay/.test(text) ? 'quota'
+    : status === 429 || /RESOURCE_EXHAUSTED/.test(text) ? 'rate-limit'
+    : (status && status >= 500) || /UNAVAILABLE|INTERNAL|overloaded/i.test(text) ? 'server'
+    : error instanceof SyntaxError ? 'invalid-response'
+    : error instanceof TypeError && /fetch|network/i.test(text) ? 'network'
+    : status === 413 ? 'too-large'
+    : status === 400 || /INVALID_ARGUMENT/.test(text) ? 'invalid-request'
+    : 'unknown';
+  return new ModelError(kind, { status, model, cause: error });
+};
+
+// Transient errors are retried on the same model before the chain moves on
+const MODEL_RETRY: RetryOptions = {
+  maxRetries: 1,
+  baseDelayMs: 1500,
+  maxDelayMs: 8000,
+};
+
+const withTimeout = async <T>(run: (signal?: AbortSignal) => Promise<T>, timeoutMs: number, model: string, signal?: AbortSignal): Promise<T> => {
+  if (!timeoutMs) return run(signal);
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ModelError('timeout', { model }));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+export const callModel = async <T>(
+  feature: ModelFeature,
+  run: (model: string, signal?: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const { timeoutMs } = FEATURE_MODELS[feature];
+  let lastError: ModelError | null = null;
+
+  // Providers with their own model names only get the primary id
+  const chain = getModelChain(feature);
+  for (const model of getProvider().usesModelRegistry ? chain : chain.slice(0, 1)) {
+    try {
+      return await withRetry(
+        s => withTimeout(t => run(model, t).catch(error => { throw isAbortError(error) ? error : classifyError(error, model); }), timeoutMs, model, s),
+        { ...MODEL_RETRY, signal }
+      );
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      lastError = classifyError(error, model);
+      if (!FALLBACK_KINDS.includes(lastError.kind)) throw lastError;
+      console.warn(`${model} failed (${lastError.kind}); trying the next model for ${feature}.`);
+    }
+  }
+  throw lastError || new ModelError('unknown');
+};
+
+// Parses a JSON reply, reporting malformed output as a typed error
+export const parseJsonResponse = <T>(text: string | undefined, model?: string): T => {
+  try {
+    return JSON.parse(text || '') as T;
+  } catch (error) {
+    throw new ModelError('invalid-response', { model, cause: error });
+  }
+};
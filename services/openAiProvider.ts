@@ -0,0 +1,168 @@
+import type { Schema } from "@google/genai";
+import type { AiProvider, ContentPart, JsonRequest, TextRequest, TextResult } from "./aiProvider";
+import { getProviderSettings } from "./aiProvider";
+import { parseJsonResponse, ModelError } from "./modelRouter";
+
+// --- OpenAI-Compatible Provider ---
+// Talks to any server implementing the OpenAI REST API (OpenAI itself, Ollama,
+// LM Studio, vLLM, LocalAI...). Models come from the provider settings only: the
+// registry's Gemini ids don't exist on these servers. Web search is not available here, so answers carry no sources.
+
+// Errors keep the HTTP status so modelRouter can classify them
+const httpError = async (response: Response) => {
+  let detail = response.statusText;
+  try {
+    const body = await response.json();
+    detail = body.error?.message || body.message || detail;
+  } catch {
+    // Body was not JSON
+  }
+  return Object.assign(new Error(`${response.status} ${detail}`), { status: response.status });
+};
+
+const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+  const { baseUrl, apiKey } = getProviderSettings().openAi;
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) throw await httpError(response);
+  return response;
+};
+
+const pickModel = (kind: 'textModel' | 'imageModel' | 'speechModel', registryModel: string) => {
+  const model = getProviderSettings().openAi[kind].trim();
+  if (!model) throw new ModelError('missing-model', { model: registryModel });
+  return model;
+};
+
+// Voice questions arrive as WAV (see voiceInput), which audio-capable chat models accept as input_audio
+const toContent = (parts: ContentPart[]) => parts.map(part => 'text' in part
+  ? { type: 'text', text: part.text }
+  : part.inlineData.mimeType.startsWith('audio/')
+  ? { type: 'input_audio', input_audio: { data: part.inlineData.data, format: 'wav' } }
+  : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+
+const toMessages = (request: TextRequest) => [
+  ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+  ...(request.history || []).map(turn => ({
+    role: turn.role === 'model' ? 'assistant' : 'user',
+    content: turn.parts.map(p => p.text).join('\n'),
+  })),
+  { role: 'user', content: toContent(request.parts) },
+];
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema wants lower case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+    result.required = schema.required || Object.keys(schema.properties);
+  }
+  return result;
+};
+
+// Same wording as geminiApi so modelRouter reports it as a safety block
+const checkFiltered = (choice: any) => {
+  if (choice?.finish_reason === 'content_filter') throw new Error('Response blocked by safety filters (content_filter)');
+};
+
+const chatBody = (request: TextRequest, stream: boolean) => ({
+  model: pickModel('textModel', request.model),
+  messages: toMessages(request),
+  stream,
+});
+
+// Server-sent events: one `data: {json}` line per delta, ending with `data: [DONE]`
+const readEvents = async (response: Response, onEvent: (data: any) => void, signal?: AbortSignal) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (!signal?.aborted) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      onEvent(JSON.parse(data));
+    }
+  }
+  reader.cancel().catch(() => {});
+};
+
+export const openAiProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  usesModelRegistry: false,
+
+  generateText: async (request) => {
+    const response = await post('/chat/completions', chatBody(request, false), request.signal);
+    const choice = (await response.json()).choices?.[0];
+    checkFiltered(choice);
+    const message = choice?.message;
+    return { text: message?.content || '', thoughts: message?.reasoning_content || '', sources: [] };
+  },
+
+  streamText: async (request, onUpdate) => {
+    const response = await post('/chat/completions', chatBody(request, true), request.signal);
+    const result: TextResult = { text: '', thoughts: '', sources: [] };
+    await readEvents(response, event => {
+      checkFiltered(event.choices?.[0]);
+      const delta = event.choices?.[0]?.delta;
+      // Reasoning models served by vLLM/DeepSeek-style servers send their thinking separately
+      if (delta?.content || delta?.reasoning_content) {
+        result.text += delta.content || '';
+        result.thoughts += delta.reasoning_content || '';
+        onUpdate({ ...result });
+      }
+    }, request.signal);
+    return result;
+  },
+
+  generateJson: async <T>(request: JsonRequest): Promise<T> => {
+    const model = pickModel('textModel', request.model);
+    const response = await post('/chat/completions', {
+      ...chatBody(request, false),
+      response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.schema) } },
+    }, request.signal);
+    const choice = (await response.json()).choices?.[0];
+    checkFiltered(choice);
+    const content = choice?.message?.content;
+    // Some local servers wrap JSON in a code fence despite the response format
+    return parseJsonResponse<T>(content?.replace(/^```(?:json)?\s*|\s*```$/g, ''), model);
+  },
+
+  generateImage: async (request) => {
+    const response = await post('/images/generations', {
+      model: pickModel('imageModel', request.model),
+      prompt: request.prompt,
+      size: '1792x1024',
+      response_format: 'b64_json',
+      n: 1,
+    }, request.signal);
+    const image = (await response.json()).data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    return image?.url || null;
+  },
+
+  generateSpeech: async (request) => {
+    const response = await post('/audio/speech', {
+      model: pickModel('speechModel', request.model),
+      input: request.text,
+      voice: 'alloy',
+      response_format: 'wav',
+    }, request.signal);
+    return response.arrayBuffer();
+  },
+};
@@ -0,0 +1,185 @@
+import { PlotSpec } from "../types";
+import { tryParseLatex, getVariables, compileFunction, extractMathBlocks } from "./mathParser";
+
+// --- Function Plot Detection & Analysis ---
+// Decides whether a VISUALIZER prompt is really a function plot and finds the
+// interesting points (roots, extrema, intersections) of the curves to draw.
+
+type RealFn = (x: number) => number;
+
+export interface PlotPoint {
+  x: number;
+  y: number;
+}
+
+// `curve` is the index of the function a marker belongs to
+export interface PlotMarkers {
+  roots: (PlotPoint & { curve: number })[];
+  extrema: (PlotPoint & { curve: number; kind: 'max' | 'min' })[];
+  intersections: PlotPoint[];
+}
+
+// "y =", "f(x) =", "g(x)=" prefixes
+const LHS_PATTERN = /^\s*(?:y|[a-zA-Z]\s*\(\s*x\s*\))\s*=\s*/;
+
+// Runs of Latin math text inside an Arabic prompt, e.g. "ارسم y = x^2 - 3x و y = 2x"
+const PLAIN_MATH_PATTERN = /[A-Za-z0-9\s+\-*/^().=\\{}|_]+/g;
+
+const parseCurve = (candidate: string) => {
+  const hasLhs = LHS_PATTERN.test(candidate);
+  const expression = candidate.replace(LHS_PATTERN, '').trim();
+  if (!expression || expression.includes('=')) return null;
+
+  const node = tryParseLatex(expression);
+  if (!node) return null;
+  const variables = getVariables(node);
+  if (variables.some(v => v !== 'x')) return null;
+  // A bare constant is only a curve when written as "y = 3"
+  if (variables.length === 0 && !hasLhs) return null;
+  return expression;
+};
+
+export const detectPlot = (prompt: string): PlotSpec | null => {
+  const mathBlocks = extractMathBlocks(prompt);
+  const candidates = mathBlocks.length > 0
+    ? mathBlocks.flatMap(b => b.split(/[,;]|\\quad|\\text\{[^}]*\}/))
+    : (prompt.match(PLAIN_MATH_PATTERN) || []).flatMap(s => s.split(/[,;]/));
+
+  const expressions = candidates
+    .map(c => c.trim())
+    .filter(c => /[a-zA-Z0-9]/.test(c))
+    .map(parseCurve)
+    .filter((e): e is string => e !== null);
+
+  if (expressions.length === 0) return null;
+  return {
+    functions: Array.from(new Set(expressions)).slice(0, 5).map(expression => ({ expression })),
+  };
+};
+
+export const compileCurve = (expression: string): RealFn | null => {
+  const node = tryParseLatex(expression);
+  return node ? compileFunction(node, 'x') : null;
+};
+
+// --- Numerical analysis ---
+
+const SAMPLES = 600;
+
+const bisect = (f: RealFn, a: number, b: number) => {
+  let fa = f(a);
+  for (let i = 0; i < 60; i++) {
+    const mid = (a + b) / 2;
+    const fm = f(mid);
+    if (Math.sign(fm) === Math.sign(fa)) {
+      a = mid;
+      fa = fm;
+    } else {
+      b = mid;
+    }
+  }
+  return (a + b) / 2;
+};
+
+// Golden-section search for a minimum of f on [a, b]
+const goldenMin = (f: RealFn, a: number, b: number) => {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  for (let i = 0; i < 60; i++) {
+    if (f(c) < f(d)) b = d; else a = c;
+    c = b - ratio * (b - a);
+    d = a + ratio * (b - a);
+  }
+  return (a + b) / 2;
+};
+
+const dedupe = <T extends PlotPoint>(points: T[], tolerance: number) => {
+  return points.filter((p, i) => !points.slice(0, i).some(q => Math.abs(q.x - p.x) < tolerance));
+};
+
+export const findRoots = (f: RealFn, xMin: number, xMax: number): PlotPoint[] => {
+  const step = (xMax - xMin) / SAMPLES;
+  const roots: PlotPoint[] = [];
+  let prevX = xMin;
+  let prevY = f(xMin);
+  for (let i = 1; i <= SAMPLES; i++) {
+    const x = xMin + i * step;
+    const y = f(x);
+    if (isFinite(prevY) && isFinite(y)) {
+      if (y === 0) {
+        roots.push({ x, y: 0 });
+      } else if (Math.sign(prevY) !== Math.sign(y) && prevY !== 0) {
+        const root = bisect(f, prevX, x);
+        // A sign change across a pole (e.g. 1/x) is not a root
+        if (Math.abs(f(root)) < 1e-6 * Math.max(1, Math.abs(prevY), Math.abs(y))) {
+          roots.push({ x: root, y: 0 });
+        }
+      }
+    }
+    prevX = x;
+    prevY = y;
+  }
+  // Double roots (x^2 at 0) touch the axis without crossing it
+  findExtrema(f, xMin, xMax)
+    .filter(p => Math.abs(p.y) < 1e-9)
+    .forEach(p => roots.push({ x: p.x, y: 0 }));
+  return dedupe(roots, step).sort((a, b) => a.x - b.x);
+};
+
+export const findExtrema = (f: RealFn, xMin: number, xMax: number) => {
+  const step = (xMax - xMin) / SAMPLES;
+  const extrema: (PlotPoint & { kind: 'max' | 'min' })[] = [];
+  for (let i = 1; i < SAMPLES; i++) {
+    const x0 = xMin + (i - 1) * step;
+    const x1 = xMin + i * step;
+    const x2 = xMin + (i + 1) * step;
+    const [y0, y1, y2] = [f(x0), f(x1), f(x2)];
+    if (![y0, y1, y2].every(isFinite)) continue;
+
+    if (y1 <= y0 && y1 < y2) {
+      const x = goldenMin(f, x0, x2);
+      extrema.push({ x, y: f(x), kind: 'min' });
+    } else if (y1 >= y0 && y1 > y2) {
+      const x = goldenMin(t => -f(t), x0, x2);
+      extrema.push({ x, y: f(x), kind: 'max' });
+    }
+  }
+  return dedupe(extrema, step);
+};
+
+export const analyzeCurves = (fns: RealFn[], xMin: number, xMax: number): PlotMarkers => {
+  const intersections: PlotPoint[] = [];
+  for (let i = 0; i < fns.length; i++) {
+    for (let j = i + 1; j < fns.length; j++) {
+      const [f, g] = [fns[i], fns[j]];
+      findRoots(x => f(x) - g(x), xMin, xMax).forEach(p => intersections.push({ x: p.x, y: f(p.x) }));
+    }
+  }
+  return {
+    roots: fns.flatMap((f, curve) => findRoots(f, xMin, xMax).map(p => ({ ...p, curve }))),
+    extrema: fns.flatMap((f, curve) => findExtrema(f, xMin, xMax).map(p => ({ ...p, curve }))),
+    intersections,
+  };
+};
+
+// Initial y-range that frames the curves without letting asymptotes dominate
+export const suggestYRange = (fns: RealFn[], xMin: number, xMax: number): [number, number] => {
+  const values: number[] = [];
+  fns.forEach(f => {
+    for (let i = 0; i <= 200; i++) {
+      const y = f(xMin + (i / 200) * (xMax - xMin));
+      if (isFinite(y)) values.push(y);
+    }
+  });
+  if (values.length === 0) return [-10, 10];
+
+  values.sort((a, b) => a - b);
+  let low = values[Math.floor(values.length * 0.05)];
+  let high = values[Math.floor(values.length * 0.95)];
+  low = Math.min(low, 0);
+  high = Math.max(high, 0);
+  if (high - low < 1e-6) return [low - 5, high + 5];
+  const padding = (high - low) * 0.15;
+  return [low - padding, high + padding];
+};
@@ -0,0 +1,158 @@
+import { PracticeProblem } from "../types";
+import { MathNode, tryParseLatex, evaluate, getVariables } from "./mathParser";
+import { isClose, roundingTolerance, stripConstant } from "./verificationService";
+
+// --- Practice Grading ---
+// Checks a student's answer to a generated problem, or a step of a guided
+// solution, against the hidden one without calling the model. Numbers count within the precision they were
+// written with; expressions are compared by value at sample points, so any
+// equivalent form is accepted. Several answers ("x = 2, x = 3") match in any order.
+
+const SAMPLE_VALUES = [-1.7, -0.6, 0.45, 1.3, 2.2, 3.1];
+
+interface ReadAnswer {
+  latex: string;
+  node: MathNode;
+  equation: boolean; // Read as lhs - rhs
+}
+
+// Symbols typed on a keyboard or phone, rewritten as the parser expects them
+const normalize = (answer: string) => answer
+  .replace(/\$/g, '')
+  .replace(/\\boxed\{([\s\S]*)\}/, '$1')
+  .replace(/\\[,;:!]/g, ' ')
+  .replace(/√\s*\(/g, 'sqrt(')
+  .replace(/√/g, '\\sqrt ')
+  .replace(/π/g, '\\pi ')
+  .replace(/±/g, '\\pm ')
+  .replace(/\\approx|≈/g, '=')
+  .replace(/[×·]/g, '*')
+  .replace(/÷/g, '/')
+  .replace(/−/g, '-')
+  .replace(/٫/g, '.')
+  // 1,000 groups thousands; any other comma between digits is a decimal comma (2,5)
+  .replace(/\d+(?:,\d+)+/g, n => /^\d{1,3}(?:,\d{3})+$/.test(n) ? n.replace(/,/g, '') : n.replace(',', '.'))
+  .replace(/\.\s*$/, '')
+  .trim();
+
+// Top-level commas, semicolons and "أو"/"or" separate answers; set braces \{..\} are dropped
+const splitAnswers = (answer: string): string[] => {
+  const text = answer
+    .replace(/\\[{}]/g, '')
+    .replace(/\\text\{\s*(?:أو|or|و|and)\s*\}|\s(?:أو|or|و)\s/g, ',');
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (depth === 0 && ',;،'.includes(char)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+// "x = 3", "x_1 = 3" and "f(x) = 2x" are read as their right-hand side
+const stripLeftSide = (part: string) => part.replace(/^[a-zA-Z](?:_\{?\w+\}?)?'?(?:\(\s*[a-z]\s*\))?\s*=\s*/, '');
+
+// The answers in a response, with \pm expanded into two; null when any of them can't be parsed
+const readAnswers = (text: string): ReadAnswer[] | null => {
+  const parts = splitAnswers(normalize(text))
+    .map(stripLeftSide)
+    .flatMap(part => part.includes('\\pm')
+      ? [part.replace('\\pm', '+').replace(/^\+\s*/, ''), part.replace('\\pm', '-')]
+      : [part]);
+  if (parts.length === 0) return null;
+
+  const answers: ReadAnswer[] = [];
+  for (const latex of parts) {
+    // An equation such as (x - 2)(x - 3) = 0 is compared through the difference of its sides
+    const sides = latex.split('=');
+    const equation = sides.length === 2;
+    const node = tryParseLatex(equation ? `(${sides[0]}) - (${sides[1]})` : stripConstant(latex));
+    if (!node) return null;
+    answers.push({ latex, node, equation });
+  }
+  return answers;
+};
+
+// Null when too few sample points are defined for both to decide. Equations
+// that differ may still be equivalent (2x = 4 and x = 2), so that is left open too.
+// The key's precision sets the tolerance: an answer rounded more coarsely than the
+// key (1.2 for 1.25, 1.41 for √2) is never accepted here, only passed on to the model.
+const sameValue = (expected: ReadAnswer, given: ReadAnswer): boolean | null => {
+  const variables = Array.from(new Set([...getVariables(expected.node), ...getVariables(given.node)]));
+  const expectedTolerance = roundingTolerance(expected.latex);
+  const givenTolerance = roundingTolerance(given.latex);
+  const coarser = givenTolerance > expectedTolerance;
+  const tolerance = Math.max(1e-6, expectedTolerance);
+  let compared = 0;
+  for (let i = 0; i < SAMPLE_VALUES.length; i++) {
+    // Each variable gets a different value at every point
+    const scope = Object.fromEntries(variables.map((v, j) => [v, SAMPLE_VALUES[(i + 2 * j) % SAMPLE_VALUES.length]]));
+    let a: number;
+    let b: number;
+    try {
+      a = evaluate(expected.node, scope);
+      b = evaluate(given.node, scope);
+    } catch {
+      return null;
+    }
+    if (!isFinite(a) || !isFinite(b)) continue;
+    if (!isClose(a, b, tolerance)) {
+      if (expected.equation || given.equation) return null;
+      return coarser && isClose(a, b, givenTolerance) ? null : false;
+    }
+    compared++;
+    if (variables.length === 0) break;
+  }
+  return compared >= (variables.length === 0 ? 1 : 3) ? true : null;
+};
+
+const compareReadings = (expectedAnswer: string, response: string): boolean | null => {
+  const expected = readAnswers(expectedAnswer);
+  const given = readAnswers(response);
+  if (!expected || !given) return null;
+  // Letters the hidden answer doesn't use are likely words, which the model reads better
+  const variables = new Set(expected.flatMap(answer => getVariables(answer.node)));
+  if (given.some(answer => getVariables(answer.node).some(v => !variables.has(v)))) return null;
+  // A number may have been split or joined by a comma the other way round (1,2 as 1.2)
+  if (expected.length !== given.length) {
+    return [...expected, ...given].some(answer => getVariables(answer.node).length === 0) ? null : false;
+  }
+
+  const unmatched = [...given];
+  for (const answer of expected) {
+    const results = unmatched.map(candidate => sameValue(answer, candidate));
+    const index = results.indexOf(true);
+    if (index === -1) return results.includes(null) ? null : false;
+    unmatched.splice(index, 1);
+  }
+  return true;
+};
+
+const DEGREES = /\^\s*\{?\s*\\circ\s*\}?|°/g;
+const hasDegrees = (text: string) => text.search(DEGREES) !== -1;
+
+// 2,500 may be 2.5 with a decimal comma rather than 2500
+const AMBIGUOUS_COMMA = /\d,\d{3}(?!\d)/;
+
+// True or false for numbers, expressions and equations; null when the model
+// has to decide, e.g. for answers the parser can't read
+export const compareAnswers = (expectedAnswer: string, response: string): boolean | null => {
+  // Degrees on one side only: 30 for 30° is accepted, anything else is left to the model
+  if (hasDegrees(expectedAnswer) !== hasDegrees(response)) {
+    return compareReadings(expectedAnswer.replace(DEGREES, ''), response.replace(DEGREES, '')) || null;
+  }
+  const result = compareReadings(expectedAnswer, response);
+  return result === false && AMBIGUOUS_COMMA.test(response) ? null : result;
+};
+
+// Proofs are always graded by the model
+export const gradeAnswer = (problem: PracticeProblem, response: string): boolean | null =>
+  problem.answerKind === 'proof' ? null : compareAnswers(problem.answer, response);
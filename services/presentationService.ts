@@ -0,0 +1,310 @@
+import PptxGenJS from 'pptxgenjs';
+import { PresentationData, PresentationSlide, SlideLayout } from "../types";
+import { containsMath } from "./mathParser";
+import { MathImage, MathImageOptions, renderMathImage, mathToPlainText } from "./mathImageService";
+import { PresentationTheme, chooseLayout, definitionLabel } from "./presentationThemes";
+
+// --- PPTX Builder ---
+// Turns a reviewed outline (with its generated images) into a downloadable .pptx,
+// styled by a theme and laid out per slide (see presentationThemes).
+
+// 16:9 slide, in inches
+export const SLIDE_WIDTH = 10;
+export const SLIDE_HEIGHT = 5.625;
+const MARGIN = 0.5;
+const CONTENT_WIDTH = SLIDE_WIDTH - MARGIN * 2;
+
+const PX_PER_INCH = 96;
+const ptToPx = (pt: number) => (pt * PX_PER_INCH) / 72;
+
+const BULLET_FONT_SIZE = 16;
+const EXAMPLE_FONT_SIZE = 14;
+
+export interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Where each layout places its parts. Bullet columns are listed right-most first (RTL).
+export interface LayoutFrame {
+  image: Box | null;
+  bullets: Box[];
+  examples: Box | null; // Includes the label row
+}
+
+export const LAYOUT_FRAMES: Record<SlideLayout, LayoutFrame> = {
+  'image-text': {
+    image: { x: MARGIN, y: 1.1, w: 3.2, h: 2.8 },
+    bullets: [{ x: 3.9, y: 1.1, w: 5.6, h: 2.8 }],
+    examples: { x: MARGIN, y: 4.0, w: CONTENT_WIDTH, h: 1.125 },
+  },
+  'full-image': {
+    image: { x: 0, y: 0, w: SLIDE_WIDTH, h: SLIDE_HEIGHT },
+    bullets: [{ x: 0.7, y: 4.05, w: SLIDE_WIDTH - 1.4, h: 1.3 }],
+    examples: null,
+  },
+  'two-column': {
+    image: null,
+    bullets: [{ x: 5.15, y: 1.1, w: 4.35, h: 2.8 }, { x: MARGIN, y: 1.1, w: 4.35, h: 2.8 }],
+    examples: { x: MARGIN, y: 4.0, w: CONTENT_WIDTH, h: 1.125 },
+  },
+  'definition': {
+    image: null,
+    bullets: [{ x: 0.8, y: 1.55, w: 8.4, h: 2.2 }],
+    examples: { x: MARGIN, y: 4.0, w: CONTENT_WIDTH, h: 1.125 },
+  },
+  'worked-example': {
+    image: null,
+    bullets: [{ x: MARGIN, y: 1.1, w: CONTENT_WIDTH, h: 0.9 }],
+    examples: { x: MARGIN, y: 2.1, w: CONTENT_WIDTH - 0.25, h: 3.0 },
+  },
+};
+
+// Splits bullets across the layout's columns, filling the right-hand column first
+export const splitColumns = (items: string[], count: number) => {
+  const perColumn = Math.ceil(items.length / count);
+  return Array.from({ length: count }, (_, c) => items.slice(c * perColumn, (c + 1) * perColumn));
+};
+
+export const examplePrefix = (layout: SlideLayout, index: number) =>
+  layout === 'worked-example' ? `الخطوة ${index + 1}: ` : `${index + 1}. `;
+
+// PowerPoint cannot typeset LaTeX, so when a list has any math every line of it is
+// rendered as an image (bullet or number included). Null means "use plain text".
+const renderMathColumns = async (
+  columns: string[][],
+  widths: number[],
+  prefix: (index: number) => string,
+  options: Omit<MathImageOptions, 'maxWidth'>
+): Promise<MathImage[][] | null> => {
+  if (!columns.flat().some(containsMath)) return null;
+  try {
+    return await Promise.all(columns.map((items, c) => Promise.all(
+      items.map((item, i) => renderMathImage(`${prefix(i)}${item}`, { ...options, maxWidth: widths[c] * PX_PER_INCH }))
+    )));
+  } catch (error) {
+    console.warn("Math rendering failed, falling back to plain text", error);
+    return null;
+  }
+};
+
+// Stacks rendered lines from the top of the box, right-aligned for RTL,
+// scaled down together if they would overflow
+const addMathLines = (slide: PptxGenJS.Slide, lines: MathImage[], box: Box) => {
+  if (lines.length === 0) return;
+  const gap = 0.08;
+  const total = lines.reduce((sum, line) => sum + line.height / PX_PER_INCH, 0) + gap * (lines.length - 1);
+  const widest = Math.max(...lines.map(line => line.width / PX_PER_INCH));
+  const scale = Math.min(1, box.h / total, box.w / widest);
+  let cursor = box.y;
+  for (const line of lines) {
+    const lineW = (line.width / PX_PER_INCH) * scale;
+    const lineH = (line.height / PX_PER_INCH) * scale;
+    slide.addImage({ data: line.data, x: box.x + box.w - lineW, y: cursor, w: lineW, h: lineH });
+    cursor += lineH + gap * scale;
+  }
+};
+
+interface PreparedSlide {
+  slide: PresentationSlide;
+  layout: SlideLayout;
+  bulletColumns: string[][];
+  mathBullets: MathImage[][] | null;
+  mathExamples: MathImage[] | null;
+}
+
+const prepareSlide = async (slide: PresentationSlide, theme: PresentationTheme): Promise<PreparedSlide> => {
+  const layout = slide.layout || chooseLayout(slide);
+  const frame = LAYOUT_FRAMES[layout];
+  const bulletColumns = splitColumns(slide.bullets, frame.bullets.length);
+
+  const mathBullets = await renderMathColumns(bulletColumns, frame.bullets.map(b => b.w), () => '• ', {
+    fontSize: ptToPx(BULLET_FONT_SIZE),
+    color: layout === 'full-image' ? theme.colors.onAccent : theme.colors.text,
+    fontFamily: theme.fonts.body,
+  });
+  const mathExamples = frame.examples
+    ? await renderMathColumns([slide.examples || []], [frame.examples.w], i => examplePrefix(layout, i), {
+        fontSize: ptToPx(EXAMPLE_FONT_SIZE),
+        color: theme.colors.muted,
+        fontFamily: theme.fonts.body,
+      })
+    : null;
+
+  return { slide, layout, bulletColumns, mathBullets, mathExamples: mathExamples?.[0] || null };
+};
+
+// --- Slide Parts ---
+
+const addTitle = (pres: PptxGenJS, slide: PptxGenJS.Slide, title: string, theme: PresentationTheme, overImage: boolean) => {
+  const { colors, fonts } = theme;
+  const onBand = overImage || theme.titleStyle === 'band';
+  if (onBand) {
+    slide.addShape(pres.ShapeType.rect, {
+      x: 0, y: 0, w: SLIDE_WIDTH, h: 0.95,
+      fill: { color: colors.accent, transparency: overImage ? 15 : 0 }
+    });
+  }
+  slide.addText(title, {
+    x: MARGIN, y: onBand ? 0.12 : 0.3, w: CONTENT_WIDTH, h: 0.7,
+    fontSize: 24, bold: true, fontFace: fonts.heading, color: onBand ? colors.onAccent : colors.title,
+    valign: 'middle', rtlMode: true, align: 'right'
+  });
+  if (theme.titleStyle === 'underline' && !overImage) {
+    slide.addShape(pres.ShapeType.line, {
+      x: MARGIN, y: 1.0, w: CONTENT_WIDTH, h: 0,
+      line: { color: colors.accent, width: 2 }
+    });
+  }
+};
+
+const addImageArea = (pres: PptxGenJS, slide: PptxGenJS.Slide, imageBase64: string | null | undefined, box: Box, theme: PresentationTheme) => {
+  if (imageBase64) {
+    slide.addImage({
+      data: imageBase64,
+      ...box,
+      sizing: { type: box.w === SLIDE_WIDTH ? 'cover' : 'contain', w: box.w, h: box.h }
+    });
+    return;
+  }
+  // Fallback box if image failed
+  slide.addShape(pres.ShapeType.rect, { ...box, fill: { color: theme.colors.surface } });
+  slide.addText("لا توجد صورة", {
+    ...box, fontSize: 10, align: 'center', color: theme.colors.muted, fontFace: theme.fonts.body
+  });
+};
+
+const addBullets = (slide: PptxGenJS.Slide, items: string[], box: Box, color: string, theme: PresentationTheme) => {
+  // Prevent overlap with shrinkText: true
+  const bullets: PptxGenJS.TextProps[] = items.map(b => ({
+    text: mathToPlainText(b),
+    options: { fontSize: BULLET_FONT_SIZE, color, fontFace: theme.fonts.body, breakLine: true, bullet: true, inset: 5, rtlMode: true, align: 'right' }
+  }));
+  slide.addText(bullets, {
+    ...box,
+    lineSpacing: 24,
+    valign: 'top',
+    shrinkText: true,
+    rtlMode: true,
+    align: 'right'
+  });
+};
+
+const addExamples = (slide: PptxGenJS.Slide, prepared: PreparedSlide, box: Box, theme: PresentationTheme) => {
+  const { slide: s, layout, mathExamples } = prepared;
+  const isSteps = layout === 'worked-example';
+  slide.addText(isSteps ? 'خطوات الحل:' : 'أمثلة:', {
+    x: box.x, y: box.y, w: box.w, h: 0.3,
+    fontSize: 14, bold: true, color: isSteps ? theme.colors.accent : theme.colors.title,
+    fontFace: theme.fonts.heading, rtlMode: true, align: 'right'
+  });
+
+  const listBox = { x: box.x, y: box.y + 0.3, w: box.w, h: box.h - 0.3 };
+  if (mathExamples) {
+    addMathLines(slide, mathExamples, listBox);
+    return;
+  }
+  const examples: PptxGenJS.TextProps[] = s.examples.map((e, i) => ({
+    text: isSteps ? `${examplePrefix(layout, i)}${mathToPlainText(e)}` : mathToPlainText(e),
+    options: {
+      fontSize: EXAMPLE_FONT_SIZE, color: theme.colors.muted, fontFace: theme.fonts.body, breakLine: true,
+      bullet: isSteps ? false : { type: 'number' }, rtlMode: true, align: 'right'
+    }
+  }));
+  slide.addText(examples, {
+    ...listBox,
+    valign: 'top',
+    shrinkText: true,
+    rtlMode: true,
+    align: 'right'
+  });
+};
+
+const addContentSlide = (pres: PptxGenJS, prepared: PreparedSlide, theme: PresentationTheme) => {
+  const { slide: s, layout, bulletColumns, mathBullets } = prepared;
+  const frame = LAYOUT_FRAMES[layout];
+  const { colors } = theme;
+  const slide = pres.addSlide();
+  slide.background = { color: colors.background };
+
+  if (frame.image) addImageArea(pres, slide, s.imageBase64, frame.image, theme);
+
+  // Layout decorations sit beneath the text
+  if (layout === 'full-image') {
+    slide.addShape(pres.ShapeType.rect, {
+      x: 0, y: 3.9, w: SLIDE_WIDTH, h: SLIDE_HEIGHT - 3.9,
+      fill: { color: '000000', transparency: 35 }
+    });
+  }
+  if (layout === 'definition') {
+    slide.addShape(pres.ShapeType.roundRect, {
+      x: MARGIN, y: 1.1, w: CONTENT_WIDTH, h: 2.8, rectRadius: 0.08,
+      fill: { color: colors.surface }, line: { color: colors.accent, width: 1.5 }
+    });
+    slide.addShape(pres.ShapeType.rect, { x: SLIDE_WIDTH - MARGIN - 0.1, y: 1.1, w: 0.1, h: 2.8, fill: { color: colors.accent } });
+    slide.addText(definitionLabel(s.title), {
+      x: SLIDE_WIDTH - MARGIN - 2.2, y: 1.15, w: 2.0, h: 0.35,
+      fontSize: 13, bold: true, color: colors.accent, fontFace: theme.fonts.heading, rtlMode: true, align: 'right'
+    });
+  }
+  if (layout === 'worked-example' && frame.examples) {
+    const steps = frame.examples;
+    slide.addShape(pres.ShapeType.rect, {
+      x: SLIDE_WIDTH - MARGIN - 0.06, y: steps.y + 0.35, w: 0.06, h: steps.h - 0.35,
+      fill: { color: colors.accent }
+    });
+  }
+
+  addTitle(pres, slide, s.title, theme, layout === 'full-image');
+
+  const bulletColor = layout === 'full-image' ? colors.onAccent : colors.text;
+  frame.bullets.forEach((box, c) => {
+    if (mathBullets) addMathLines(slide, mathBullets[c], box);
+    else if (bulletColumns[c].length > 0) addBullets(slide, bulletColumns[c], box, bulletColor, theme);
+  });
+
+  if (frame.examples && s.examples && s.examples.length > 0) {
+    addExamples(slide, prepared, frame.examples, theme);
+  }
+
+  // Notes
+  if (s.speakerNotes) {
+    slide.addNotes(s.speakerNotes);
+  }
+};
+
+export const buildPresentation = async (data: PresentationData, theme: PresentationTheme): Promise<string> => {
+  const pres = new PptxGenJS();
+  pres.rtlMode = true; // Enable RTL mode for the presentation
+  pres.layout = 'LAYOUT_16x9'; // 10 x 5.625 inches
+  pres.theme = { headFontFace: theme.fonts.heading, bodyFontFace: theme.fonts.body };
+
+  // Pre-render math before laying out slides
+  const prepared = await Promise.all(data.slides.map(s => prepareSlide(s, theme)));
+
+  // Title Slide
+  const { colors, fonts } = theme;
+  const onBand = theme.titleStyle === 'band';
+  const titleSlide = pres.addSlide();
+  titleSlide.background = { color: onBand ? colors.accent : colors.surface };
+  titleSlide.addText(data.title, {
+    x: 0.5, y: 2.0, w: '90%', fontSize: 36, align: 'center', bold: true, rtlMode: true,
+    fontFace: fonts.heading, color: onBand ? colors.onAccent : colors.heading
+  });
+  titleSlide.addText(`تم الإنشاء بواسطة MathMind AI`, {
+    x: 0.5, y: 3.5, w: '90%', fontSize: 18, align: 'center', rtlMode: true,
+    fontFace: fonts.body, color: onBand ? colors.onAccent : colors.muted
+  });
+  if (theme.titleStyle === 'underline') {
+    titleSlide.addShape(pres.ShapeType.line, { x: 3, y: 3.2, w: 4, h: 0, line: { color: colors.accent, width: 2 } });
+  }
+
+  // Content Slides
+  prepared.forEach(p => addContentSlide(pres, p, theme));
+
+  const fileName = `${data.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pptx`;
+  await pres.writeFile({ fileName });
+  return fileName;
+};
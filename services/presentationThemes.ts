@@ -0,0 +1,97 @@
+import { PresentationSlide, SlideLayout } from "../types";
+
+// --- Presentation Themes & Layouts ---
+
+export interface PresentationTheme {
+  id: string;
+  name: string;
+  colors: {
+    background: string; // Content slides
+    surface: string; // Boxes, placeholders, title slide
+    heading: string; // Title slide text
+    title: string; // Slide titles (band titles use onAccent)
+    text: string; // Bullets
+    muted: string; // Examples, captions
+    accent: string; // Bands, bars, labels
+    onAccent: string; // Text drawn on the accent colour
+  };
+  fonts: {
+    heading: string;
+    body: string;
+  };
+  // plain: coloured text; underline: accent rule under the title; band: title on an accent strip
+  titleStyle: 'plain' | 'underline' | 'band';
+}
+
+export const PRESENTATION_THEMES: PresentationTheme[] = [
+  {
+    id: 'indigo',
+    name: 'نيلي',
+    colors: {
+      background: 'FFFFFF', surface: 'F1F5F9', heading: '0F172A', title: '4F46E5',
+      text: '334155', muted: '475569', accent: '4F46E5', onAccent: 'FFFFFF',
+    },
+    fonts: { heading: 'Arial', body: 'Arial' },
+    titleStyle: 'plain',
+  },
+  {
+    id: 'midnight',
+    name: 'ليلي',
+    colors: {
+      background: '0F172A', surface: '1E293B', heading: 'F8FAFC', title: 'A5B4FC',
+      text: 'E2E8F0', muted: '94A3B8', accent: '6366F1', onAccent: 'FFFFFF',
+    },
+    fonts: { heading: 'Tahoma', body: 'Tahoma' },
+    titleStyle: 'band',
+  },
+  {
+    id: 'academic',
+    name: 'أكاديمي',
+    colors: {
+      background: 'FFFDF7', surface: 'F0EBDD', heading: '14532D', title: '14532D',
+      text: '1F2937', muted: '4B5563', accent: '15803D', onAccent: 'FFFFFF',
+    },
+    fonts: { heading: 'Times New Roman', body: 'Times New Roman' },
+    titleStyle: 'underline',
+  },
+  {
+    id: 'sunrise',
+    name: 'مشرق',
+    colors: {
+      background: 'FFF7ED', surface: 'FFEDD5', heading: '7C2D12', title: 'C2410C',
+      text: '431407', muted: '7C2D12', accent: 'EA580C', onAccent: 'FFFFFF',
+    },
+    fonts: { heading: 'Tahoma', body: 'Arial' },
+    titleStyle: 'band',
+  },
+];
+
+export const DEFAULT_THEME_ID = PRESENTATION_THEMES[0].id;
+
+export const getTheme = (id: string) => PRESENTATION_THEMES.find(t => t.id === id) || PRESENTATION_THEMES[0];
+
+export const SLIDE_LAYOUT_LABELS: Record<SlideLayout, string> = {
+  'image-text': 'صورة ونص',
+  'full-image': 'صورة كاملة',
+  'two-column': 'عمودان',
+  'definition': 'تعريف / مبرهنة',
+  'worked-example': 'مثال محلول',
+};
+
+const DEFINITION_PATTERN = /تعريف|مبرهنة|نظرية|قانون|قاعدة|خاصية|مسلّمة|definition|theorem|lemma/i;
+const EXAMPLE_PATTERN = /مثال|تمرين|حل|تطبيق|example|exercise/i;
+
+// Picks a layout from the slide's content; the review step can override it
+export const chooseLayout = (slide: PresentationSlide): SlideLayout => {
+  const bullets = slide.bullets.filter(b => b.trim());
+  const examples = (slide.examples || []).filter(e => e.trim());
+  if (DEFINITION_PATTERN.test(slide.title) && bullets.length <= 4) return 'definition';
+  if (EXAMPLE_PATTERN.test(slide.title) && examples.length >= 2) return 'worked-example';
+  if (slide.imageBase64 && bullets.length <= 2 && examples.length === 0) return 'full-image';
+  if (bullets.length >= 7 || (!slide.imageBase64 && bullets.length >= 4)) return 'two-column';
+  return 'image-text';
+};
+
+// Box label for the definition layout
+export const definitionLabel = (title: string) =>
+  /مبرهنة|نظرية|theorem|lemma/i.test(title) ? 'مبرهنة' : /قانون|قاعدة|خاصية/.test(title) ? 'قاعدة' : 'تعريف';
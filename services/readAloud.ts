@@ -0,0 +1,206 @@
+import { generateSpeech } from "./geminiService";
+import { classifyError } from "./modelRouter";
+import { isAbortError } from "./jobScheduler";
+import { markdownToSpeech, splitSpeechChunks } from "./mathSpeech";
+
+// --- Read Aloud ---
+// One message plays at a time. Its text is turned into spoken Arabic (see
+// mathSpeech), split into chunks and synthesized one chunk ahead of playback.
+// Audio is cached per chunk and voice, so playing a message again is instant.
+
+export type PlaybackState = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackStatus {
+  messageId: string | null;
+  state: PlaybackState;
+  chunk: number; // Index of the chunk being played
+  chunks: number;
+  error?: string;
+}
+
+export interface SpeechSettings {
+  voice: string;
+  rate: number;
+}
+
+// Gemini prebuilt voices; other providers use their own default voice
+export const SPEECH_VOICES: { id: string; label: string }[] = [
+  { id: 'Puck', label: 'Puck — مرح' },
+  { id: 'Kore', label: 'Kore — هادئ' },
+  { id: 'Charon', label: 'Charon — رصين' },
+  { id: 'Aoede', label: 'Aoede — خفيف' },
+  { id: 'Fenrir', label: 'Fenrir — حماسي' },
+];
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+const SETTINGS_KEY = 'mathmind:speech';
+const DEFAULT_SETTINGS: SpeechSettings = { voice: 'Puck', rate: 1 };
+const CACHE_LIMIT = 60; // Chunks, kept as object URLs
+
+const IDLE: PlaybackStatus = { messageId: null, state: 'idle', chunk: 0, chunks: 0 };
+
+// --- Settings ---
+
+let settings: SpeechSettings | null = null;
+
+export const getSpeechSettings = (): SpeechSettings => {
+  if (!settings) {
+    try {
+      settings = { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    } catch {
+      settings = { ...DEFAULT_SETTINGS };
+    }
+  }
+  return settings!;
+};
+
+// A new speed applies straight away; a new voice from the next chunk synthesized
+export const setSpeechSettings = (patch: Partial<SpeechSettings>) => {
+  settings = { ...getSpeechSettings(), ...patch };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  if (session?.audio) session.audio.playbackRate = settings.rate;
+  return settings;
+};
+
+// --- Status ---
+
+let status: PlaybackStatus = IDLE;
+const listeners = new Set<(status: PlaybackStatus) => void>();
+
+const setStatus = (next: PlaybackStatus) => {
+  status = next;
+  listeners.forEach(listener => listener(status));
+};
+
+export const getPlaybackStatus = () => status;
+
+// Returns the unsubscribe function, so it can be returned from useEffect
+export const subscribePlayback = (listener: (status: PlaybackStatus) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- Audio Cache ---
+
+const audioCache = new Map<string, Promise<string>>();
+
+const synthesize = (text: string, voice: string, signal: AbortSignal): Promise<string> => {
+  const key = `${voice}\n${text}`;
+  const cached = audioCache.get(key);
+  if (cached) return cached;
+
+  const url = generateSpeech(text, voice, signal)
+    .then(audio => URL.createObjectURL(new Blob([audio], { type: 'audio/wav' })));
+  audioCache.set(key, url);
+  url.catch(() => audioCache.delete(key));
+  // Drop a call that is cancelled midway at once, so replaying right after Stop starts a fresh one
+  let settled = false;
+  url.then(() => { settled = true; }, () => {});
+  signal.addEventListener('abort', () => {
+    if (!settled && audioCache.get(key) === url) audioCache.delete(key);
+  }, { once: true });
+
+  if (audioCache.size > CACHE_LIMIT) {
+    const [oldest] = audioCache.keys();
+    audioCache.get(oldest)?.then(URL.revokeObjectURL, () => {});
+    audioCache.delete(oldest);
+  }
+  return url;
+};
+
+// --- Playback ---
+
+interface Session {
+  messageId: string;
+  chunks: string[];
+  controller: AbortController;
+  audio: HTMLAudioElement | null;
+  paused: boolean;
+}
+
+let session: Session | null = null;
+
+// Resolves when the chunk ends or playback is stopped
+const playChunk = (current: Session, url: string) => new Promise<void>((resolve, reject) => {
+  const audio = new Audio(url);
+  audio.playbackRate = getSpeechSettings().rate;
+  current.audio = audio;
+  audio.onended = () => resolve();
+  audio.onerror = () => reject(new Error('Audio playback failed'));
+  current.controller.signal.addEventListener('abort', () => {
+    audio.pause();
+    resolve();
+  }, { once: true });
+  // Paused while the chunk was loading: resumeSpeech starts it
+  if (!current.paused) audio.play().catch(reject);
+});
+
+const update = (current: Session, chunk: number, state?: PlaybackState) => {
+  if (session !== current) return;
+  setStatus({
+    messageId: current.messageId,
+    state: state || (current.paused ? 'paused' : 'playing'),
+    chunk,
+    chunks: current.chunks.length,
+  });
+};
+
+export const stopSpeech = () => {
+  if (!session) return;
+  session.controller.abort();
+  session = null;
+  setStatus(IDLE);
+};
+
+export const pauseSpeech = () => {
+  if (!session || session.paused) return;
+  session.paused = true;
+  session.audio?.pause();
+  setStatus({ ...status, state: 'paused' });
+};
+
+export const resumeSpeech = () => {
+  if (!session || !session.paused) return;
+  session.paused = false;
+  session.audio?.play().catch(() => stopSpeech());
+  setStatus({ ...status, state: session.audio ? 'playing' : 'loading' });
+};
+
+// Stops whatever is playing and reads the message from `startChunk` on
+export const playMessage = async (messageId: string, text: string, startChunk = 0) => {
+  stopSpeech();
+  const chunks = splitSpeechChunks(markdownToSpeech(text));
+  if (startChunk >= chunks.length) return;
+
+  const current: Session = { messageId, chunks, controller: new AbortController(), audio: null, paused: false };
+  session = current;
+  const { signal } = current.controller;
+  const { voice } = getSpeechSettings();
+  update(current, startChunk, 'loading');
+
+  try {
+    let next = synthesize(chunks[startChunk], voice, signal);
+    for (let i = startChunk; i < chunks.length; i++) {
+      const url = await next;
+      if (signal.aborted) return;
+      // Synthesize the following chunk while this one plays
+      if (i + 1 < chunks.length) {
+        next = synthesize(chunks[i + 1], getSpeechSettings().voice, signal);
+        next.catch(() => {});
+      }
+      update(current, i);
+      await playChunk(current, url);
+      current.audio = null;
+      if (signal.aborted) return;
+      if (i + 1 < chunks.length) update(current, i + 1, current.paused ? 'paused' : 'loading');
+    }
+    if (session === current) stopSpeech();
+  } catch (error) {
+    if (session !== current || isAbortError(error)) return;
+    console.error("Read aloud failed", error);
+    session = null;
+    current.controller.abort();
+    setStatus({ ...IDLE, messageId, error: classifyError(error).message });
+  }
+};
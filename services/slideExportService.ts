@@ -0,0 +1,441 @@
+import katex from 'katex';
+import JSZip from 'jszip';
+import { PresentationData, PresentationSlide, SlideLayout } from "../types";
+import { splitMath } from "./mathParser";
+import { getEmbeddedKatexCss, mathToPlainText } from "./mathImageService";
+import { PresentationTheme, chooseLayout, definitionLabel } from "./presentationThemes";
+import { SLIDE_WIDTH, SLIDE_HEIGHT, LAYOUT_FRAMES, Box, splitColumns, examplePrefix } from "./presentationService";
+import { downloadBlob, escapeHtml, printHtml, safeFileName } from "./exportService";
+
+// --- Presentation Exports Beyond PPTX ---
+// Offline HTML slideshow, printable handout and OpenDocument (.odp), all laid out
+// with the same frames and themes as the PPTX builder.
+
+const MARGIN = 0.5;
+const TITLE_BAND: Box = { x: 0, y: 0, w: SLIDE_WIDTH, h: 0.95 };
+const TITLE_BOX: Box = { x: MARGIN, y: 0.3, w: SLIDE_WIDTH - MARGIN * 2, h: 0.7 };
+const CAPTION_BAND: Box = { x: 0, y: 3.9, w: SLIDE_WIDTH, h: SLIDE_HEIGHT - 3.9 };
+const DEFINITION_BOX: Box = { x: MARGIN, y: 1.1, w: SLIDE_WIDTH - MARGIN * 2, h: 2.8 };
+const DEFINITION_LABEL: Box = { x: SLIDE_WIDTH - MARGIN - 2.2, y: 1.15, w: 2.0, h: 0.35 };
+
+// Slide images are generated at 16:9, so "contain" can be computed without decoding them
+const IMAGE_ASPECT = 16 / 9;
+
+const fitImage = (box: Box): Box => {
+  const w = Math.min(box.w, box.h * IMAGE_ASPECT);
+  const h = w / IMAGE_ASPECT;
+  return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h };
+};
+
+const stepsBar = (examples: Box): Box => ({ x: SLIDE_WIDTH - MARGIN - 0.06, y: examples.y + 0.35, w: 0.06, h: examples.h - 0.35 });
+
+const slideLayout = (slide: PresentationSlide): SlideLayout => slide.layout || chooseLayout(slide);
+
+// --- HTML Slides ---
+
+const pct = (value: number, total: number) => `${((value / total) * 100).toFixed(3)}%`;
+
+const boxStyle = (box: Box) =>
+  `left:${pct(box.x, SLIDE_WIDTH)};top:${pct(box.y, SLIDE_HEIGHT)};width:${pct(box.w, SLIDE_WIDTH)};height:${pct(box.h, SLIDE_HEIGHT)}`;
+
+const richText = (text: string) => splitMath(text).map(segment => {
+  if (segment.kind === 'text') {
+    return escapeHtml(segment.value).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+  }
+  const rendered = katex.renderToString(segment.latex, { displayMode: segment.display, output: 'html', throwOnError: false });
+  return `<span class="math" dir="ltr">${rendered}</span>`;
+}).join('');
+
+const themeVariables = (theme: PresentationTheme) => {
+  const { colors, fonts } = theme;
+  return [
+    `--bg:#${colors.background}`, `--surface:#${colors.surface}`, `--heading:#${colors.heading}`,
+    `--title:#${colors.title}`, `--text:#${colors.text}`, `--muted:#${colors.muted}`,
+    `--accent:#${colors.accent}`, `--on-accent:#${colors.onAccent}`,
+    `--font-heading:'${fonts.heading}'`, `--font-body:'${fonts.body}'`,
+  ].join(';');
+};
+
+// Sizes use container units so a slide scales with whatever box it sits in
+const SLIDE_CSS = `
+  .slide { position: relative; width: 100%; aspect-ratio: 16 / 9; overflow: hidden; container-type: inline-size;
+    background: var(--bg); color: var(--text); font-family: var(--font-body), sans-serif; direction: rtl; }
+  .slide > * { position: absolute; box-sizing: border-box; margin: 0; }
+  .slide .title { display: flex; align-items: center; font: 700 3.33cqw/1.2 var(--font-heading), sans-serif; color: var(--title); }
+  .slide .band { background: var(--accent); }
+  .slide .band-title { color: var(--on-accent); }
+  .slide .rule { border-bottom: 0.2cqw solid var(--accent); }
+  .slide img.picture { object-fit: contain; }
+  .slide.layout-full-image img.picture { object-fit: cover; }
+  .slide .placeholder { background: var(--surface); color: var(--muted); display: flex; align-items: center; justify-content: center; font-size: 1.4cqw; }
+  .slide .caption { background: rgba(0, 0, 0, 0.65); }
+  .slide ul, .slide ol { padding: 0 2.2cqw 0 0; overflow: hidden; }
+  .slide .bullets { font-size: 2.22cqw; line-height: 1.5; }
+  .slide.layout-full-image .bullets { color: var(--on-accent); }
+  .slide .examples { overflow: hidden; }
+  .slide .examples h4 { margin: 0 0 0.4cqw; font: 700 1.94cqw var(--font-heading), sans-serif; color: var(--title); }
+  .slide .examples ol { font-size: 1.94cqw; color: var(--muted); line-height: 1.45; }
+  .slide.layout-worked-example .examples h4 { color: var(--accent); }
+  .slide.layout-worked-example .examples ol { list-style: none; padding-right: 1.2cqw; }
+  .slide .definition-box { background: var(--surface); border: 0.15cqw solid var(--accent); border-right-width: 1cqw; border-radius: 0.8cqw; }
+  .slide .definition-label { font: 700 1.8cqw var(--font-heading), sans-serif; color: var(--accent); text-align: right; }
+  .slide .steps-bar { background: var(--accent); }
+  .slide .notes { display: none; }
+  .slide .math { unicode-bidi: isolate; }
+  .slide .katex-display { margin: 0.3cqw 0; }
+  .slide.title-slide { background: var(--surface); display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; }
+  .slide.title-slide > * { position: static; }
+  .slide.title-slide h1 { font: 700 5cqw var(--font-heading), sans-serif; color: var(--heading); margin-bottom: 3cqw; }
+  .slide.title-slide p { font-size: 2.5cqw; color: var(--muted); }
+  .slide.title-slide.banded { background: var(--accent); }
+  .slide.title-slide.banded h1, .slide.title-slide.banded p { color: var(--on-accent); }
+  .slide.title-slide.underlined h1 { border-bottom: 0.2cqw solid var(--accent); padding-bottom: 1cqw; }
+`;
+
+const renderTitleSlide = (data: PresentationData, theme: PresentationTheme) => {
+  const variant = theme.titleStyle === 'band' ? 'banded' : theme.titleStyle === 'underline' ? 'underlined' : '';
+  return `<section class="slide title-slide ${variant}" style="${themeVariables(theme)}">
+    <h1>${escapeHtml(data.title)}</h1>
+    <p>تم الإنشاء بواسطة MathMind AI</p>
+  </section>`;
+};
+
+const renderSlide = (slide: PresentationSlide, theme: PresentationTheme) => {
+  const layout = slideLayout(slide);
+  const frame = LAYOUT_FRAMES[layout];
+  const onBand = layout === 'full-image' || theme.titleStyle === 'band';
+  const parts: string[] = [];
+
+  if (frame.image) {
+    parts.push(slide.imageBase64
+      ? `<img class="picture" src="${slide.imageBase64}" alt="" style="${boxStyle(frame.image)}" />`
+      : `<div class="placeholder" style="${boxStyle(frame.image)}">لا توجد صورة</div>`);
+  }
+  if (layout === 'full-image') parts.push(`<div class="caption" style="${boxStyle(CAPTION_BAND)}"></div>`);
+  if (layout === 'definition') {
+    parts.push(`<div class="definition-box" style="${boxStyle(DEFINITION_BOX)}"></div>`);
+    parts.push(`<div class="definition-label" style="${boxStyle(DEFINITION_LABEL)}">${definitionLabel(slide.title)}</div>`);
+  }
+  if (layout === 'worked-example' && frame.examples) {
+    parts.push(`<div class="steps-bar" style="${boxStyle(stepsBar(frame.examples))}"></div>`);
+  }
+
+  if (onBand) parts.push(`<div class="band" style="${boxStyle(TITLE_BAND)}${layout === 'full-image' ? ';opacity:0.85' : ''}"></div>`);
+  const titleBox = onBand ? { ...TITLE_BOX, y: 0.12 } : TITLE_BOX;
+  parts.push(`<h2 class="title ${onBand ? 'band-title' : ''} ${theme.titleStyle === 'underline' && !onBand ? 'rule' : ''}" style="${boxStyle(titleBox)}">${richText(slide.title)}</h2>`);
+
+  splitColumns(slide.bullets, frame.bullets.length).forEach((items, c) => {
+    if (items.length === 0) return;
+    parts.push(`<ul class="bullets" style="${boxStyle(frame.bullets[c])}">${items.map(b => `<li>${richText(b)}</li>`).join('')}</ul>`);
+  });
+
+  if (frame.examples && slide.examples.length > 0) {
+    const isSteps = layout === 'worked-example';
+    const items = slide.examples.map((e, i) => `<li>${isSteps ? escapeHtml(examplePrefix(layout, i)) : ''}${richText(e)}</li>`).join('');
+    parts.push(`<div class="examples" style="${boxStyle(frame.examples)}"><h4>${isSteps ? 'خطوات الحل:' : 'أمثلة:'}</h4><ol>${items}</ol></div>`);
+  }
+
+  parts.push(`<div class="notes">${escapeHtml(slide.speakerNotes || '').replace(/\n/g, '<br />')}</div>`);
+  return `<section class="slide layout-${layout}" style="${themeVariables(theme)}">${parts.join('')}</section>`;
+};
+
+const renderAllSlides = (data: PresentationData, theme: PresentationTheme) => [
+  renderTitleSlide(data, theme),
+  ...data.slides.map(s => renderSlide(s, theme)),
+];
+
+// --- Offline Slideshow ---
+
+const SHOW_CSS = `
+  html, body { margin: 0; height: 100%; background: #000; }
+  body { display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 1.5vh; font-family: sans-serif; }
+  .deck { width: min(98vw, 92vh * 16 / 9); cursor: pointer; }
+  body.with-notes .deck { width: min(98vw, 66vh * 16 / 9); }
+  .deck .slide { display: none; }
+  .deck .slide.active { display: block; }
+  .notes-panel { display: none; width: min(98vw, 66vh * 16 / 9); max-height: 24vh; overflow-y: auto; box-sizing: border-box;
+    padding: 12px 16px; background: #1e293b; color: #e2e8f0; border-radius: 8px; font-size: 16px; line-height: 1.6; direction: rtl; }
+  body.with-notes .notes-panel { display: block; }
+  .status { color: #94a3b8; font-size: 12px; direction: rtl; }
+`;
+
+// Left arrow moves forward, matching the right-to-left reading order
+const SHOW_SCRIPT = `
+  const slides = Array.from(document.querySelectorAll('.deck .slide'));
+  const notes = document.querySelector('.notes-panel');
+  const counter = document.querySelector('.counter');
+  let current = 0;
+  const show = (index) => {
+    current = Math.max(0, Math.min(slides.length - 1, index));
+    slides.forEach((slide, i) => slide.classList.toggle('active', i === current));
+    const slideNotes = slides[current].querySelector('.notes');
+    notes.innerHTML = slideNotes && slideNotes.innerHTML ? slideNotes.innerHTML : '<em>لا توجد ملاحظات لهذه الشريحة.</em>';
+    counter.textContent = (current + 1) + ' / ' + slides.length;
+    history.replaceState(null, '', '#' + (current + 1));
+  };
+  document.addEventListener('keydown', (e) => {
+    const key = e.key.toLowerCase();
+    if (['arrowleft', 'arrowdown', 'pagedown', ' ', 'enter'].includes(key)) show(current + 1);
+    else if (['arrowright', 'arrowup', 'pageup', 'backspace'].includes(key)) show(current - 1);
+    else if (key === 'home') show(0);
+    else if (key === 'end') show(slides.length - 1);
+    else if (key === 'n' || key === 'ى') document.body.classList.toggle('with-notes');
+    else if (key === 'f' || key === 'ب') document.fullscreenElement ? document.exitFullscreen() : document.documentElement.requestFullscreen();
+    else return;
+    e.preventDefault();
+  });
+  document.querySelector('.deck').addEventListener('click', () => show(current + 1));
+  show((parseInt(location.hash.slice(1), 10) || 1) - 1);
+`;
+
+export const buildSlideshowHtml = async (data: PresentationData, theme: PresentationTheme) => {
+  const katexCss = await getEmbeddedKatexCss();
+  return `<!DOCTYPE html>
+<html lang="ar" dir="rtl">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(data.title)}</title>
+  <style>${katexCss}${SLIDE_CSS}${SHOW_CSS}</style>
+</head>
+<body>
+  <div class="deck">${renderAllSlides(data, theme).join('\n')}</div>
+  <div class="notes-panel"></div>
+  <div class="status"><span class="counter"></span> · ← → للتنقل · N ملاحظات المتحدث · F ملء الشاشة</div>
+  <script>${SHOW_SCRIPT}</script>
+</body>
+</html>`;
+};
+
+export const exportSlideshow = async (data: PresentationData, theme: PresentationTheme) => {
+  const html = await buildSlideshowHtml(data, theme);
+  downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${safeFileName(data.title)}.html`);
+};
+
+// --- Printable Handout ---
+
+export const HANDOUT_LAYOUTS = [1, 2, 3, 6];
+
+const HANDOUT_CSS = `
+  @page { size: A4 portrait; margin: 12mm; }
+  body { margin: 0; font-family: 'Cairo', sans-serif; color: #0f172a; }
+  .page { height: 272mm; display: grid; gap: 5mm; break-after: page; }
+  .page:last-child { break-after: auto; }
+  .item { display: grid; gap: 4mm; min-height: 0; break-inside: avoid; }
+  .thumb .slide { border: 1px solid #cbd5e1; }
+  .item-notes { font-size: 11px; line-height: 1.6; border: 1px solid #e2e8f0; border-radius: 4px; padding: 2mm 3mm; overflow: hidden;
+    background-image: repeating-linear-gradient(transparent, transparent 17px, #e2e8f0 17px, #e2e8f0 18px); }
+  .item-notes strong { display: block; color: #475569; margin-bottom: 1mm; }
+  .per-1 .page { grid-template-rows: 1fr; }
+  .per-1 .item { grid-template-rows: auto 1fr; }
+  .per-2 .page { grid-template-rows: repeat(2, 1fr); }
+  .per-3 .page { grid-template-rows: repeat(3, 1fr); }
+  .per-2 .item, .per-3 .item { grid-template-columns: 58% 1fr; align-items: start; }
+  .per-2 .item-notes, .per-3 .item-notes { height: 100%; box-sizing: border-box; }
+  .per-6 .page { grid-template-columns: repeat(2, 1fr); grid-template-rows: repeat(3, 1fr); }
+  .per-6 .item { grid-template-rows: auto 1fr; }
+  .per-6 .item-notes { font-size: 9px; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+`;
+
+export const buildHandoutHtml = async (data: PresentationData, theme: PresentationTheme, slidesPerPage: number) => {
+  const katexCss = await getEmbeddedKatexCss();
+  const notes = ['', ...data.slides.map(s => s.speakerNotes || '')];
+  const items = renderAllSlides(data, theme).map((slide, i) => `
+    <div class="item">
+      <div class="thumb">${slide}</div>
+      <div class="item-notes"><strong>${i === 0 ? 'ملاحظات' : `الشريحة ${i}`}</strong>${escapeHtml(notes[i]).replace(/\n/g, '<br />')}</div>
+    </div>`);
+
+  const pages: string[] = [];
+  for (let i = 0; i < items.length; i += slidesPerPage) {
+    pages.push(`<div class="page">${items.slice(i, i + slidesPerPage).join('')}</div>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="ar" dir="rtl">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(data.title)}</title>
+  <link href="https://fonts.googleapis.com/css2?family=Cairo:wght@400;700&display=swap" rel="stylesheet">
+  <style>${katexCss}${SLIDE_CSS}${HANDOUT_CSS}</style>
+</head>
+<body class="per-${slidesPerPage}">${pages.join('')}</body>
+</html>`;
+};
+
+export const printHandout = async (data: PresentationData, theme: PresentationTheme, slidesPerPage: number) => {
+  printHtml(await buildHandoutHtml(data, theme, slidesPerPage));
+};
+
+// --- OpenDocument Presentation ---
+// Math has no portable inline form in ODP text boxes, so it falls back to plain text.
+
+const ODP_MIME = 'application/vnd.oasis.opendocument.presentation';
+
+const cm = (inches: number) => `${(inches * 2.54).toFixed(3)}cm`;
+const geometry = (box: Box) => `svg:x="${cm(box.x)}" svg:y="${cm(box.y)}" svg:width="${cm(box.w)}" svg:height="${cm(box.h)}"`;
+
+const odpParagraph = (text: string, textStyle: string, paragraphStyle = 'P-right') =>
+  `<text:p text:style-name="${paragraphStyle}"><text:span text:style-name="${textStyle}">${escapeHtml(text)}</text:span></text:p>`;
+
+const odpTextBox = (box: Box, paragraphs: string[], extra = '') =>
+  `<draw:frame draw:style-name="gr-text" ${geometry(box)}${extra}><draw:text-box>${paragraphs.join('')}</draw:text-box></draw:frame>`;
+
+const odpRect = (box: Box, style: string) => `<draw:rect draw:style-name="${style}" ${geometry(box)}/>`;
+
+const odpImage = (box: Box, href: string) =>
+  `<draw:frame draw:style-name="gr-plain" ${geometry(box)}><draw:image xlink:href="${href}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/></draw:frame>`;
+
+const fontProps = (size: number, color: string, font: string, bold = false) => [
+  `fo:font-size="${size}pt"`, `style:font-size-complex="${size}pt"`, `fo:color="#${color}"`,
+  `fo:font-family="'${font}'"`, `style:font-family-complex="'${font}'"`,
+  bold ? 'fo:font-weight="bold" style:font-weight-complex="bold"' : '',
+].join(' ');
+
+const odpStyles = (theme: PresentationTheme) => {
+  const { colors, fonts } = theme;
+  const textStyle = (name: string, props: string) =>
+    `<style:style style:name="${name}" style:family="text"><style:text-properties ${props}/></style:style>`;
+  const graphicStyle = (name: string, props: string) =>
+    `<style:style style:name="${name}" style:family="graphic"><style:graphic-properties ${props}/></style:style>`;
+  const banded = theme.titleStyle === 'band';
+  return [
+    `<style:style style:name="dp-content" style:family="drawing-page"><style:drawing-page-properties draw:fill="solid" draw:fill-color="#${colors.background}"/></style:style>`,
+    `<style:style style:name="dp-title" style:family="drawing-page"><style:drawing-page-properties draw:fill="solid" draw:fill-color="#${banded ? colors.accent : colors.surface}"/></style:style>`,
+    graphicStyle('gr-text', 'draw:stroke="none" draw:fill="none" draw:textarea-vertical-align="top" draw:auto-grow-height="false" style:shrink-to-fit="true" fo:padding="0.1cm"'),
+    graphicStyle('gr-plain', 'draw:stroke="none" draw:fill="none"'),
+    graphicStyle('gr-accent', `draw:stroke="none" draw:fill="solid" draw:fill-color="#${colors.accent}"`),
+    graphicStyle('gr-surface', `draw:stroke="solid" svg:stroke-color="#${colors.accent}" svg:stroke-width="0.04cm" draw:fill="solid" draw:fill-color="#${colors.surface}"`),
+    graphicStyle('gr-placeholder', `draw:stroke="none" draw:fill="solid" draw:fill-color="#${colors.surface}"`),
+    graphicStyle('gr-shade', 'draw:stroke="none" draw:fill="solid" draw:fill-color="#000000" draw:opacity="65%"'),
+    '<style:style style:name="P-right" style:family="paragraph"><style:paragraph-properties fo:text-align="end" style:writing-mode="rl-tb"/></style:style>',
+    '<style:style style:name="P-center" style:family="paragraph"><style:paragraph-properties fo:text-align="center" style:writing-mode="rl-tb"/></style:style>',
+    textStyle('T-title', fontProps(24, colors.title, fonts.heading, true)),
+    textStyle('T-title-band', fontProps(24, colors.onAccent, fonts.heading, true)),
+    textStyle('T-bullet', fontProps(16, colors.text, fonts.body)),
+    textStyle('T-bullet-light', fontProps(16, colors.onAccent, fonts.body)),
+    textStyle('T-label', fontProps(14, colors.title, fonts.heading, true)),
+    textStyle('T-label-accent', fontProps(14, colors.accent, fonts.heading, true)),
+    textStyle('T-definition', fontProps(13, colors.accent, fonts.heading, true)),
+    textStyle('T-example', fontProps(14, colors.muted, fonts.body)),
+    textStyle('T-muted', fontProps(10, colors.muted, fonts.body)),
+    textStyle('T-deck-title', fontProps(36, banded ? colors.onAccent : colors.heading, fonts.heading, true)),
+    textStyle('T-deck-subtitle', fontProps(18, banded ? colors.onAccent : colors.muted, fonts.body)),
+    textStyle('T-notes', fontProps(12, '000000', fonts.body)),
+  ].join('');
+};
+
+const odpNotes = (notes: string) => {
+  const paragraphs = (notes || '').split('\n').map(line => odpParagraph(line, 'T-notes'));
+  return `<presentation:notes><draw:frame presentation:class="notes" draw:style-name="gr-text" svg:x="2cm" svg:y="14cm" svg:width="17cm" svg:height="12cm"><draw:text-box>${paragraphs.join('')}</draw:text-box></draw:frame></presentation:notes>`;
+};
+
+const odpSlide = (slide: PresentationSlide, index: number, theme: PresentationTheme, imageHref: string | null) => {
+  const layout = slideLayout(slide);
+  const frame = LAYOUT_FRAMES[layout];
+  const onBand = layout === 'full-image' || theme.titleStyle === 'band';
+  const shapes: string[] = [];
+
+  if (frame.image) {
+    if (imageHref) {
+      shapes.push(odpImage(fitImage(frame.image), imageHref));
+    } else {
+      shapes.push(odpRect(frame.image, 'gr-placeholder'));
+      shapes.push(odpTextBox(frame.image, [odpParagraph('لا توجد صورة', 'T-muted', 'P-center')]));
+    }
+  }
+  if (layout === 'full-image') shapes.push(odpRect(CAPTION_BAND, 'gr-shade'));
+  if (layout === 'definition') {
+    shapes.push(odpRect(DEFINITION_BOX, 'gr-surface'));
+    shapes.push(odpRect({ x: SLIDE_WIDTH - MARGIN - 0.1, y: DEFINITION_BOX.y, w: 0.1, h: DEFINITION_BOX.h }, 'gr-accent'));
+    shapes.push(odpTextBox(DEFINITION_LABEL, [odpParagraph(definitionLabel(slide.title), 'T-definition')]));
+  }
+  if (layout === 'worked-example' && frame.examples) shapes.push(odpRect(stepsBar(frame.examples), 'gr-accent'));
+
+  if (onBand) shapes.push(odpRect(TITLE_BAND, 'gr-accent'));
+  const titleBox = onBand ? { ...TITLE_BOX, y: 0.12 } : TITLE_BOX;
+  shapes.push(odpTextBox(titleBox, [odpParagraph(mathToPlainText(slide.title), onBand ? 'T-title-band' : 'T-title')]));
+  if (theme.titleStyle === 'underline' && !onBand) {
+    shapes.push(odpRect({ x: MARGIN, y: 1.0, w: SLIDE_WIDTH - MARGIN * 2, h: 0.02 }, 'gr-accent'));
+  }
+
+  const bulletStyle = layout === 'full-image' ? 'T-bullet-light' : 'T-bullet';
+  splitColumns(slide.bullets, frame.bullets.length).forEach((items, c) => {
+    if (items.length === 0) return;
+    shapes.push(odpTextBox(frame.bullets[c], items.map(b => odpParagraph(`• ${mathToPlainText(b)}`, bulletStyle))));
+  });
+
+  if (frame.examples && slide.examples.length > 0) {
+    const isSteps = layout === 'worked-example';
+    shapes.push(odpTextBox(frame.examples, [
+      odpParagraph(isSteps ? 'خطوات الحل:' : 'أمثلة:', isSteps ? 'T-label-accent' : 'T-label'),
+      ...slide.examples.map((e, i) => odpParagraph(`${examplePrefix(layout, i)}${mathToPlainText(e)}`, 'T-example')),
+    ]));
+  }
+
+  return `<draw:page draw:name="page${index + 2}" draw:style-name="dp-content" draw:master-page-name="Default">${shapes.join('')}${odpNotes(slide.speakerNotes)}</draw:page>`;
+};
+
+const ODP_NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:presentation="urn:oasis:names:tc:opendocument:xmlns:presentation:1.0"',
+].join(' ');
+
+export const buildOdp = async (data: PresentationData, theme: PresentationTheme): Promise<Blob> => {
+  const zip = new JSZip();
+  // The mimetype entry must come first and stay uncompressed
+  zip.file('mimetype', ODP_MIME, { compression: 'STORE' });
+
+  const pictures: { path: string; mediaType: string }[] = [];
+  const pages = data.slides.map((slide, i) => {
+    let href: string | null = null;
+    const match = slide.imageBase64 ? /^data:(image\/(\w+));base64,(.+)$/.exec(slide.imageBase64) : null;
+    if (match) {
+      href = `Pictures/slide${i + 1}.${match[2] === 'jpeg' ? 'jpg' : match[2]}`;
+      zip.file(href, match[3], { base64: true });
+      pictures.push({ path: href, mediaType: match[1] });
+    }
+    return odpSlide(slide, i, theme, href);
+  });
+
+  const titlePage = `<draw:page draw:name="page1" draw:style-name="dp-title" draw:master-page-name="Default">`
+    + odpTextBox({ x: 0.5, y: 1.8, w: 9, h: 1.2 }, [odpParagraph(data.title, 'T-deck-title', 'P-center')])
+    + odpTextBox({ x: 0.5, y: 3.4, w: 9, h: 0.6 }, [odpParagraph('تم الإنشاء بواسطة MathMind AI', 'T-deck-subtitle', 'P-center')])
+    + odpNotes('')
+    + '</draw:page>';
+
+  zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${ODP_NAMESPACES} office:version="1.2">
+<office:automatic-styles>${odpStyles(theme)}</office:automatic-styles>
+<office:body><office:presentation>${titlePage}${pages.join('')}</office:presentation></office:body>
+</office:document-content>`);
+
+  zip.file('styles.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${ODP_NAMESPACES} office:version="1.2">
+<office:automatic-styles>
+  <style:page-layout style:name="PM1"><style:page-layout-properties fo:margin-top="0cm" fo:margin-bottom="0cm" fo:margin-left="0cm" fo:margin-right="0cm" fo:page-width="${cm(SLIDE_WIDTH)}" fo:page-height="${cm(SLIDE_HEIGHT)}" style:print-orientation="landscape"/></style:page-layout>
+</office:automatic-styles>
+<office:master-styles><style:master-page style:name="Default" style:page-layout-name="PM1"/></office:master-styles>
+</office:document-styles>`);
+
+  zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+  <manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${ODP_MIME}"/>
+  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+  <manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+${pictures.map(p => `  <manifest:file-entry manifest:full-path="${p.path}" manifest:media-type="${p.mediaType}"/>`).join('\n')}
+</manifest:manifest>`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: ODP_MIME, compression: 'DEFLATE' });
+};
+
+export const exportOdp = async (data: PresentationData, theme: PresentationTheme) => {
+  downloadBlob(await buildOdp(data, theme), `${safeFileName(data.title)}.odp`);
+};
@@ -0,0 +1,81 @@
+import { Conversation, ViewState } from "../types";
+
+// IndexedDB is used instead of localStorage because Message.image holds
+// full base64 payloads that quickly exceed the ~5MB localStorage quota.
+const DB_NAME = 'mathmind';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const ACTIVE_STORE = 'activeConversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        store.createIndex('view', 'view', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(ACTIVE_STORE)) {
+        db.createObjectStore(ACTIVE_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+};
+
+// --- Conversations ---
+
+export const listConversations = async (view: ViewState): Promise<Conversation[]> => {
+  const items = await runRequest<Conversation[]>(
+    CONVERSATIONS_STORE,
+    'readonly',
+    store => store.index('view').getAll(view)
+  );
+  return items.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getConversation = (id: string): Promise<Conversation | undefined> => {
+  return runRequest<Conversation | undefined>(CONVERSATIONS_STORE, 'readonly', store => store.get(id));
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await runRequest(CONVERSATIONS_STORE, 'readwrite', store => store.put(conversation));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await runRequest(CONVERSATIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// --- Active conversation per view ---
+
+export const getActiveConversationId = (view: ViewState): Promise<string | undefined> => {
+  return runRequest<string | undefined>(ACTIVE_STORE, 'readonly', store => store.get(view));
+};
+
+export const setActiveConversationId = async (view: ViewState, id: string): Promise<void> => {
+  await runRequest(ACTIVE_STORE, 'readwrite', store => store.put(id, view));
+};
@@ -0,0 +1,54 @@
+import { UploadedPage } from "../types";
+import { fileToBase64 } from "./geminiService";
+import * as pdfjs from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+// --- Homework Uploads ---
+// Normalises everything the SOLVER accepts (images, PDF worksheets) into a
+// flat list of page images with their real MIME type.
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const MAX_PDF_PAGES = 20;
+const PDF_RENDER_SCALE = 2;
+
+export const isSupportedUpload = (file: File) => {
+  return file.type.startsWith('image/') || file.type === 'application/pdf';
+};
+
+// Renders each PDF page to a JPEG so it can be sent like a photo
+const pdfToPages = async (file: File): Promise<UploadedPage[]> => {
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: UploadedPage[] = [];
+
+  for (let n = 1; n <= Math.min(pdf.numPages, MAX_PDF_PAGES); n++) {
+    const page = await pdf.getPage(n);
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const context = canvas.getContext('2d');
+    if (!context) continue;
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    pages.push({
+      data: canvas.toDataURL('image/jpeg', 0.9).split(',')[1],
+      mimeType: 'image/jpeg',
+      label: `${file.name} — صفحة ${n}`,
+    });
+  }
+  await pdf.destroy();
+  return pages;
+};
+
+export const filesToPages = async (files: File[]): Promise<UploadedPage[]> => {
+  const pages: UploadedPage[] = [];
+  for (const file of files.filter(isSupportedUpload)) {
+    if (file.type === 'application/pdf') {
+      pages.push(...await pdfToPages(file));
+    } else {
+      pages.push({ data: await fileToBase64(file), mimeType: file.type, label: file.name || 'صورة' });
+    }
+  }
+  return pages;
+};
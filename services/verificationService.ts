@@ -0,0 +1,324 @@
+import { Verification } from "../types";
+import { MathNode, tryParseLatex, evaluate, getVariables, compileFunction, extractMathBlocks } from "./mathParser";
+
+// --- Local Verification of AI Answers ---
+// Re-checks the final answer of a SOLVER/TUTOR reply numerically, without
+// calling the model again. Returns null when no supported check applies.
+
+const SAMPLE_POINTS = [-2.3, -1.1, -0.4, 0.35, 0.8, 1.7, 2.6];
+
+// \boxed{...} contents, which models use to mark the final answer
+const extractBoxed = (text: string): string[] => {
+  const results: string[] = [];
+  let start = text.indexOf('\\boxed{');
+  while (start !== -1) {
+    let depth = 0;
+    for (let i = start + 6; i < text.length; i++) {
+      if (text[i] === '{') depth++;
+      if (text[i] === '}') depth--;
+      if (depth === 0) {
+        results.push(text.slice(start + 7, i));
+        break;
+      }
+    }
+    start = text.indexOf('\\boxed{', start + 7);
+  }
+  return results;
+};
+
+// Splits on top-level "=" only, ignoring \leq, \neq, etc.
+const splitEquals = (latex: string): string[] => {
+  if (/\\(neq|ne|leq|geq|le|ge|approx)\b|[<>≤≥≠≈]/.test(latex)) return [];
+  return latex.split('=').map(part => part.trim()).filter(Boolean);
+};
+
+export const stripConstant = (latex: string) => latex.replace(/\+\s*(\\text\{\s*)?[Cc](\s*\})?\s*$/, '').trim();
+
+// Allowed error for a claimed value, based on how many decimals it was written with:
+// half a unit in the last place. isClose scales by magnitude, so it is divided back out
+// here, otherwise 1.42 would pass for √2 ≈ 1.414.
+export const roundingTolerance = (latex: string) => {
+  const decimals = /(\d*)\.(\d+)/.exec(latex);
+  if (!decimals) return 1e-9;
+  return 0.5 * Math.pow(10, -decimals[2].length) / Math.max(1, Math.abs(parseFloat(decimals[0])));
+};
+
+export const isClose = (a: number, b: number, tolerance: number) => {
+  return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+};
+
+const derivativeAt = (f: (x: number) => number, x: number) => {
+  const h = 1e-5;
+  return (f(x + h) - f(x - h)) / (2 * h);
+};
+
+// Composite Simpson's rule
+const integrate = (f: (x: number) => number, a: number, b: number, steps = 1000) => {
+  const h = (b - a) / steps;
+  let sum = f(a) + f(b);
+  for (let i = 1; i < steps; i++) {
+    sum += f(a + i * h) * (i % 2 === 0 ? 2 : 4);
+  }
+  return (sum * h) / 3;
+};
+
+// Compares two functions of one variable at the sample points where both are defined
+const sameFunction = (
+  f: (x: number) => number,
+  g: (x: number) => number,
+  tolerance: number
+): boolean | null => {
+  let compared = 0;
+  for (const x of SAMPLE_POINTS) {
+    const a = f(x);
+    const b = g(x);
+    if (!isFinite(a) || !isFinite(b)) continue;
+    if (!isClose(a, b, tolerance)) return false;
+    compared++;
+  }
+  return compared >= 3 ? true : null;
+};
+
+const singleVariable = (...nodes: MathNode[]) => {
+  const names = new Set(nodes.flatMap(getVariables));
+  return names.size <= 1 ? (Array.from(names)[0] || 'x') : null;
+};
+
+// --- Integrals ---
+
+const INTEGRAL_PATTERN = /\\int\s*(?:_\s*(\{[^}]*\}|[^\s{])\s*\^\s*(\{[^}]*\}|[^\s{]))?([\s\S]*?)\\?,?\s*(?:\\mathrm\{d\}|d)\s*([a-z])\s*=/;
+
+const checkIntegral = (blocks: string[]): Verification | null => {
+  for (const block of [...blocks].reverse()) {
+    const match = INTEGRAL_PATTERN.exec(block);
+    if (!match) continue;
+    const [whole, lower, upper, integrandLatex, variable] = match;
+    const parts = splitEquals(block.slice(match.index + whole.length - 1));
+    const claimed = parts[parts.length - 1];
+    if (!claimed) continue;
+
+    const integrand = tryParseLatex(integrandLatex);
+    const result = tryParseLatex(stripConstant(claimed));
+    if (!integrand || !result) continue;
+    const f = compileFunction(integrand, variable);
+
+    if (lower && upper) {
+      const a = tryParseLatex(lower.replace(/^\{|\}$/g, ''));
+      const b = tryParseLatex(upper.replace(/^\{|\}$/g, ''));
+      if (!a || !b || getVariables(result).length > 0) continue;
+      const expected = integrate(f, evaluate(a), evaluate(b));
+      const actual = evaluate(result);
+      if (!isFinite(expected) || !isFinite(actual)) continue;
+      const passed = isClose(expected, actual, Math.max(1e-6, roundingTolerance(claimed)));
+      return {
+        status: passed ? 'passed' : 'failed',
+        kind: 'integral',
+        detail: passed
+          ? `تم حساب التكامل المحدد عددياً (≈ ${formatNumber(expected)}) ويطابق الناتج`
+          : `الحساب العددي للتكامل المحدد يعطي ≈ ${formatNumber(expected)} وليس ${formatNumber(actual)}`,
+      };
+    }
+
+    // Indefinite: the derivative of the claimed antiderivative must equal the integrand
+    const F = compileFunction(result, variable);
+    const same = sameFunction(x => derivativeAt(F, x), f, 1e-4);
+    if (same === null) continue;
+    return {
+      status: same ? 'passed' : 'failed',
+      kind: 'integral',
+      detail: same
+        ? 'تم اشتقاق الناتج عددياً عند عدة نقاط ويطابق الدالة المكاملة'
+        : 'مشتقة الناتج لا تساوي الدالة المكاملة عند نقاط الاختبار',
+    };
+  }
+  return null;
+};
+
+// --- Derivatives ---
+
+const FUNCTION_DEF_PATTERN = /^([a-zA-Z])\s*\(\s*([a-z])\s*\)$/;
+const DERIVATIVE_PATTERN = /^([a-zA-Z])\s*(?:'|\^\s*\{?\s*\\prime\s*\}?)\s*\(\s*([a-z])\s*\)$/;
+const LEIBNIZ_PATTERN = /^\\d?frac\s*\{\s*d\s*([a-zA-Z]?)\s*\}\s*\{\s*d\s*([a-z])\s*\}([\s\S]*)$/;
+
+const checkDerivative = (definitionBlocks: string[], claimBlocks: string[]): Verification | null => {
+  const definitions: Record<string, string> = {};
+  for (const block of definitionBlocks) {
+    const parts = splitEquals(block);
+    if (parts.length < 2) continue;
+    const def = FUNCTION_DEF_PATTERN.exec(parts[0]);
+    if (def && !(def[1] in definitions)) definitions[def[1]] = parts[1];
+    if (parts[0] === 'y' && !('y' in definitions)) definitions.y = parts[1];
+  }
+
+  for (const block of [...claimBlocks].reverse()) {
+    const parts = splitEquals(block);
+    if (parts.length < 2) continue;
+
+    let functionLatex: string | undefined;
+    let variable = 'x';
+    const prime = DERIVATIVE_PATTERN.exec(parts[0]);
+    const leibniz = LEIBNIZ_PATTERN.exec(parts[0]);
+    if (prime) {
+      functionLatex = definitions[prime[1]];
+      variable = prime[2];
+    } else if (leibniz) {
+      variable = leibniz[2];
+      // d/dx (expr) = ... carries the function itself; dy/dx uses y's definition
+      functionLatex = leibniz[1] ? definitions[leibniz[1]] : leibniz[3];
+    }
+    if (!functionLatex) continue;
+
+    const original = tryParseLatex(functionLatex);
+    const claimed = tryParseLatex(parts[parts.length - 1]);
+    if (!original || !claimed || singleVariable(original, claimed) === null) continue;
+
+    const f = compileFunction(original, variable);
+    const same = sameFunction(x => derivativeAt(f, x), compileFunction(claimed, variable), 1e-4);
+    if (same === null) continue;
+    return {
+      status: same ? 'passed' : 'failed',
+      kind: 'derivative',
+      detail: same
+        ? 'تمت مقارنة المشتقة بالاشتقاق العددي عند عدة نقاط وهي متطابقة'
+        : 'المشتقة المعطاة لا تطابق الاشتقاق العددي عند نقاط الاختبار',
+    };
+  }
+  return null;
+};
+
+// --- Equations ---
+
+// Finds "v = value" claims in the final answer, expanding \pm into two roots
+const extractRoots = (blocks: string[], variable: string): { latex: string; value: number }[] => {
+  const roots: { latex: string; value: number }[] = [];
+  const escaped = variable.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const claim = new RegExp(`(?:^|[,;\\s(])${escaped}(?:_\\{?\\d+\\}?)?\\s*=\\s*([^=,;]+?)(?=$|,|;|\\\\text|\\\\quad|\\\\qquad|\\\\;|\\s(?:or|أو)\\s)`, 'g');
+
+  for (const block of blocks) {
+    let match: RegExpExecArray | null;
+    while ((match = claim.exec(block)) !== null) {
+      const valueLatex = match[1].trim();
+      const variants = valueLatex.includes('\\pm')
+        ? [valueLatex.replace('\\pm', '+').replace(/^\+\s*/, ''), valueLatex.replace('\\pm', '-')]
+        : [valueLatex];
+      for (const latex of variants) {
+        const node = tryParseLatex(latex);
+        if (!node || getVariables(node).length > 0) continue;
+        const value = evaluate(node);
+        if (isFinite(value) && !roots.some(r => Math.abs(r.value - value) < 1e-12)) {
+          roots.push({ latex, value });
+        }
+      }
+    }
+  }
+  return roots;
+};
+
+// Plain-text equations in the question, e.g. "حل x^2 - 5x + 6 = 0"
+const findPlainEquations = (text: string): string[] => {
+  const withoutMath = text.replace(/\$\$[\s\S]+?\$\$|\$[^$\n]+?\$/g, ' ');
+  return withoutMath.match(/[0-9a-zA-Z\s+\-*/^().]+=[0-9a-zA-Z\s+\-*/^().]+/g)?.map(s => s.trim()) || [];
+};
+
+const checkEquation = (question: string, questionBlocks: string[], answerBlocks: string[], finalBlocks: string[]): Verification | null => {
+  const candidates = [...questionBlocks, ...findPlainEquations(question), ...answerBlocks];
+
+  for (const candidate of candidates) {
+    const parts = splitEquals(candidate);
+    if (parts.length !== 2) continue;
+    const left = tryParseLatex(parts[0]);
+    const right = tryParseLatex(parts[1]);
+    if (!left || !right) continue;
+
+    const variables = Array.from(new Set([...getVariables(left), ...getVariables(right)]));
+    if (variables.length !== 1) continue;
+    const variable = variables[0];
+    // "x = 3" is a root claim, not the equation to solve
+    if (left.type === 'variable' && getVariables(right).length === 0) continue;
+
+    const roots = extractRoots(finalBlocks, variable);
+    if (roots.length === 0) continue;
+
+    const residual = (x: number) => evaluate(left, { [variable]: x }) - evaluate(right, { [variable]: x });
+    const failed = roots.filter(root => {
+      const value = residual(root.value);
+      const slope = Math.abs(derivativeAt(residual, root.value));
+      const allowed = 1e-7 * Math.max(1, Math.abs(evaluate(left, { [variable]: root.value })))
+        + (isFinite(slope) ? slope : 0) * roundingTolerance(root.latex) * 2;
+      return !isFinite(value) || Math.abs(value) > allowed;
+    });
+
+    const equation = `$${parts[0]} = ${parts[1]}$`;
+    const listed = roots.map(r => `$${variable} = ${r.latex}$`).join('، ');
+    return {
+      status: failed.length === 0 ? 'passed' : 'failed',
+      kind: 'equation',
+      detail: failed.length === 0
+        ? `تم التعويض بـ ${listed} في المعادلة ${equation} وتحققت`
+        : `التعويض بـ ${failed.map(r => `$${variable} = ${r.latex}$`).join('، ')} لا يحقق المعادلة ${equation}`,
+    };
+  }
+  return null;
+};
+
+// --- Arithmetic ---
+
+// "A = B = C" chains without variables, e.g. \frac{3}{4} + \frac{1}{2} = \frac{5}{4}
+const checkArithmetic = (blocks: string[]): Verification | null => {
+  for (const block of [...blocks].reverse()) {
+    const parts = splitEquals(block);
+    if (parts.length < 2) continue;
+    const nodes = parts.map(tryParseLatex);
+    if (nodes.some(n => !n || getVariables(n).length > 0)) continue;
+
+    const values = (nodes as MathNode[]).map(n => evaluate(n));
+    if (values.some(v => !isFinite(v))) continue;
+
+    const mismatch = values.findIndex((v, i) => i > 0 && !isClose(values[0], v, Math.max(1e-9, roundingTolerance(parts[i]))));
+    return {
+      status: mismatch === -1 ? 'passed' : 'failed',
+      kind: 'arithmetic',
+      detail: mismatch === -1
+        ? `تمت إعادة حساب $${parts[0]}$ (≈ ${formatNumber(values[0])}) وتطابقت جميع الخطوات`
+        : `$${parts[0]}$ ≈ ${formatNumber(values[0])} بينما $${parts[mismatch]}$ ≈ ${formatNumber(values[mismatch])}`,
+    };
+  }
+  return null;
+};
+
+const formatNumber = (value: number) => {
+  return parseFloat(value.toFixed(4)).toString();
+};
+
+// --- Public API ---
+
+// The answer a reply ends on: its last \boxed{} or, failing that, its last math block
+export const extractFinalAnswer = (text: string): string | null => {
+  const boxed = extractBoxed(text);
+  if (boxed.length > 0) return boxed[boxed.length - 1].trim();
+  const blocks = extractMathBlocks(text);
+  return blocks.length > 0 ? blocks[blocks.length - 1] : null;
+};
+
+export const verifySolution = (answer: string, question = ''): Verification | null => {
+  const answerBlocks = extractMathBlocks(answer);
+  if (answerBlocks.length === 0) return null;
+  const questionBlocks = extractMathBlocks(question);
+
+  // The final answer: boxed results first, then the last few math blocks
+  const boxed = extractBoxed(answer);
+  const finalCandidates = boxed.length > 0 ? [boxed, answerBlocks.slice(-3)] : [answerBlocks.slice(-3)];
+
+  try {
+    for (const finalBlocks of finalCandidates) {
+      const result = checkIntegral(finalBlocks)
+        || checkDerivative([...questionBlocks, ...answerBlocks], finalBlocks)
+        || checkEquation(question, questionBlocks, answerBlocks, finalBlocks)
+        || checkArithmetic(finalBlocks);
+      if (result) return result;
+    }
+  } catch (error) {
+    console.warn("Verification skipped", error);
+  }
+  return null;
+};
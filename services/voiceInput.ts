@@ -0,0 +1,75 @@
+import { pcmToWav, samplesToPcm } from "./audioFormat";
+
+// --- Voice Input ---
+// Records a spoken question with MediaRecorder. Browsers record WebM or MP4,
+// so the result is converted to 16 kHz mono WAV before it is transcribed:
+// every provider accepts it, and a minute of speech stays under 2 MB.
+
+export const MAX_RECORDING_MS = 60000;
+const SAMPLE_RATE = 16000;
+const MIN_DURATION_S = 0.3; // Shorter recordings are accidental taps
+
+export interface Recording {
+  stop: () => Promise<Blob | null>; // The recording as WAV, or null when nothing was said
+  cancel: () => void;
+}
+
+export const isVoiceInputSupported = () =>
+  !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+const toWav = async (recorded: Blob): Promise<Blob | null> => {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await recorded.arrayBuffer());
+  } finally {
+    context.close();
+  }
+  if (decoded.duration < MIN_DURATION_S) return null;
+
+  // Rendering offline downmixes to mono and resamples in one step
+  const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * SAMPLE_RATE), SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return new Blob([pcmToWav(samplesToPcm(rendered.getChannelData(0)), SAMPLE_RATE)], { type: 'audio/wav' });
+};
+
+// Rejects with the browser's NotAllowedError / NotFoundError when the microphone is unavailable
+export const startRecording = async (): Promise<Recording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<Blob>(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType }));
+    };
+  });
+  recorder.start();
+
+  const end = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+  return {
+    stop: async () => {
+      end();
+      const recorded = await stopped;
+      return recorded.size > 0 ? toWav(recorded) : null;
+    },
+    cancel: end,
+  };
+};
+
+// Arabic explanation for a failed getUserMedia call
+export const microphoneErrorText = (error: unknown) => {
+  const name = (error as { name?: string })?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'لم يُسمح بالوصول إلى الميكروفون. فعّل الإذن من إعدادات المتصفح.';
+  if (name === 'NotFoundError') return 'لم يُعثر على ميكروفون متصل بالجهاز.';
+  return 'تعذر تشغيل الميكروفون.';
+};
@@ -3,7 +3,8 @@ export enum ViewState {
   VISUALIZER = 'VISUALIZER',
   SOLVER = 'SOLVER',
   EXPLORER = 'EXPLORER',
-  PRESENTATION = 'PRESENTATION'
+  PRESENTATION = 'PRESENTATION',
+  PRACTICE = 'PRACTICE'
 }
 
 export enum Sender {
@@ -16,9 +17,148 @@ export interface Message {
   sender: Sender;
   text: string;
   image?: string; // Base64
-  isThinking?: boolean;
+  images?: string[]; // Several uploaded pages (SOLVER)
+  isThinking?: boolean; // Only the thought summary has arrived so far
+  thoughts?: string; // Model's reasoning summary (TUTOR)
+  isStreaming?: boolean; // Reply is still being received
   timestamp: number;
   sources?: { uri: string; title: string }[];
+  verification?: Verification;
+  plot?: PlotSpec; // Native function plot (VISUALIZER)
+  geometry?: GeometryConstruction; // Dynamic geometry construction (VISUALIZER)
+  practice?: PracticeQuiz; // Generated quiz and the student's answers so far (PRACTICE)
+  guided?: GuidedSolution; // Solution worked through one step at a time (TUTOR/SOLVER guided mode)
+  progress?: JobStatus[]; // Per-item status of a batch job (slide images)
+  error?: MessageError; // Shown as an error bubble; text holds the explanation
+  parentId?: string; // Message this one follows; versions of a message share it (see messageTree)
+  activeChildId?: string; // Version of the next message that is shown; the newest when unset
+}
+
+// A failed request (see modelRouter for the kinds)
+export interface MessageError {
+  kind: string;
+  retryOf?: string; // Id of the user message that Retry sends again
+  problem?: SolverProblem; // Solver: Retry solves only this problem of the pages again
+}
+
+// State of one job in a batch (see jobScheduler)
+export type JobStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface PlotSpec {
+  functions: { expression: string }[]; // LaTeX/plain expressions in x
+}
+
+export type PracticeDifficulty = 'easy' | 'medium' | 'hard';
+
+// How an answer is graded: numbers and expressions locally (see practiceGrading), proofs by the model
+export type PracticeAnswerKind = 'numeric' | 'expression' | 'proof';
+
+export interface PracticeProblem {
+  statement: string; // Markdown with LaTeX
+  answerKind: PracticeAnswerKind;
+  answer: string; // LaTeX without delimiters, or a model proof; hidden until graded
+  hints: string[]; // Revealed one at a time
+  solution: string; // Worked solution shown in the review
+}
+
+export interface PracticeAttempt {
+  response: string;
+  hintsShown: number;
+  result?: 'correct' | 'incorrect';
+  feedback?: string; // The model's comment when it graded the answer
+}
+
+export interface PracticeQuiz {
+  topic: string;
+  difficulty: PracticeDifficulty;
+  problems: PracticeProblem[];
+  attempts: PracticeAttempt[]; // One per problem
+  finished?: boolean;
+}
+
+// One step of a guided solution; the student writes it before the official one is shown
+export interface GuidedStep {
+  statement: string; // What to do, without giving away the result
+  hint: string;
+  result: string; // Expected intermediate result in LaTeX without delimiters
+  explanation: string; // The official working, revealed with the result
+}
+
+export interface GuidedStepProgress {
+  response?: string; // The student's last attempt
+  correct?: boolean;
+  feedback?: string; // Why the last attempt was not accepted
+  hintShown?: boolean;
+  revealed?: boolean;
+}
+
+export interface GuidedSolution {
+  problem: string; // Statement the steps are checked against
+  steps: GuidedStep[];
+  progress: GuidedStepProgress[]; // One per step
+}
+
+// Result of re-checking an AI answer locally (see verificationService)
+export interface Verification {
+  status: 'passed' | 'failed';
+  kind: 'equation' | 'derivative' | 'integral' | 'arithmetic';
+  detail: string;
+}
+
+// One image sent to the solver: an uploaded photo or a rendered PDF page
+export interface UploadedPage {
+  data: string; // Base64 without the data: prefix
+  mimeType: string;
+  label: string;
+}
+
+// A problem found on an uploaded page
+export interface DetectedProblem {
+  page: number; // Index into the uploaded pages
+  statement: string;
+}
+
+// A detected problem as it is solved and numbered in the chat
+export interface SolverProblem extends DetectedProblem {
+  number?: number; // Set when the pages held more than one problem
+}
+
+export interface Conversation {
+  id: string;
+  view: ViewState;
+  title: string;
+  messages: Message[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type GeometryElementType =
+  | 'point'        // free point at (x, y), draggable
+  | 'midpoint'     // refs: [pointA, pointB]
+  | 'intersection' // refs: [lineOrCircle, lineOrCircle]; (x, y) picks the nearer solution
+  | 'segment'      // refs: [pointA, pointB]
+  | 'line'         // refs: [pointA, pointB]
+  | 'ray'          // refs: [origin, throughPoint]
+  | 'perpendicular'// refs: [line, point] — line through point, perpendicular to line
+  | 'parallel'     // refs: [line, point] — line through point, parallel to line
+  | 'circle'       // refs: [center, throughPoint] or refs: [center] + radius
+  | 'polygon'      // refs: [point, point, point, ...]
+  | 'angle'        // refs: [pointA, vertex, pointC] — measured in degrees
+  | 'length';      // refs: [pointA, pointB] — measured distance
+
+export interface GeometryElement {
+  id: string;
+  type: GeometryElementType;
+  label?: string;
+  x?: number;
+  y?: number;
+  refs?: string[];
+  radius?: number;
+}
+
+export interface GeometryConstruction {
+  title: string;
+  elements: GeometryElement[];
 }
 
 export interface ImageConfigOption {
@@ -26,13 +166,22 @@ export interface ImageConfigOption {
   value: "1K" | "2K" | "4K";
 }
 
+export type SlideLayout = 'image-text' | 'full-image' | 'two-column' | 'definition' | 'worked-example';
+
+export interface PresentationSlide {
+  title: string;
+  bullets: string[];
+  examples: string[];
+  imageDescription: string;
+  speakerNotes: string;
+  imageBase64?: string | null; // Generated illustration, filled in before review
+  layout?: SlideLayout; // Chosen from content (see presentationThemes), editable in review
+}
+
 export interface PresentationData {
   title: string;
-  slides: {
-    title: string;
-    bullets: string[];
-    examples: string[];
-    imageDescription: string;
-    speakerNotes: string;
-  }[];
-}
\ No newline at end of file
+  slides: PresentationSlide[];
+}
+
+// Output formats offered from the outline review
+export type PresentationFormat = 'pptx' | 'html' | 'handout' | 'odp';
\ No newline at end of file
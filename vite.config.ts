@@ -1,5 +1,42 @@
-import { defineConfig, loadEnv } from 'vite'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { existsSync } from 'fs'
+import { resolve } from 'path'
+
+// Serves the functions under /api during `npm run dev`, the way Vercel does in production
+const apiDevServer = (): Plugin => ({
+  name: 'api-dev-server',
+  configureServer(server) {
+    server.middlewares.use('/api', async (req, res, next) => {
+      const name = (req.url || '').split('?')[0].replace(/^\//, '');
+      if (!/^[a-z-]+$/.test(name) || !existsSync(resolve('api', `${name}.ts`))) return next();
+      try {
+        const { default: handler } = await server.ssrLoadModule(`/api/${name}.ts`);
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk);
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+        const response: Response = await handler(new Request(`http://${req.headers.host}${req.originalUrl}`, {
+          method: req.method,
+          headers: req.headers as Record<string, string>,
+          body: chunks.length ? Buffer.concat(chunks) : undefined,
+          signal: controller.signal,
+        }));
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => res.setHeader(key, value));
+        const reader = response.body?.getReader();
+        while (reader) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          res.write(value);
+        }
+        res.end();
+      } catch (error) {
+        next(error);
+      }
+    });
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -7,19 +44,13 @@ export default defineConfig(({ mode }) => {
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, process.cwd(), '');
 
+  // The key is only read by the /api functions and never reaches the bundle
+  const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+  if (apiKey) process.env.GEMINI_API_KEY = apiKey;
+
   return {
-    plugins: [react()],
+    plugins: [react(), apiDevServer()],
     base: '/',
-    define: {
-      // Map multiple possible environment variable names to the strict process.env.API_KEY required by the SDK.
-      // This allows the user to set VITE_GEMINI_API_KEY or VITE_API_KEY in Vercel.
-      'process.env.API_KEY': JSON.stringify(
-        env.VITE_GEMINI_API_KEY || 
-        env.VITE_API_KEY || 
-        process.env.VITE_GEMINI_API_KEY || 
-        process.env.VITE_API_KEY
-      )
-    },
     build: {
       outDir: 'dist',
       sourcemap: false